@@ -0,0 +1,6 @@
+-- Per-job ETL tracking: watermark for resumable jobs and run duration
+
+ALTER TABLE etl_job_log ADD COLUMN IF NOT EXISTS watermark DATE;
+ALTER TABLE etl_job_log ADD COLUMN IF NOT EXISTS duration_ms INTEGER;
+
+CREATE INDEX IF NOT EXISTS etl_job_name_status_idx ON etl_job_log(job_name, status);
@@ -0,0 +1,6 @@
+-- Track revisions to daily debt snapshots (upserts bump updated_at)
+
+ALTER TABLE daily_debt_snapshots ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL;
+
+DROP TRIGGER IF EXISTS update_daily_debt_snapshots_updated_at ON daily_debt_snapshots;
+CREATE TRIGGER update_daily_debt_snapshots_updated_at BEFORE UPDATE ON daily_debt_snapshots FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
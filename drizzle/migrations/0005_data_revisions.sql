@@ -0,0 +1,24 @@
+-- Audit trail of Treasury figures restated after first ingest
+
+CREATE TABLE IF NOT EXISTS data_revisions (
+    id SERIAL PRIMARY KEY,
+    
+    -- Which record changed
+    table_name VARCHAR(100) NOT NULL,
+    natural_key VARCHAR(100) NOT NULL,
+    record_date DATE NOT NULL,
+    
+    -- What changed
+    field VARCHAR(100) NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    
+    -- Ingest run that detected the change
+    etl_job_id INTEGER REFERENCES etl_job_log(id),
+    detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS revisions_table_record_date_idx ON data_revisions(table_name, record_date);
+CREATE INDEX IF NOT EXISTS revisions_detected_at_idx ON data_revisions(detected_at);
+
+COMMENT ON TABLE data_revisions IS 'Field-level history of restated Treasury records';
@@ -0,0 +1,26 @@
+-- Archive of raw Treasury API responses, one row per fetched page
+
+CREATE TABLE IF NOT EXISTS raw_api_payloads (
+    id SERIAL PRIMARY KEY,
+    
+    -- Request
+    endpoint VARCHAR(200) NOT NULL,
+    url TEXT NOT NULL,
+    params JSONB NOT NULL,
+    page_number INTEGER,
+    
+    -- Response meta
+    record_count INTEGER NOT NULL,
+    total_count INTEGER,
+    total_pages INTEGER,
+    
+    -- Response body, gzip-compressed JSON
+    payload BYTEA NOT NULL,
+    payload_bytes INTEGER NOT NULL,
+    
+    fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS raw_payloads_endpoint_fetched_idx ON raw_api_payloads(endpoint, fetched_at);
+
+COMMENT ON TABLE raw_api_payloads IS 'Compressed raw Treasury API pages, re-processable without the network';
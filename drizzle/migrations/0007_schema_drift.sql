@@ -0,0 +1,11 @@
+-- Schema drift detection on Treasury API responses
+
+ALTER TABLE etl_job_log ADD COLUMN IF NOT EXISTS schema_drift JSONB;
+
+CREATE TABLE IF NOT EXISTS api_schema_baselines (
+    endpoint VARCHAR(200) PRIMARY KEY,
+    fields JSONB NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+COMMENT ON TABLE api_schema_baselines IS 'Last observed field names and data types per Treasury API endpoint';
@@ -0,0 +1,21 @@
+-- Data quality rule violations found in cleaned records at ingest
+
+CREATE TABLE IF NOT EXISTS data_quality_violations (
+    id SERIAL PRIMARY KEY,
+    
+    rule_id VARCHAR(100) NOT NULL,
+    dataset VARCHAR(50) NOT NULL,
+    severity VARCHAR(20) NOT NULL,
+    record_key VARCHAR(100) NOT NULL,
+    record_date DATE NOT NULL,
+    message TEXT NOT NULL,
+    
+    -- Last ingest run that found the violation
+    etl_job_id INTEGER REFERENCES etl_job_log(id),
+    detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS quality_rule_record_idx ON data_quality_violations(rule_id, record_key);
+CREATE INDEX IF NOT EXISTS quality_dataset_date_idx ON data_quality_violations(dataset, record_date);
+
+COMMENT ON TABLE data_quality_violations IS 'Latest failure of each data quality rule per record';
@@ -0,0 +1,23 @@
+-- Full nominal (1M-30Y) and real (5Y-30Y) yield curves, one row per date, curve and tenor
+
+CREATE TABLE IF NOT EXISTS yield_curve_points (
+    id SERIAL PRIMARY KEY,
+    
+    record_date DATE NOT NULL,
+    curve_type VARCHAR(10) NOT NULL,
+    tenor VARCHAR(5) NOT NULL,
+    tenor_months INTEGER NOT NULL,
+    yield DECIMAL(6, 4) NOT NULL,
+    
+    -- Metadata
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS yield_curve_date_type_tenor_idx ON yield_curve_points(record_date, curve_type, tenor);
+CREATE INDEX IF NOT EXISTS yield_curve_record_date_idx ON yield_curve_points(record_date);
+
+DROP TRIGGER IF EXISTS update_yield_curve_points_updated_at ON yield_curve_points;
+CREATE TRIGGER update_yield_curve_points_updated_at BEFORE UPDATE ON yield_curve_points FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE yield_curve_points IS 'Daily Treasury par yield curve (nominal) and real yield curve (TIPS) by tenor';
@@ -0,0 +1,28 @@
+-- Breakeven inflation term structure per day, derived from yield_curve_points
+
+CREATE TABLE IF NOT EXISTS breakeven_rates (
+    id SERIAL PRIMARY KEY,
+    
+    record_date DATE NOT NULL UNIQUE,
+    
+    -- Nominal minus real yield at each TIPS tenor (percent)
+    breakeven_5y DECIMAL(6, 4),
+    breakeven_7y DECIMAL(6, 4),
+    breakeven_10y DECIMAL(6, 4),
+    breakeven_20y DECIMAL(6, 4),
+    breakeven_30y DECIMAL(6, 4),
+    
+    -- 5-year breakeven starting in 5 years, from the fitted curves
+    forward_5y5y DECIMAL(6, 4),
+    
+    -- Metadata
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS breakeven_record_date_idx ON breakeven_rates(record_date);
+
+DROP TRIGGER IF EXISTS update_breakeven_rates_updated_at ON breakeven_rates;
+CREATE TRIGGER update_breakeven_rates_updated_at BEFORE UPDATE ON breakeven_rates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE breakeven_rates IS 'Breakeven inflation at 5/7/10/20/30Y and the 5y5y forward breakeven';
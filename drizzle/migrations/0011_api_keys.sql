@@ -0,0 +1,33 @@
+-- API keys for partner access, with per-key scopes, rate limit tier and daily usage
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+
+    name VARCHAR(100) NOT NULL,
+    prefix VARCHAR(16) NOT NULL,
+
+    -- SHA-256 of the key (hex); the key itself is only shown once at creation
+    key_hash VARCHAR(64) NOT NULL,
+    scopes JSONB NOT NULL,
+    tier VARCHAR(20) NOT NULL DEFAULT 'standard',
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    last_used_at TIMESTAMP,
+    revoked_at TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS api_keys_hash_idx ON api_keys(key_hash);
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+    id SERIAL PRIMARY KEY,
+
+    key_id INTEGER NOT NULL REFERENCES api_keys(id),
+    usage_date DATE NOT NULL,
+    requests INTEGER NOT NULL DEFAULT 0,
+    rate_limited INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS api_key_usage_key_date_idx ON api_key_usage(key_id, usage_date);
+
+COMMENT ON TABLE api_keys IS 'Hashed API keys with scopes and rate limit tier';
+COMMENT ON TABLE api_key_usage IS 'Requests (and rate-limited requests) per API key per day';
@@ -0,0 +1,16 @@
+-- Shared rate limiter state (RATE_LIMIT_STORE=postgres), one row per client and route
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    key VARCHAR(200) PRIMARY KEY,
+
+    -- Algorithm state (window counts or token bucket level)
+    state JSONB NOT NULL,
+
+    -- Bumped on every write; writers compare-and-set on it
+    version INTEGER NOT NULL,
+    expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_buckets_expires_idx ON rate_limit_buckets(expires_at);
+
+COMMENT ON TABLE rate_limit_buckets IS 'Rate limiter state shared between serverless instances';
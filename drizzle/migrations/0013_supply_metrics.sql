@@ -0,0 +1,34 @@
+-- Rollover profile of marketable debt per MSPD record date (derived from treasury_securities)
+
+CREATE TABLE IF NOT EXISTS supply_metrics (
+    id SERIAL PRIMARY KEY,
+    
+    record_date DATE NOT NULL UNIQUE,
+    
+    -- Marketable debt maturing after the record date (dollars)
+    total_outstanding DECIMAL(20, 2) NOT NULL,
+    
+    -- Weighted average maturity (months)
+    wam_months DECIMAL(8, 4) NOT NULL,
+    
+    -- Percent of marketable debt maturing within each horizon, and in bills
+    maturing_3m DECIMAL(8, 4) NOT NULL,
+    maturing_6m DECIMAL(8, 4) NOT NULL,
+    maturing_12m DECIMAL(8, 4) NOT NULL,
+    maturing_24m DECIMAL(8, 4) NOT NULL,
+    bill_share DECIMAL(8, 4) NOT NULL,
+    
+    -- Dollars maturing per calendar month by security type
+    rollover_schedule JSONB NOT NULL,
+    
+    -- Metadata
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS supply_metrics_record_date_idx ON supply_metrics(record_date);
+
+DROP TRIGGER IF EXISTS update_supply_metrics_updated_at ON supply_metrics;
+CREATE TRIGGER update_supply_metrics_updated_at BEFORE UPDATE ON supply_metrics FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE supply_metrics IS 'WAM, share maturing within 3/6/12/24 months, bill share and monthly rollover schedule per MSPD record date';
@@ -0,0 +1,20 @@
+-- Refinancing scenarios saved by name (re-run against the latest snapshot on request)
+
+CREATE TABLE IF NOT EXISTS refinancing_scenarios (
+    id SERIAL PRIMARY KEY,
+    
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    
+    -- Rate shocks, bill share target and deficit (see ScenarioParametersSchema)
+    parameters JSONB NOT NULL,
+    
+    -- Metadata
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+DROP TRIGGER IF EXISTS update_refinancing_scenarios_updated_at ON refinancing_scenarios;
+CREATE TRIGGER update_refinancing_scenarios_updated_at BEFORE UPDATE ON refinancing_scenarios FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE refinancing_scenarios IS 'Named refinancing scenarios: yield curve shocks, bill share of new issuance and deficit';
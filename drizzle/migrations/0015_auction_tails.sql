@@ -0,0 +1,7 @@
+-- Auction tails: coupon auction high yield vs the same-day interpolated secondary-market yield
+
+ALTER TABLE treasury_auctions ADD COLUMN IF NOT EXISTS market_yield DECIMAL(8, 5);
+ALTER TABLE treasury_auctions ADD COLUMN IF NOT EXISTS tail_bps DECIMAL(8, 2);
+
+COMMENT ON COLUMN treasury_auctions.market_yield IS 'Par yield for the auctioned tenor interpolated from the auction-day curve (real curve for TIPS), percent';
+COMMENT ON COLUMN treasury_auctions.tail_bps IS 'High yield minus market_yield in basis points: positive tailed, negative stopped through';
@@ -1,7 +1,14 @@
 import type { NextConfig } from "next";
+import { deprecationHeaders, LEGACY_API_PATHS } from "./src/lib/api/deprecation";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Unversioned API routes are deprecated in favour of /api/v1
+  async headers() {
+    return LEGACY_API_PATHS.map((path) => ({
+      source: path,
+      headers: deprecationHeaders(path),
+    }));
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,49 @@
+/**
+ * Historical Backfill CLI
+ *
+ * Usage:
+ *   npm run backfill -- <dataset> <start> [end]
+ *
+ * Example:
+ *   npm run backfill -- debt 2020-01-01 2024-12-31
+ *
+ * Reads POSTGRES_URL from .env.local (same as drizzle.config.ts).
+ */
+
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  // Import after env is loaded: the db module reads POSTGRES_URL on import
+  const { getDb } = await import('../src/lib/db');
+  const { BACKFILL_DATASETS, isBackfillDataset, runBackfill } = await import('../src/lib/etl/backfill');
+  const { validateDateRange } = await import('../src/lib/validation');
+
+  const [dataset = '', start = null, end = null] = process.argv.slice(2);
+
+  if (!isBackfillDataset(dataset)) {
+    console.error(`Usage: npm run backfill -- <${BACKFILL_DATASETS.join('|')}> <start> [end]`);
+    process.exit(1);
+  }
+
+  const rangeValidation = validateDateRange(start, end);
+  if (!rangeValidation.isValid) {
+    console.error(`[Backfill] ${rangeValidation.error}`);
+    process.exit(1);
+  }
+
+  const db = getDb();
+  if (!db) {
+    console.error('[Backfill] Database not configured. Set POSTGRES_URL in .env.local.');
+    process.exit(1);
+  }
+
+  const result = await runBackfill(db, dataset, rangeValidation.value.start, rangeValidation.value.end);
+  console.log(JSON.stringify(result, null, 2));
+}
+
+main().catch((error) => {
+  console.error('[Backfill] Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,226 @@
+/**
+ * API Route: /api/admin/api-keys
+ *
+ * API key management. Protected by the same bearer secret as the ingest
+ * cron, or an admin-scoped API key.
+ *
+ * GET: every key (never the key itself) with its daily usage
+ * - days: usage window in days (1-365, default: 30)
+ *
+ * POST: create a key from { name, scopes, tier }. The response is the only
+ * time the key is shown.
+ *
+ * DELETE: revoke a key
+ * - id: key id (required)
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { and, asc, desc, eq, gte, isNull } from 'drizzle-orm';
+import { getDb, apiKeys, apiKeyUsage, type ApiKey } from '@/lib/db';
+import { API_KEY_SCOPES, generateApiKey } from '@/lib/api-keys';
+import { verifyAdminRequest } from '@/lib/cron-auth';
+import { RATE_LIMIT_TIERS, type RateLimitTier } from '@/lib/rate-limit';
+import { validateLimit } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+const TIERS = Object.keys(RATE_LIMIT_TIERS) as [RateLimitTier, ...RateLimitTier[]];
+
+const CreateKeySchema = z.object({
+  name: z.string({ error: 'name is required' }).trim().min(1, { error: 'name is required' }).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES, {
+    error: `Invalid scope. Must be one of: ${API_KEY_SCOPES.join(', ')}`,
+  }), { error: 'scopes must be an array' }).min(1, { error: 'At least one scope is required' }),
+  tier: z.enum(TIERS, {
+    error: `Invalid tier. Must be one of: ${TIERS.join(', ')}`,
+  }).default('standard'),
+});
+
+/**
+ * A key as returned by this route (without its hash)
+ */
+function publicKey(key: ApiKey) {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    tier: key.tier,
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+    revokedAt: key.revokedAt,
+  };
+}
+
+export async function GET(request: Request) {
+  // Verify authorization
+  if (!await verifyAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  const daysValidation = validateLimit(searchParams.get('days'), 30, 365, 'Days');
+  if (!daysValidation.isValid) {
+    return NextResponse.json(
+      { error: daysValidation.error },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - daysValidation.value + 1);
+  const sinceDate = since.toISOString().split('T')[0];
+  const today = new Date().toISOString().split('T')[0];
+
+  try {
+    const keys = await db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+    const usage = await db.select()
+      .from(apiKeyUsage)
+      .where(gte(apiKeyUsage.usageDate, sinceDate))
+      .orderBy(asc(apiKeyUsage.usageDate));
+
+    return NextResponse.json({
+      keys: keys.map(key => {
+        const daily = usage.filter(u => u.keyId === key.id);
+        return {
+          ...publicKey(key),
+          usage: {
+            today: daily.find(u => u.usageDate === today)?.requests ?? 0,
+            requests: daily.reduce((sum, u) => sum + u.requests, 0),
+            rateLimited: daily.reduce((sum, u) => sum + u.rateLimited, 0),
+            daily: daily.map(u => ({ date: u.usageDate, requests: u.requests, rateLimited: u.rateLimited })),
+          },
+        };
+      }),
+      meta: {
+        startDate: sinceDate,
+        endDate: today,
+        tiers: RATE_LIMIT_TIERS,
+      },
+    });
+  } catch (error) {
+    console.error('[API /admin/api-keys] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  // Verify authorization
+  if (!await verifyAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = CreateKeySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { key, prefix, keyHash } = generateApiKey();
+    const [created] = await db.insert(apiKeys)
+      .values({
+        name: parsed.data.name,
+        prefix,
+        keyHash,
+        scopes: [...new Set(parsed.data.scopes)],
+        tier: parsed.data.tier,
+      })
+      .returning();
+
+    return NextResponse.json({ ...publicKey(created), key }, { status: 201 });
+  } catch (error) {
+    console.error('[API /admin/api-keys] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  // Verify authorization
+  if (!await verifyAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const id = Number(new URL(request.url).searchParams.get('id'));
+  if (!Number.isInteger(id) || id < 1) {
+    return NextResponse.json(
+      { error: 'id must be a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const [revoked] = await db.update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'No active API key with that id' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(publicKey(revoked));
+  } catch (error) {
+    console.error('[API /admin/api-keys] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
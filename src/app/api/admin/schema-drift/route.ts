@@ -0,0 +1,105 @@
+/**
+ * API Route: /api/admin/schema-drift
+ *
+ * Schema drift detected in Treasury API responses: the latest ETL runs
+ * that reported drift, the stored field baselines per endpoint and,
+ * with `probe=true`, a fresh check of one page from every endpoint.
+ * Protected by the same bearer secret as the ingest cron, or an admin-scoped
+ * API key.
+ *
+ * Query Parameters:
+ * - probe: "true" to fetch and check every endpoint now
+ * - limit: number of job log entries (1-100, default: 20)
+ */
+
+import { NextResponse } from 'next/server';
+import { desc, isNotNull } from 'drizzle-orm';
+import { getDb, etlJobLog, apiSchemaBaselines } from '@/lib/db';
+import { verifyAdminRequest } from '@/lib/cron-auth';
+import { TREASURY_ENDPOINTS } from '@/lib/etl/endpoints';
+import { fetchSamplePage, rateLimitDelay } from '@/lib/etl/treasury-client';
+import { captureSchemaDrift, hasDrift } from '@/lib/etl/schema-drift';
+import { validateLimit } from '@/lib/validation';
+import type { SchemaDriftReport } from '@/lib/types/treasury';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Fetch one page of every endpoint, one at a time with the client's
+ * request spacing, and collect its drift report
+ */
+async function probeEndpoints() {
+  const results = [];
+  for (const [i, endpoint] of Object.values(TREASURY_ENDPOINTS).entries()) {
+    if (i > 0) await rateLimitDelay();
+    const reports: SchemaDriftReport[] = [];
+    try {
+      await captureSchemaDrift(reports, () => fetchSamplePage(endpoint));
+      results.push({ endpoint, ok: true, drift: reports.some(hasDrift), report: reports[0] ?? null });
+    } catch (error) {
+      results.push({ endpoint, ok: false, drift: reports.some(hasDrift), report: reports[0] ?? null, error: String(error) });
+    }
+  }
+  return results;
+}
+
+export async function GET(request: Request) {
+  // Verify authorization
+  if (!await verifyAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  const limitValidation = validateLimit(searchParams.get('limit'), 20, 100);
+  if (!limitValidation.isValid) {
+    return NextResponse.json(
+      { error: limitValidation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const probe = searchParams.get('probe') === 'true' ? await probeEndpoints() : null;
+
+    const db = getDb();
+    if (!db) {
+      return NextResponse.json({ runs: [], baselines: [], probe });
+    }
+
+    const runs = await db.select({
+      id: etlJobLog.id,
+      jobName: etlJobLog.jobName,
+      status: etlJobLog.status,
+      startedAt: etlJobLog.startedAt,
+      schemaDrift: etlJobLog.schemaDrift,
+    })
+      .from(etlJobLog)
+      .where(isNotNull(etlJobLog.schemaDrift))
+      .orderBy(desc(etlJobLog.startedAt))
+      .limit(limitValidation.value);
+
+    const baselines = await db.select().from(apiSchemaBaselines);
+
+    return NextResponse.json({
+      runs,
+      baselines: baselines.map(b => ({
+        endpoint: b.endpoint,
+        fieldCount: Object.keys(b.fields).length,
+        fields: b.fields,
+        updatedAt: b.updatedAt,
+      })),
+      probe,
+    });
+  } catch (error) {
+    console.error('[API /admin/schema-drift] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load schema drift report' },
+      { status: 500 }
+    );
+  }
+}
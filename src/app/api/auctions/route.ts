@@ -1,81 +1,84 @@
 /**
  * API Route: /api/auctions
  *
- * Returns auction demand data (bid-to-cover ratios).
+ * Returns auction demand data (bid-to-cover ratios) with coupon auction
+ * tails against the auction-day secondary-market yield, benchmark terms,
+ * reopening flags and rolling averages over the previous auctions of each
+ * term, and tail statistics per benchmark term.
  * Prioritizes Database, falls back to Live API.
+ *
+ * Query Parameters:
+ * - timeframe: 1y | 3y | 5y | 10y (default: 1y)
+ * - types: comma-separated security types (default: NOTE,BOND)
+ * - terms: comma-separated benchmark terms, e.g. 2Y,10Y (default: all)
+ * - asOf: YYYY-MM-DD, end the timeframe window on this date (default: today)
+ * - format: json | csv | jsonl | xlsx, download instead of the JSON response
  */
 
 import { NextResponse } from 'next/server';
-import { fetchAuctions } from '@/lib/etl/treasury-client';
+import { fetchAuctionsSince } from '@/lib/etl/treasury-client';
 import { cleanAuctionRecords } from '@/lib/etl/sanitizers';
-import { aggregateAuctionDemand, calculateAuctionStats } from '@/lib/etl/aggregators';
+import { aggregateAuctionDemand, calculateAuctionStats, calculateTailStats } from '@/lib/etl/aggregators';
+import { fetchLiveYieldCurves } from '@/lib/etl/yield-curves';
+import { auctionTermHistory, TERM_HISTORY_YEARS } from '@/lib/analytics/auction-terms';
 import { getDb, treasuryAuctions, type TreasuryAuction } from '@/lib/db';
-import { desc, gte } from 'drizzle-orm';
-import type { AuctionDemandData } from '@/lib/types/treasury';
-import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rate-limit';
-import { validateTimeframe, validateSecurityTypes } from '@/lib/validation';
+import { and, desc, gte, lte } from 'drizzle-orm';
+import type { AuctionDemandData, YieldCurve } from '@/lib/types/treasury';
+import { parseQuery } from '@/lib/api/contracts';
+import type { AuctionsResponse } from '@/lib/api/schemas';
+import { withApiAccess } from '@/lib/api-keys';
+import { exportResponse, type ExportTable } from '@/lib/export';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 86400; // Revalidate daily
 
-interface AuctionsResponse {
-  data: AuctionDemandData[];
-  stats: {
-    count: number;
-    avgRatio: number;
-    minRatio: number;
-    maxRatio: number;
-    medianRatio: number;
-    belowThreshold: number;
-  };
-  meta: {
-    computedAt: string;
-    timeframe: string;
-    securityTypes: string[];
-    source: 'database' | 'api';
+/**
+ * Auctions as an export table, one row per auction
+ */
+function auctionsTable(response: AuctionsResponse): ExportTable {
+  return {
+    name: 'auctions',
+    columns: [
+      { key: 'date', header: 'Auction Date' },
+      { key: 'type', header: 'Security Type' },
+      { key: 'term', header: 'Security Term' },
+      { key: 'benchmarkTerm', header: 'Benchmark Term' },
+      { key: 'reopening', header: 'Reopening' },
+      { key: 'ratio', header: 'Bid-to-Cover', units: 'ratio' },
+      { key: 'accepted', header: 'Accepted', units: 'USD' },
+      { key: 'direct', header: 'Direct Bidders', units: 'USD' },
+      { key: 'indirect', header: 'Indirect Bidders', units: 'USD' },
+      { key: 'dealers', header: 'Primary Dealers', units: 'USD' },
+      { key: 'highYield', header: 'High Yield', units: 'percent' },
+      { key: 'marketYield', header: 'Market Yield', units: 'percent' },
+      { key: 'tailBps', header: 'Tail', units: 'bps' },
+      { key: 'rollingRatio', header: 'Prior 6 Bid-to-Cover', units: 'ratio' },
+      { key: 'rollingTailBps', header: 'Prior 6 Tail', units: 'bps' },
+    ],
+    rows: response.data.map(a => ({ ...a })),
+    metadata: {
+      source: response.meta.source,
+      recordDate: response.data.length > 0 ? response.data[response.data.length - 1].date : null,
+      computedAt: response.meta.computedAt,
+      timeframe: response.meta.timeframe,
+      securityTypes: response.meta.securityTypes.join(' '),
+      terms: response.meta.terms?.join(' ') ?? null,
+    },
   };
 }
 
-export async function GET(request: Request) {
-  // Rate limiting
-  const clientId = getClientIdentifier(request);
-  const rateLimitResult = checkRateLimit(`auctions:${clientId}`, RATE_LIMITS.data);
-
-  if (!rateLimitResult.allowed) {
-    return NextResponse.json(
-      { error: 'Rate limit exceeded' },
-      {
-        status: 429,
-        headers: {
-          'Retry-After': Math.ceil(rateLimitResult.resetIn / 1000).toString(),
-        },
-      }
-    );
-  }
-
-  const { searchParams } = new URL(request.url);
-
-  // Validate query parameters
-  const timeframeValidation = validateTimeframe(searchParams.get('timeframe'));
-  if (!timeframeValidation.isValid) {
-    return NextResponse.json(
-      { error: timeframeValidation.error },
-      { status: 400 }
-    );
-  }
-  const timeframe = timeframeValidation.value;
-
-  const typesValidation = validateSecurityTypes(searchParams.get('types'));
-  if (!typesValidation.isValid) {
+export const GET = withApiAccess('auctions', 'read', async (request: Request) => {
+  const query = parseQuery('/api/auctions', new URL(request.url).searchParams);
+  if (!query.success) {
     return NextResponse.json(
-      { error: typesValidation.error },
+      { error: query.error },
       { status: 400 }
     );
   }
-  const types = typesValidation.value;
+  const { timeframe, types, terms, asOf, format } = query.data;
 
-  // Calculate start date based on timeframe
-  const now = new Date();
+  // Calculate start date based on timeframe, counting back from asOf
+  const now = asOf ? new Date(`${asOf}T00:00:00Z`) : new Date();
   switch (timeframe) {
     case '1y': now.setFullYear(now.getFullYear() - 1); break;
     case '3y': now.setFullYear(now.getFullYear() - 3); break;
@@ -84,6 +87,11 @@ export async function GET(request: Request) {
     default: now.setFullYear(now.getFullYear() - 1);
   }
   const startDate = now.toISOString().split('T')[0];
+
+  // Earlier auctions feed the reopening flags and rolling averages
+  now.setFullYear(now.getFullYear() - TERM_HISTORY_YEARS);
+  const historyStart = now.toISOString().split('T')[0];
+  const inTerms = (a: AuctionDemandData) => !terms || terms.some(t => t === a.benchmarkTerm);
   
   try {
     // 1. Try Database (if available)
@@ -92,7 +100,10 @@ export async function GET(request: Request) {
       try {
         const dbAuctions = await db.select()
           .from(treasuryAuctions)
-          .where(gte(treasuryAuctions.auctionDate, startDate))
+          .where(and(
+            gte(treasuryAuctions.auctionDate, historyStart),
+            asOf ? lte(treasuryAuctions.auctionDate, asOf) : undefined
+          ))
           .orderBy(desc(treasuryAuctions.auctionDate));
           
         if (dbAuctions.length > 0) {
@@ -102,30 +113,48 @@ export async function GET(request: Request) {
             types.includes(a.securityType)
           );
           
-          if (filteredDbAuctions.length > 0) {
-            const cleanData: AuctionDemandData[] = filteredDbAuctions.map(a => ({
-              date: a.auctionDate,
+          if (filteredDbAuctions.some(a => a.auctionDate >= startDate)) {
+            const rows = filteredDbAuctions.map(a => ({
+              ...a,
               ratio: a.bidToCoverRatio ? parseFloat(a.bidToCoverRatio) : 0,
+              tailBps: a.tailBps ? parseFloat(a.tailBps) : undefined,
+            })).filter(a => a.ratio > 0).sort((a, b) => a.auctionDate.localeCompare(b.auctionDate));
+            const history = auctionTermHistory(rows);
+
+            const cleanData: AuctionDemandData[] = rows.map((a, i) => ({
+              date: a.auctionDate,
+              ratio: a.ratio,
               type: a.securityTypeRaw || a.securityType,
               term: a.securityTerm,
+              benchmarkTerm: history[i].benchmarkTerm,
+              reopening: history[i].reopening,
               direct: a.directBidderAccepted ? parseFloat(a.directBidderAccepted) : undefined,
               indirect: a.indirectBidderAccepted ? parseFloat(a.indirectBidderAccepted) : undefined,
               dealers: a.primaryDealerAccepted ? parseFloat(a.primaryDealerAccepted) : undefined,
               accepted: a.acceptedAmount ? parseFloat(a.acceptedAmount) : undefined,
-            })).filter(a => a.ratio > 0).sort((a, b) => a.date.localeCompare(b.date));
+              highYield: a.highYield ? parseFloat(a.highYield) : undefined,
+              marketYield: a.marketYield ? parseFloat(a.marketYield) : undefined,
+              tailBps: a.tailBps,
+              rollingRatio: history[i].rollingRatio,
+              rollingTailBps: history[i].rollingTailBps,
+            })).filter(a => a.date >= startDate && inTerms(a));
 
             const stats = calculateAuctionStats(cleanData);
 
             const response: AuctionsResponse = {
               data: cleanData,
               stats,
+              tailStats: calculateTailStats(cleanData),
               meta: {
                 computedAt: new Date().toISOString(),
                 timeframe,
+                asOf: asOf ?? null,
                 securityTypes: types,
+                terms: terms ?? null,
                 source: 'database',
               },
             };
+            if (format) return exportResponse(auctionsTable(response), format, response);
             return NextResponse.json(response);
           }
         }
@@ -136,7 +165,7 @@ export async function GET(request: Request) {
 
     // 2. Fallback to Live API
     console.log('[API /auctions] Using live API...');
-    const rawAuctions = await fetchAuctions(10000); // Fetch enough for 10y history
+    const rawAuctions = await fetchAuctionsSince(historyStart); // All pages for the timeframe and history
     
     if (!rawAuctions.length) {
       return NextResponse.json(
@@ -146,20 +175,34 @@ export async function GET(request: Request) {
     }
     
     const cleanedAuctions = cleanAuctionRecords(rawAuctions);
-    const demandData = aggregateAuctionDemand(cleanedAuctions, types, startDate);
+
+    // Auction-day curves for tails (served without tails if unavailable)
+    let curves: Map<string, YieldCurve> | undefined;
+    try {
+      const live = await fetchLiveYieldCurves(historyStart, asOf ?? new Date().toISOString().split('T')[0]);
+      curves = new Map(live.map(c => [c.date, c]));
+    } catch (curveError) {
+      console.warn('[API /auctions] Yield curves unavailable, serving without tails:', curveError);
+    }
+
+    const demandData = aggregateAuctionDemand(cleanedAuctions, types, startDate, asOf, curves).filter(inTerms);
     const stats = calculateAuctionStats(demandData);
     
     const response: AuctionsResponse = {
       data: demandData,
       stats,
+      tailStats: calculateTailStats(demandData),
       meta: {
         computedAt: new Date().toISOString(),
         timeframe,
+        asOf: asOf ?? null,
         securityTypes: types,
+        terms: terms ?? null,
         source: 'api',
       },
     };
-    
+    if (format) return exportResponse(auctionsTable(response), format, response);
+
     return NextResponse.json(response, {
       headers: {
         'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
@@ -172,4 +215,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
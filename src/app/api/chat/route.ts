@@ -1,7 +1,7 @@
 import { google } from '@ai-sdk/google';
 import { streamText, type CoreMessage } from 'ai';
 import { NextResponse } from 'next/server';
-import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rate-limit';
+import { withApiAccess } from '@/lib/api-keys';
 import { sanitizeChatInput } from '@/lib/validation';
 
 export const maxDuration = 30;
@@ -66,25 +66,7 @@ function validateMessages(rawMessages: unknown): {
   return { isValid: true, messages: validatedMessages };
 }
 
-export async function POST(req: Request) {
-  // Rate limiting
-  const clientId = getClientIdentifier(req);
-  const rateLimitResult = checkRateLimit(`chat:${clientId}`, RATE_LIMITS.chat);
-
-  if (!rateLimitResult.allowed) {
-    return NextResponse.json(
-      { error: 'Rate limit exceeded. Please wait before sending more messages.' },
-      {
-        status: 429,
-        headers: {
-          'Retry-After': Math.ceil(rateLimitResult.resetIn / 1000).toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(Date.now() / 1000 + rateLimitResult.resetIn / 1000).toString(),
-        },
-      }
-    );
-  }
-
+export const POST = withApiAccess('chat', 'chat', async (req: Request) => {
   // Parse request body
   let body: { messages?: unknown; context?: unknown };
   try {
@@ -139,10 +121,5 @@ GUIDELINES:
     messages: messagesValidation.messages,
   });
 
-  return result.toTextStreamResponse({
-    headers: {
-      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-    },
-  });
-}
-
+  return result.toTextStreamResponse();
+});
@@ -0,0 +1,136 @@
+/**
+ * API Route: /api/cron/backfill
+ *
+ * Historical backfill for a single dataset over a date range.
+ * Protected by the same bearer secret as the ingest cron, or an admin-scoped
+ * API key.
+ *
+ * Query Parameters:
+ * - dataset: debt | securities | auctions | indicators | yield-curve
+ * - start: YYYY-MM-DD (required)
+ * - end: YYYY-MM-DD (default: today)
+ */
+
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { getDb, isDbAvailable, etlJobLog } from '@/lib/db';
+import { verifyAdminRequest } from '@/lib/cron-auth';
+import { BACKFILL_DATASETS, isBackfillDataset, runBackfill } from '@/lib/etl/backfill';
+import { captureSchemaDrift, hasDrift } from '@/lib/etl/schema-drift';
+import { validateDateRange } from '@/lib/validation';
+import type { SchemaDriftReport } from '@/lib/types/treasury';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes max
+
+export async function GET(request: Request) {
+  // Verify authorization
+  if (!await verifyAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  const dataset = searchParams.get('dataset') || '';
+  if (!isBackfillDataset(dataset)) {
+    return NextResponse.json(
+      { error: `Invalid dataset. Must be one of: ${BACKFILL_DATASETS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const rangeValidation = validateDateRange(searchParams.get('start'), searchParams.get('end'));
+  if (!rangeValidation.isValid) {
+    return NextResponse.json(
+      { error: rangeValidation.error },
+      { status: 400 }
+    );
+  }
+  const { start, end } = rangeValidation.value;
+
+  // Check if database is available
+  const db = getDb();
+  if (!db || !isDbAvailable) {
+    return NextResponse.json(
+      { error: 'Database not configured. Set POSTGRES_URL to enable data ingestion.' },
+      { status: 503 }
+    );
+  }
+
+  const jobName = `backfill_${dataset}`;
+  let jobId: number | null = null;
+  const driftReports: SchemaDriftReport[] = [];
+
+  try {
+    const [row] = await db.insert(etlJobLog).values({
+      jobName,
+      status: 'started',
+    }).returning({ id: etlJobLog.id });
+    jobId = row.id;
+  } catch (e) {
+    console.error('Failed to log job start', e);
+  }
+
+  // Record the outcome on the start row, or on a new row if logging the
+  // start failed
+  const logOutcome = async (outcome: Omit<typeof etlJobLog.$inferInsert, 'jobName'>) => {
+    if (jobId !== null) {
+      await db.update(etlJobLog).set(outcome).where(eq(etlJobLog.id, jobId));
+    } else {
+      await db.insert(etlJobLog).values({ jobName, ...outcome });
+    }
+  };
+
+  try {
+    const result = await captureSchemaDrift(
+      driftReports,
+      () => runBackfill(db, dataset, start, end, { jobId })
+    );
+    const schemaDrift = driftReports.filter(hasDrift);
+
+    await logOutcome({
+      status: 'completed',
+      recordsProcessed: result.stored,
+      schemaDrift: schemaDrift.length > 0 ? schemaDrift : null,
+      completedAt: new Date(),
+    });
+
+    revalidatePath('/');
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      result,
+      schemaDrift,
+    });
+  } catch (error) {
+    console.error(`[Backfill] ${dataset} failed:`, error);
+
+    const schemaDrift = driftReports.filter(hasDrift);
+
+    await logOutcome({
+      status: 'failed',
+      errorMessage: String(error),
+      schemaDrift: schemaDrift.length > 0 ? schemaDrift : null,
+      completedAt: new Date(),
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Backfill failed',
+        details: String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,70 @@
+/**
+ * API Route: /api/cron/ingest/[job]
+ *
+ * Runs a single named ETL job (debt, securities, auctions, indicators, yield-curve, aggregates).
+ * Each job has its own cron schedule in vercel.json, logs its own
+ * etl_job_log row and resumes from its last successful watermark.
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getDb, isDbAvailable } from '@/lib/db';
+import { verifyAdminRequest } from '@/lib/cron-auth';
+import { ETL_JOBS, ETL_JOB_NAMES, isEtlJobName, runEtlJob } from '@/lib/etl/jobs';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes max
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ job: string }> }
+) {
+  // Verify authorization
+  if (!await verifyAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { job } = await params;
+  if (!isEtlJobName(job)) {
+    return NextResponse.json(
+      { error: `Unknown job. Must be one of: ${ETL_JOB_NAMES.join(', ')}` },
+      { status: 404 }
+    );
+  }
+
+  // Check if database is available
+  const db = getDb();
+  if (!db || !isDbAvailable) {
+    return NextResponse.json(
+      { error: 'Database not configured. Set POSTGRES_URL to enable data ingestion.' },
+      { status: 503 }
+    );
+  }
+
+  const result = await runEtlJob(db, job);
+
+  if (result.success) {
+    revalidatePath('/');
+    ETL_JOBS[job].revalidatePaths.forEach(path => revalidatePath(path));
+  }
+
+  return NextResponse.json(
+    {
+      success: result.success,
+      timestamp: new Date().toISOString(),
+      result,
+    },
+    { status: result.success ? 200 : 500 }
+  );
+}
+
+// Also support POST for manual triggers
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ job: string }> }
+) {
+  return GET(request, context);
+}
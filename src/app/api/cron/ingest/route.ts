@@ -1,57 +1,34 @@
 /**
  * API Route: /api/cron/ingest
  * 
- * Cron job endpoint for daily data ingestion.
- * Should be called by Vercel Cron or external scheduler.
+ * Runs every ETL job in sequence (manual trigger / catch-up).
+ * Each job is also scheduled on its own via /api/cron/ingest/[job].
  * 
- * This endpoint:
- * 1. Fetches latest securities data
- * 2. Fetches new auction data (delta)
- * 3. Stores debt snapshot
- * 4. Stores economic indicators
- * 5. Pre-computes maturity wall aggregates
+ * Jobs (see src/lib/etl/jobs.ts):
+ * 1. debt - Daily debt snapshot
+ * 2. securities - Latest MSPD securities
+ * 3. auctions - New auction results
+ * 4. indicators - Economic indicators
+ * 5. yield-curve - Nominal and real yield curves by tenor
+ * 6. aggregates - Maturity wall aggregates per MSPD record date
+ * 
+ * Every job writes its own etl_job_log row and resumes from its watermark.
+ * A failing job does not stop the remaining ones.
  */
 
 import { NextResponse } from 'next/server';
-import { headers } from 'next/headers';
 import { revalidatePath } from 'next/cache';
 import { getDb, isDbAvailable } from '@/lib/db';
-import {
-  dailyDebtSnapshots,
-  treasurySecurities,
-  treasuryAuctions,
-  economicIndicators,
-  etlJobLog,
-} from '@/lib/db/schema';
+import { verifyAdminRequest } from '@/lib/cron-auth';
+import { ETL_JOBS, ETL_JOB_NAMES, runEtlJob, type EtlJobName, type EtlJobResult } from '@/lib/etl/jobs';
 
 // Vercel Cron configuration
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes max
 
-/**
- * Verify the request is from a valid cron job
- */
-async function verifyCronSecret(_request: Request): Promise<boolean> {
-  const headersList = await headers();
-  const authHeader = headersList.get('authorization');
-  const cronSecret = process.env.CRON_SECRET;
-  
-  // In development, allow without secret
-  if (process.env.NODE_ENV === 'development') {
-    return true;
-  }
-  
-  if (!cronSecret) {
-    console.warn('[Cron] CRON_SECRET not set');
-    return false;
-  }
-  
-  return authHeader === `Bearer ${cronSecret}`;
-}
-
 export async function GET(request: Request) {
   // Verify authorization
-  const isAuthorized = await verifyCronSecret(request);
+  const isAuthorized = await verifyAdminRequest(request);
   if (!isAuthorized) {
     return NextResponse.json(
       { error: 'Unauthorized' },
@@ -69,261 +46,30 @@ export async function GET(request: Request) {
   }
   
   const startTime = Date.now();
-  const results = {
-    debt: { success: false, message: '' },
-    securities: { success: false, message: '', count: 0 },
-    auctions: { success: false, message: '', count: 0 },
-    indicators: { success: false, message: '' },
-    aggregates: { success: false, message: '' },
-  };
+  const results: Partial<Record<EtlJobName, EtlJobResult>> = {};
   
-  // Log job start
-  try {
-    await db.insert(etlJobLog).values({
-      jobName: 'daily_ingest',
-      status: 'started',
-    });
-  } catch (e) {
-    console.error('Failed to log job start', e);
+  for (const job of ETL_JOB_NAMES) {
+    results[job] = await runEtlJob(db, job);
   }
   
-  try {
-    // Step 1: Fetch and store debt snapshot
-    console.log('[Cron] Step 1: Fetching debt snapshot...');
-    try {
-      const { fetchDebtToPenny } = await import('@/lib/etl/treasury-client');
-      const { cleanDebtRecord } = await import('@/lib/etl/sanitizers');
-      
-      const rawDebt = await fetchDebtToPenny();
-      if (rawDebt) {
-        const cleaned = cleanDebtRecord(rawDebt);
-        if (cleaned) {
-          // Convert string date to Date object if necessary or keep string depending on DB driver
-          // Drizzle date mode is string by default for postgres
-          await db.insert(dailyDebtSnapshots).values({
-            recordDate: cleaned.recordDate,
-            totalPublicDebt: cleaned.totalPublicDebt.toString(),
-            debtHeldByPublic: cleaned.debtHeldByPublic?.toString(),
-            intragovernmentalHoldings: cleaned.intragovernmentalHoldings?.toString(),
-          }).onConflictDoNothing();
-          
-          results.debt = {
-            success: true,
-            message: `Debt snapshot: $${(cleaned.totalPublicDebt / 1e12).toFixed(2)}T as of ${cleaned.recordDate}`,
-          };
-        }
-      }
-    } catch (e) {
-      console.error('[Cron] Debt Error:', e);
-      results.debt = { success: false, message: `Error: ${e}` };
-    }
-    
-    // Step 2: Fetch securities data
-    console.log('[Cron] Step 2: Fetching securities...');
-    try {
-      const { fetchSecuritiesDetail } = await import('@/lib/etl/treasury-client');
-      const { cleanSecurityRecords } = await import('@/lib/etl/sanitizers');
-      
-      const rawSecurities = await fetchSecuritiesDetail(5000);
-      const cleaned = cleanSecurityRecords(rawSecurities);
-      
-      if (cleaned.length > 0) {
-        // Batch insert
-        // Note: Drizzle might have limits on batch size, chunk if necessary
-        const chunks = chunkArray(cleaned, 500);
-        let insertedCount = 0;
-        
-        for (const chunk of chunks) {
-          await db.insert(treasurySecurities).values(
-            chunk.map(s => ({
-              recordDate: s.recordDate,
-              cusip: s.cusip,
-              securityType: s.securityType,
-              securityTypeDesc: s.securityTypeDesc,
-              securityClass: s.securityClass,
-              issueDate: s.issueDate,
-              maturityDate: s.maturityDate,
-              maturityYear: s.maturityYear,
-              outstandingAmount: s.outstandingAmount.toString(),
-              interestRate: s.interestRate?.toString(),
-            }))
-          ).onConflictDoNothing();
-          insertedCount += chunk.length;
-        }
-        
-        results.securities = {
-          success: true,
-          message: `Processed ${insertedCount} securities`,
-          count: insertedCount,
-        };
-      }
-    } catch (e) {
-      console.error('[Cron] Securities Error:', e);
-      results.securities = { success: false, message: `Error: ${e}`, count: 0 };
-    }
-    
-    // Step 3: Fetch auction data
-    console.log('[Cron] Step 3: Fetching auctions...');
-    try {
-      const { fetchAuctions } = await import('@/lib/etl/treasury-client');
-      const { cleanAuctionRecords } = await import('@/lib/etl/sanitizers');
-      
-      const rawAuctions = await fetchAuctions(1000); // Recent history
-      const cleaned = cleanAuctionRecords(rawAuctions);
-      
-      if (cleaned.length > 0) {
-        const chunks = chunkArray(cleaned, 500);
-        for (const chunk of chunks) {
-          await db.insert(treasuryAuctions).values(
-            chunk.map(a => ({
-              auctionDate: a.auctionDate,
-              issueDate: a.issueDate,
-              maturityDate: a.maturityDate,
-              securityType: a.securityType,
-              securityTypeRaw: a.securityTypeRaw,
-              securityTerm: a.securityTerm,
-              cusip: a.cusip,
-              bidToCoverRatio: a.bidToCoverRatio?.toString(),
-              highYield: a.highYield?.toString(),
-              highDiscountRate: a.highDiscountRate?.toString(),
-              offeringAmount: a.offeringAmount?.toString(),
-              acceptedAmount: a.acceptedAmount?.toString(),
-              totalTendersAccepted: a.totalTendersAccepted?.toString(),
-              directBidderAccepted: a.directBidderAccepted?.toString(),
-              indirectBidderAccepted: a.indirectBidderAccepted?.toString(),
-              primaryDealerAccepted: a.primaryDealerAccepted?.toString(),
-            }))
-          ).onConflictDoNothing();
-        }
-        
-        results.auctions = {
-          success: true,
-          message: `Processed ${cleaned.length} auctions`,
-          count: cleaned.length,
-        };
-      }
-    } catch (e) {
-      console.error('[Cron] Auctions Error:', e);
-      results.auctions = { success: false, message: `Error: ${e}`, count: 0 };
-    }
-
-    // Step 4: Economic Indicators
-    console.log('[Cron] Step 4: Fetching economic indicators...');
-    try {
-      const { 
-        fetchInterestExpense, 
-        fetchAvgInterestRates,
-        fetchYieldCurve,
-        fetchRealYieldCurve
-      } = await import('@/lib/etl/treasury-client');
-      const { cleanEconomicIndicators } = await import('@/lib/etl/sanitizers');
-      
-      const [expense, rates, yields, realYields] = await Promise.all([
-        fetchInterestExpense(),
-        fetchAvgInterestRates(),
-        fetchYieldCurve(),
-        fetchRealYieldCurve()
-      ]);
-      
-      const cleaned = cleanEconomicIndicators(expense, rates, yields, realYields);
-      
-      if (cleaned) {
-        const spread = (cleaned.yield10y !== null && cleaned.yield2y !== null)
-          ? (cleaned.yield10y - cleaned.yield2y)
-          : null;
-
-        await db.insert(economicIndicators).values({
-          recordDate: cleaned.recordDate,
-          interestExpense: cleaned.interestExpense?.toString(),
-          averageInterestRate: cleaned.averageInterestRate?.toString(),
-          yield10y: cleaned.yield10y?.toString(),
-          yield2y: cleaned.yield2y?.toString(),
-          realYield10y: cleaned.realYield10y?.toString(),
-          breakeven10y: cleaned.breakeven10y?.toString(),
-          yieldCurveSpread: spread?.toString(),
-          // debtToGdpRatio: ... (Placeholder)
-        }).onConflictDoNothing();
-        
-        results.indicators = {
-          success: true,
-          message: `Updated indicators for ${cleaned.recordDate}`,
-        };
-      }
-    } catch (e) {
-      console.error('[Cron] Indicators Error:', e);
-      results.indicators = { success: false, message: `Error: ${e}` };
-    }
-    
-    // Step 5: Pre-compute aggregates
-    console.log('[Cron] Step 5: Computing aggregates...');
-    try {
-      // Import aggregator (reserved for future use)
-      await import('@/lib/etl/aggregators');
-      // We need to fetch the latest securities from DB to aggregate
-      // For now, we'll rely on the fetched data in memory if available, or skip
-      // In a full implementation, query `treasurySecurities` here
-
-      // Mock success for now as we populated the DB
-      results.aggregates = {
-        success: true,
-        message: 'Aggregates computed and stored',
-      };
-    } catch (e) {
-      results.aggregates = { success: false, message: `Error: ${e}` };
-    }
-    
-    // Revalidate all pages
-    revalidatePath('/');
-    revalidatePath('/api/debt');
-    revalidatePath('/api/maturity-wall');
-    revalidatePath('/api/health');
-    
-    const duration = Date.now() - startTime;
-    
-    // Log success
-    await db.insert(etlJobLog).values({
-      jobName: 'daily_ingest',
-      status: 'completed',
-      recordsProcessed: results.securities.count + results.auctions.count,
-      completedAt: new Date(),
-    });
-    
-    return NextResponse.json({
-      success: true,
+  // Revalidate all pages
+  revalidatePath('/');
+  for (const job of ETL_JOB_NAMES) {
+    ETL_JOBS[job].revalidatePaths.forEach(path => revalidatePath(path));
+  }
+  
+  const duration = Date.now() - startTime;
+  const success = Object.values(results).every(r => r?.success);
+  
+  return NextResponse.json(
+    {
+      success,
       duration: `${duration}ms`,
       timestamp: new Date().toISOString(),
       results,
-    });
-    
-  } catch (error) {
-    console.error('[Cron] Fatal error:', error);
-    
-    // Log failure
-    await db.insert(etlJobLog).values({
-      jobName: 'daily_ingest',
-      status: 'failed',
-      errorMessage: String(error),
-      completedAt: new Date(),
-    });
-    
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Ingestion failed',
-        details: String(error),
-        results,
-      },
-      { status: 500 }
-    );
-  }
-}
-
-function chunkArray<T>(array: T[], size: number): T[][] {
-  const chunked: T[][] = [];
-  for (let i = 0; i < array.length; i += size) {
-    chunked.push(array.slice(i, i + size));
-  }
-  return chunked;
+    },
+    { status: success ? 200 : 500 }
+  );
 }
 
 // Also support POST for manual triggers
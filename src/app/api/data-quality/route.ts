@@ -0,0 +1,98 @@
+/**
+ * API Route: /api/data-quality
+ *
+ * Returns data quality rule violations found in cleaned records at ingest
+ * (e.g. bidder awards not summing to the accepted amount, impossible daily
+ * debt moves), with per-rule counts and the full rule catalogue.
+ *
+ * Query Parameters:
+ * - dataset: debt | securities | auctions | indicators | yield-curve (default: all)
+ * - severity: error | warning | info (default: all)
+ * - start: YYYY-MM-DD record date (default: 1 year ago)
+ * - end: YYYY-MM-DD record date (default: today)
+ * - limit: maximum violations listed (1-1000, default: 100)
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import {
+  describeQualityRules,
+  listQualityViolations,
+  summarizeQualityViolations,
+} from '@/lib/etl/data-quality';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import { sourceHeaders } from '@/lib/api/envelope';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiAccess('data-quality', 'read', async (request: Request) => {
+  const query = parseQuery('/api/data-quality', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const dataset = query.data.dataset ?? null;
+  const severity = query.data.severity ?? null;
+
+  const defaultStart = new Date();
+  defaultStart.setFullYear(defaultStart.getFullYear() - 1);
+  const start = query.data.start ?? defaultStart.toISOString().split('T')[0];
+  const end = query.data.end ?? new Date().toISOString().split('T')[0];
+  if (start > end) {
+    return NextResponse.json(
+      { error: 'start must be on or before end' },
+      { status: 400 }
+    );
+  }
+
+  const rules = describeQualityRules();
+  const db = getDb();
+  if (!db) {
+    // Without a database nothing is ingested, so nothing has been checked
+    return NextResponse.json({
+      rules,
+      summary: [],
+      violations: [],
+      meta: { dataset, severity, startDate: start, endDate: end, count: 0, source: 'none' },
+    }, { headers: sourceHeaders('fallback-default', 'DATABASE_UNAVAILABLE') });
+  }
+
+  try {
+    const [summary, violations] = await Promise.all([
+      summarizeQualityViolations(db, dataset, severity, start, end),
+      listQualityViolations(db, dataset, severity, start, end, query.data.limit),
+    ]);
+
+    return NextResponse.json({
+      rules,
+      summary,
+      violations: violations.map(v => ({
+        ruleId: v.ruleId,
+        dataset: v.dataset,
+        severity: v.severity,
+        recordKey: v.recordKey,
+        recordDate: v.recordDate,
+        message: v.message,
+        etlJobId: v.etlJobId,
+        detectedAt: v.detectedAt.toISOString(),
+      })),
+      meta: {
+        dataset,
+        severity,
+        startDate: start,
+        endDate: end,
+        count: violations.length,
+        source: 'database',
+      },
+    });
+  } catch (error) {
+    console.error('[API /data-quality] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load data quality report' },
+      { status: 500 }
+    );
+  }
+});
@@ -3,15 +3,22 @@
  *
  * Returns the latest total debt snapshot.
  * Fetches live from Treasury API if database is empty or unavailable.
+ *
+ * Query Parameters:
+ * - asOf: YYYY-MM-DD, serve the latest snapshot on or before this date
+ * - format: json | csv | jsonl | xlsx, download instead of the JSON response
  */
 
 import { NextResponse } from 'next/server';
 import { fetchDebtToPenny } from '@/lib/etl/treasury-client';
 import { cleanDebtRecord } from '@/lib/etl/sanitizers';
 import { getDb, dailyDebtSnapshots } from '@/lib/db';
-import { desc } from 'drizzle-orm';
+import { desc, lte } from 'drizzle-orm';
 import type { DebtSummary } from '@/lib/types/treasury';
-import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rate-limit';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import { sourceHeaders } from '@/lib/api/envelope';
+import { exportResponse, type ExportTable } from '@/lib/export';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 3600; // Revalidate every hour
@@ -24,22 +31,37 @@ function formatTrillions(amount: number): string {
   return `$${trillions.toFixed(2)}T`;
 }
 
-export async function GET(request: Request) {
-  // Rate limiting
-  const clientId = getClientIdentifier(request);
-  const rateLimitResult = checkRateLimit(`debt:${clientId}`, RATE_LIMITS.data);
+/**
+ * Debt snapshot as a single-row export table
+ */
+function debtTable(summary: DebtSummary, source: 'database' | 'api'): ExportTable {
+  return {
+    name: 'debt',
+    columns: [
+      { key: 'lastUpdated', header: 'Record Date' },
+      { key: 'totalDebt', header: 'Total Public Debt', units: 'USD' },
+      { key: 'debtHeldByPublic', header: 'Debt Held by the Public', units: 'USD' },
+      { key: 'intragovernmental', header: 'Intragovernmental Holdings', units: 'USD' },
+    ],
+    rows: [{ ...summary }],
+    metadata: {
+      source,
+      recordDate: summary.lastUpdated,
+      computedAt: new Date().toISOString(),
+    },
+  };
+}
 
-  if (!rateLimitResult.allowed) {
+export const GET = withApiAccess('debt', 'read', async (request: Request) => {
+  const query = parseQuery('/api/debt', new URL(request.url).searchParams);
+  if (!query.success) {
     return NextResponse.json(
-      { error: 'Rate limit exceeded' },
-      {
-        status: 429,
-        headers: {
-          'Retry-After': Math.ceil(rateLimitResult.resetIn / 1000).toString(),
-        },
-      }
+      { error: query.error },
+      { status: 400 }
     );
   }
+  const { asOf, format } = query.data;
+
   try {
     // 1. Try fetching from Database first (if available)
     const db = getDb();
@@ -47,6 +69,7 @@ export async function GET(request: Request) {
       try {
         const dbSnapshot = await db.select()
           .from(dailyDebtSnapshots)
+          .where(asOf ? lte(dailyDebtSnapshots.recordDate, asOf) : undefined)
           .orderBy(desc(dailyDebtSnapshots.recordDate))
           .limit(1);
 
@@ -59,7 +82,8 @@ export async function GET(request: Request) {
             intragovernmental: snap.intragovernmentalHoldings ? parseFloat(snap.intragovernmentalHoldings as string) : null,
             lastUpdated: snap.recordDate,
           };
-          return NextResponse.json(response);
+          if (format) return exportResponse(debtTable(response, 'database'), format, response);
+          return NextResponse.json(response, { headers: sourceHeaders('database') });
         }
       } catch (dbError) {
         console.warn('[API /debt] Database query failed, falling back to API:', dbError);
@@ -67,7 +91,7 @@ export async function GET(request: Request) {
     }
 
     // 2. Fallback to Live API
-    const rawDebt = await fetchDebtToPenny();
+    const rawDebt = await fetchDebtToPenny(asOf);
     
     if (!rawDebt) {
       return NextResponse.json(
@@ -92,10 +116,12 @@ export async function GET(request: Request) {
       intragovernmental: cleaned.intragovernmentalHoldings,
       lastUpdated: cleaned.recordDate,
     };
-    
+    if (format) return exportResponse(debtTable(response, 'api'), format, response);
+
     return NextResponse.json(response, {
       headers: {
         'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        ...sourceHeaders('api'),
       },
     });
   } catch (error) {
@@ -105,5 +131,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
-
+});
@@ -2,28 +2,62 @@
  * API Route: /api/health/history
  * 
  * Returns historical economic indicators (Yields, Inflation Breakevens).
- * Returns empty array if database is unavailable.
+ * Returns empty array if database is unavailable (X-Data-Source:
+ * fallback-default, with the reason in X-Data-Fallback). For other metrics,
+ * frequencies or date ranges use /api/series.
+ *
+ * Query Parameters:
+ * - timeframe: 1y | 3y | 5y | 10y (default: 1y)
+ * - asOf: YYYY-MM-DD, end the timeframe window on this date (default: today)
+ * - format: json | csv | jsonl | xlsx, download instead of the JSON response
  */
 
 import { NextResponse } from 'next/server';
 import { getDb, economicIndicators } from '@/lib/db';
-import { desc, gte } from 'drizzle-orm';
+import { and, desc, gte, lte } from 'drizzle-orm';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import { sourceHeaders } from '@/lib/api/envelope';
+import type { ExportFormat, HealthHistoryPoint } from '@/lib/api/schemas';
+import { exportResponse } from '@/lib/export';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 86400;
 
-export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const timeframe = searchParams.get('timeframe') || '1y';
-  
-  const now = new Date();
-  
-  switch (timeframe) {
-    case '1y': now.setFullYear(now.getFullYear() - 1); break;
-    case '3y': now.setFullYear(now.getFullYear() - 3); break;
-    case '5y': now.setFullYear(now.getFullYear() - 5); break;
-    default: now.setFullYear(now.getFullYear() - 1);
+/**
+ * Indicator history as a download, one row per record date
+ */
+function exportHistory(points: HealthHistoryPoint[], format: ExportFormat, timeframe: string) {
+  return exportResponse({
+    name: 'health-history',
+    columns: [
+      { key: 'date', header: 'Record Date' },
+      { key: 'yield10y', header: '10Y Nominal Yield', units: 'percent' },
+      { key: 'realYield10y', header: '10Y Real Yield', units: 'percent' },
+      { key: 'breakeven10y', header: '10Y Breakeven', units: 'percent' },
+    ],
+    rows: points.map(p => ({ ...p })),
+    metadata: {
+      source: 'database',
+      recordDate: points.length > 0 ? points[points.length - 1].date : null,
+      computedAt: new Date().toISOString(),
+      timeframe,
+    },
+  }, format, points);
+}
+
+export const GET = withApiAccess('health-history', 'read', async (request: Request) => {
+  const query = parseQuery('/api/health/history', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
   }
+  const { timeframe, asOf, format } = query.data;
+
+  const now = asOf ? new Date(`${asOf}T00:00:00Z`) : new Date();
+  now.setFullYear(now.getFullYear() - parseInt(timeframe, 10));
   const startDate = now.toISOString().split('T')[0];
 
   try {
@@ -31,7 +65,8 @@ export async function GET(request: Request) {
     
     if (!db) {
       // Return empty array if DB not available - charts will show "no data"
-      return NextResponse.json([]);
+      if (format) return exportHistory([], format, timeframe);
+      return NextResponse.json([], { headers: sourceHeaders('fallback-default', 'DATABASE_UNAVAILABLE') });
     }
 
     const data = await db.select({
@@ -41,21 +76,24 @@ export async function GET(request: Request) {
       breakeven10y: economicIndicators.breakeven10y,
     })
     .from(economicIndicators)
-    .where(gte(economicIndicators.recordDate, startDate))
+    .where(and(
+      gte(economicIndicators.recordDate, startDate),
+      asOf ? lte(economicIndicators.recordDate, asOf) : undefined
+    ))
     .orderBy(desc(economicIndicators.recordDate));
     
     // Format for charts (sort ascending)
-    const chartData = data.map(d => ({
+    const chartData: HealthHistoryPoint[] = data.map(d => ({
       date: d.date,
       yield10y: d.yield10y ? parseFloat(d.yield10y) : null,
       realYield10y: d.realYield10y ? parseFloat(d.realYield10y) : null,
       breakeven10y: d.breakeven10y ? parseFloat(d.breakeven10y) : null,
     })).reverse();
 
-    return NextResponse.json(chartData);
+    if (format) return exportHistory(chartData, format, timeframe);
+    return NextResponse.json(chartData, { headers: sourceHeaders('database') });
   } catch (error) {
     console.error('[API /health/history] Error:', error);
-    return NextResponse.json([]);
+    return NextResponse.json([], { headers: sourceHeaders('fallback-default', 'DATABASE_ERROR') });
   }
-}
-
+});
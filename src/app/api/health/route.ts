@@ -2,13 +2,20 @@
  * API Route: /api/health
  * 
  * Returns "Health Dashboard" metrics: Interest Expense, GDP ratios, Yield Curve.
- * Returns sensible defaults if database is unavailable.
+ * Returns sensible defaults if database is unavailable (X-Data-Source:
+ * fallback-default, with the reason in X-Data-Fallback).
+ *
+ * Query Parameters:
+ * - asOf: YYYY-MM-DD, serve the latest indicators on or before this date
  */
 
 import { NextResponse } from 'next/server';
 import { getDb, economicIndicators } from '@/lib/db';
-import { desc } from 'drizzle-orm';
+import { desc, lte } from 'drizzle-orm';
 import type { HealthMetrics } from '@/lib/types/treasury';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import { sourceHeaders } from '@/lib/api/envelope';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 3600;
@@ -24,41 +31,53 @@ const DEFAULT_METRICS: HealthMetrics = {
   lastUpdated: new Date().toISOString().split('T')[0],
 };
 
-export async function GET() {
+export const GET = withApiAccess('health', 'read', async (request: Request) => {
+  const query = parseQuery('/api/health', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { asOf } = query.data;
+
   try {
     const db = getDb();
     
-    if (db) {
-      try {
-        const indicators = await db.select()
-          .from(economicIndicators)
-          .orderBy(desc(economicIndicators.recordDate))
-          .limit(1);
-          
-        const latest = indicators[0];
+    if (!db) {
+      return NextResponse.json(DEFAULT_METRICS, { headers: sourceHeaders('fallback-default', 'DATABASE_UNAVAILABLE') });
+    }
+
+    try {
+      const indicators = await db.select()
+        .from(economicIndicators)
+        .where(asOf ? lte(economicIndicators.recordDate, asOf) : undefined)
+        .orderBy(desc(economicIndicators.recordDate))
+        .limit(1);
         
-        if (latest) {
-          const metrics: HealthMetrics = {
-            debtToGdp: latest.debtToGdpRatio ? parseFloat(latest.debtToGdpRatio) : DEFAULT_METRICS.debtToGdp,
-            interestExpense: latest.interestExpense ? parseFloat(latest.interestExpense) : DEFAULT_METRICS.interestExpense,
-            averageInterestRate: latest.averageInterestRate ? parseFloat(latest.averageInterestRate) : DEFAULT_METRICS.averageInterestRate,
-            yieldCurveSpread: latest.yieldCurveSpread ? parseFloat(latest.yieldCurveSpread) : DEFAULT_METRICS.yieldCurveSpread,
-            realYield10y: latest.realYield10y ? parseFloat(latest.realYield10y) : DEFAULT_METRICS.realYield10y,
-            breakeven10y: latest.breakeven10y ? parseFloat(latest.breakeven10y) : DEFAULT_METRICS.breakeven10y,
-            lastUpdated: latest.recordDate,
-          };
-          return NextResponse.json(metrics);
-        }
-      } catch (dbError) {
-        console.warn('[API /health] Database query failed:', dbError);
+      const latest = indicators[0];
+      
+      if (latest) {
+        const metrics: HealthMetrics = {
+          debtToGdp: latest.debtToGdpRatio ? parseFloat(latest.debtToGdpRatio) : DEFAULT_METRICS.debtToGdp,
+          interestExpense: latest.interestExpense ? parseFloat(latest.interestExpense) : DEFAULT_METRICS.interestExpense,
+          averageInterestRate: latest.averageInterestRate ? parseFloat(latest.averageInterestRate) : DEFAULT_METRICS.averageInterestRate,
+          yieldCurveSpread: latest.yieldCurveSpread ? parseFloat(latest.yieldCurveSpread) : DEFAULT_METRICS.yieldCurveSpread,
+          realYield10y: latest.realYield10y ? parseFloat(latest.realYield10y) : DEFAULT_METRICS.realYield10y,
+          breakeven10y: latest.breakeven10y ? parseFloat(latest.breakeven10y) : DEFAULT_METRICS.breakeven10y,
+          lastUpdated: latest.recordDate,
+        };
+        return NextResponse.json(metrics, { headers: sourceHeaders('database') });
       }
+    } catch (dbError) {
+      console.warn('[API /health] Database query failed:', dbError);
+      return NextResponse.json(DEFAULT_METRICS, { headers: sourceHeaders('fallback-default', 'DATABASE_ERROR') });
     }
-    
-    // Return defaults if DB unavailable or empty
-    return NextResponse.json(DEFAULT_METRICS);
+  
+    // Return defaults if no indicators are stored
+    return NextResponse.json(DEFAULT_METRICS, { headers: sourceHeaders('fallback-default', 'NO_DATA') });
   } catch (error) {
     console.error('[API /health] Error:', error);
-    return NextResponse.json(DEFAULT_METRICS);
+    return NextResponse.json(DEFAULT_METRICS, { headers: sourceHeaders('fallback-default', 'INTERNAL_ERROR') });
   }
-}
-
+});
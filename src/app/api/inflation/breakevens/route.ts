@@ -0,0 +1,87 @@
+/**
+ * API Route: /api/inflation/breakevens
+ *
+ * Returns the breakeven inflation term structure per day: nominal minus
+ * real yield at 5Y, 7Y, 10Y, 20Y and 30Y, and the 5y5y forward breakeven.
+ * Serves stored breakeven_rates, computes from stored yield curves when
+ * none are stored yet, and falls back to the Live API.
+ *
+ * Query Parameters:
+ * - timeframe: 1y | 3y | 5y | 10y (default: 1y)
+ * - asOf: YYYY-MM-DD, end the timeframe window on this date (default: today)
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { loadBreakevens } from '@/lib/etl/breakevens';
+import { fetchLiveYieldCurves, loadYieldCurves } from '@/lib/etl/yield-curves';
+import { computeBreakevens } from '@/lib/analytics/breakevens';
+import type { BreakevenTermStructure } from '@/lib/types/treasury';
+import { parseQuery } from '@/lib/api/contracts';
+import type { BreakevensResponse } from '@/lib/api/schemas';
+import { withApiAccess } from '@/lib/api-keys';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 86400; // Revalidate daily
+
+export const GET = withApiAccess('breakevens', 'read', async (request: Request) => {
+  const query = parseQuery('/api/inflation/breakevens', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { timeframe, asOf } = query.data;
+
+  const endDate = asOf ?? new Date().toISOString().split('T')[0];
+  const start = new Date(`${endDate}T00:00:00Z`);
+  start.setFullYear(start.getFullYear() - parseInt(timeframe, 10));
+  const startDate = start.toISOString().split('T')[0];
+
+  const respond = (data: BreakevenTermStructure[], source: 'database' | 'api', precomputed: boolean) => {
+    const response: BreakevensResponse = {
+      data,
+      meta: { startDate, endDate, timeframe, count: data.length, source, precomputed },
+    };
+    return NextResponse.json(response);
+  };
+
+  try {
+    // 1. Try Database First (if available)
+    const db = getDb();
+    if (db) {
+      try {
+        // 1a. Stored term structures
+        const stored = await loadBreakevens(db, startDate, endDate);
+        if (stored.length > 0) return respond(stored, 'database', true);
+
+        // 1b. None stored yet: compute from stored curves
+        const curves = await loadYieldCurves(db, startDate, endDate);
+        const computed = curves.filter(c => c.real.length > 0).map(computeBreakevens);
+        if (computed.length > 0) return respond(computed, 'database', false);
+      } catch (dbError) {
+        console.warn('[API /inflation/breakevens] Database query failed, falling back to API:', dbError);
+      }
+    }
+
+    // 2. Fallback to Live API
+    const curves = await fetchLiveYieldCurves(startDate, endDate);
+    const computed = curves.filter(c => c.real.length > 0).map(computeBreakevens);
+
+    if (computed.length === 0) {
+      return NextResponse.json(
+        { error: 'No breakeven data available' },
+        { status: 404 }
+      );
+    }
+
+    return respond(computed, 'api', false);
+  } catch (error) {
+    console.error('[API /inflation/breakevens] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute breakevens' },
+      { status: 500 }
+    );
+  }
+});
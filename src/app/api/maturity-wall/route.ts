@@ -2,102 +2,118 @@
  * API Route: /api/maturity-wall
  *
  * Returns pre-aggregated maturity wall data.
- * Prioritizes Database (cached) data, falls back to Live API.
+ * Serves stored maturity_wall_aggregates, aggregates stored securities
+ * on the fly when no aggregate exists, and falls back to the Live API.
+ *
+ * Query Parameters:
+ * - years: number of maturity years to include (1-30, default: 10)
+ * - asOf: YYYY-MM-DD, serve the latest snapshot on or before this date
+ * - recordDate: alias of asOf, kept for existing callers
+ * - format: json | csv | jsonl | xlsx, download instead of the JSON response
  */
 
 import { NextResponse } from 'next/server';
-import { fetchSecuritiesDetail } from '@/lib/etl/treasury-client';
+import { fetchLatestSecuritiesRecordDate, fetchSecuritiesDetail } from '@/lib/etl/treasury-client';
 import { cleanSecurityRecords } from '@/lib/etl/sanitizers';
 import { aggregateMaturityWall } from '@/lib/etl/aggregators';
-import { getDb, treasurySecurities } from '@/lib/db';
-import { desc, eq } from 'drizzle-orm';
-import type { MaturityWallData } from '@/lib/types/treasury';
-import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rate-limit';
-import { validateYears } from '@/lib/validation';
+import {
+  countSecuritiesSnapshot,
+  findAggregateDate,
+  findSecuritiesRecordDate,
+  loadMaturityWallAggregates,
+  loadSecuritiesSnapshot,
+} from '@/lib/etl/maturity-wall';
+import { getDb } from '@/lib/db';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import type { MaturityWallResponse } from '@/lib/api/schemas';
+import { exportResponse, type ExportTable } from '@/lib/export';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 86400; // Revalidate daily
 
-interface MaturityWallResponse {
-  data: MaturityWallData[];
-  meta: {
-    computedAt: string;
-    recordDate: string;
-    yearsIncluded: number;
-    totalSecuritiesProcessed: number;
-    source: 'database' | 'api';
-  };
+/**
+ * Maturity years to include for a snapshot: the year after the
+ * snapshot's record date through `years` years later
+ */
+function yearRange(recordDate: string, years: number) {
+  const startYear = parseInt(recordDate.substring(0, 4), 10) + 1;
+  return { startYear, endYear: startYear + years };
 }
 
-export async function GET(request: Request) {
-  // Rate limiting
-  const clientId = getClientIdentifier(request);
-  const rateLimitResult = checkRateLimit(`maturity-wall:${clientId}`, RATE_LIMITS.data);
-
-  if (!rateLimitResult.allowed) {
-    return NextResponse.json(
-      { error: 'Rate limit exceeded' },
-      {
-        status: 429,
-        headers: {
-          'Retry-After': Math.ceil(rateLimitResult.resetIn / 1000).toString(),
-        },
-      }
-    );
-  }
-
-  const { searchParams } = new URL(request.url);
+/**
+ * Maturity wall as an export table, one row per maturity year
+ */
+function maturityWallTable(response: MaturityWallResponse): ExportTable {
+  return {
+    name: 'maturity-wall',
+    columns: [
+      { key: 'year', header: 'Maturity Year' },
+      { key: 'bills', header: 'Bills', units: 'USD' },
+      { key: 'notes', header: 'Notes', units: 'USD' },
+      { key: 'bonds', header: 'Bonds', units: 'USD' },
+      { key: 'tips', header: 'TIPS', units: 'USD' },
+      { key: 'frn', header: 'FRN', units: 'USD' },
+      { key: 'total', header: 'Total', units: 'USD' },
+    ],
+    rows: response.data.map(d => ({ ...d })),
+    metadata: {
+      source: response.meta.source,
+      recordDate: response.meta.recordDate,
+      computedAt: response.meta.computedAt,
+      totalSecuritiesProcessed: response.meta.totalSecuritiesProcessed,
+    },
+  };
+}
 
-  // Validate years parameter
-  const yearsValidation = validateYears(searchParams.get('years'));
-  if (!yearsValidation.isValid) {
+export const GET = withApiAccess('maturity-wall', 'read', async (request: Request) => {
+  const query = parseQuery('/api/maturity-wall', new URL(request.url).searchParams);
+  if (!query.success) {
     return NextResponse.json(
-      { error: yearsValidation.error },
+      { error: query.error },
       { status: 400 }
     );
   }
-  const years = yearsValidation.value;
-  
+  const { years, asOf, recordDate, format } = query.data;
+  const requestedDate = asOf ?? recordDate;
+
   try {
     // 1. Try Database First (if available)
     const db = getDb();
     if (db) {
       try {
-        // Get the latest record date available in DB
-        const latestRecord = await db.select({ date: treasurySecurities.recordDate })
-          .from(treasurySecurities)
-          .orderBy(desc(treasurySecurities.recordDate))
-          .limit(1);
+        // 1a. Pre-computed aggregates for the latest snapshot on or before asOf
+        const aggregateDate = await findAggregateDate(db, requestedDate);
+        
+        if (aggregateDate) {
+          const { startYear, endYear } = yearRange(aggregateDate, years);
+          const maturityWall = await loadMaturityWallAggregates(db, aggregateDate, startYear, endYear);
+          const totalSecurities = await countSecuritiesSnapshot(db, aggregateDate);
 
-        if (latestRecord.length > 0) {
-          const latestDate = latestRecord[0].date;
-          
-          // Fetch all securities for that date
-          const dbSecurities = await db.select()
-            .from(treasurySecurities)
-            .where(eq(treasurySecurities.recordDate, latestDate));
-            
-          if (dbSecurities.length > 0) {
-            // Map DB result to clean format required by aggregator
-            const cleanedSecurities = dbSecurities.map(s => ({
-              recordDate: s.recordDate,
-              cusip: s.cusip,
-              securityType: s.securityType,
-              securityTypeDesc: s.securityTypeDesc || '',
-              securityClass: s.securityClass,
-              issueDate: s.issueDate,
-              maturityDate: s.maturityDate,
-              maturityYear: s.maturityYear,
-              outstandingAmount: parseFloat(s.outstandingAmount),
-              interestRate: s.interestRate ? parseFloat(s.interestRate) : null,
-            }));
+          const response: MaturityWallResponse = {
+            data: maturityWall,
+            meta: {
+              computedAt: new Date().toISOString(),
+              recordDate: aggregateDate,
+              yearsIncluded: years,
+              totalSecuritiesProcessed: totalSecurities,
+              source: 'database',
+              precomputed: true,
+            },
+          };
+          if (format) return exportResponse(maturityWallTable(response), format, response);
+          return NextResponse.json(response);
+        }
 
-            const currentYear = new Date().getFullYear();
-            const maturityWall = aggregateMaturityWall(
-              cleanedSecurities,
-              currentYear + 1,
-              currentYear + 1 + years
-            );
+        // 1b. No aggregate yet: aggregate raw securities on the fly
+        const latestDate = await findSecuritiesRecordDate(db, requestedDate);
+
+        if (latestDate) {
+          const cleanedSecurities = await loadSecuritiesSnapshot(db, latestDate);
+            
+          if (cleanedSecurities.length > 0) {
+            const { startYear, endYear } = yearRange(latestDate, years);
+            const maturityWall = aggregateMaturityWall(cleanedSecurities, startYear, endYear);
 
             const response: MaturityWallResponse = {
               data: maturityWall,
@@ -107,8 +123,10 @@ export async function GET(request: Request) {
                 yearsIncluded: years,
                 totalSecuritiesProcessed: cleanedSecurities.length,
                 source: 'database',
+                precomputed: false,
               },
             };
+            if (format) return exportResponse(maturityWallTable(response), format, response);
             return NextResponse.json(response);
           }
         }
@@ -119,7 +137,9 @@ export async function GET(request: Request) {
 
     // 2. Fallback to Live API
     console.log('Database empty or stale, fetching live securities...');
-    const rawSecurities = await fetchSecuritiesDetail(5000);
+    // Resolve the MSPD report on or before asOf (latest when omitted)
+    const liveDate = await fetchLatestSecuritiesRecordDate(requestedDate);
+    const rawSecurities = liveDate ? await fetchSecuritiesDetail(liveDate) : [];
     
     if (!rawSecurities.length) {
       return NextResponse.json(
@@ -132,12 +152,8 @@ export async function GET(request: Request) {
     const latestReportRecords = rawSecurities.filter(r => r.record_date === latestDate);
     const cleanedSecurities = cleanSecurityRecords(latestReportRecords);
     
-    const currentYear = new Date().getFullYear();
-    const maturityWall = aggregateMaturityWall(
-      cleanedSecurities,
-      currentYear + 1,
-      currentYear + 1 + years
-    );
+    const { startYear, endYear } = yearRange(latestDate, years);
+    const maturityWall = aggregateMaturityWall(cleanedSecurities, startYear, endYear);
     
     const response: MaturityWallResponse = {
       data: maturityWall,
@@ -147,9 +163,11 @@ export async function GET(request: Request) {
         yearsIncluded: years,
         totalSecuritiesProcessed: cleanedSecurities.length,
         source: 'api',
+        precomputed: false,
       },
     };
-    
+    if (format) return exportResponse(maturityWallTable(response), format, response);
+
     return NextResponse.json(response, {
       headers: {
         'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
@@ -162,4 +180,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
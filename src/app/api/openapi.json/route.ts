@@ -0,0 +1,20 @@
+/**
+ * API Route: /api/openapi.json
+ *
+ * Serves the OpenAPI 3.1 document generated from the route contracts
+ * (src/lib/api/contracts.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+import { withApiAccess } from '@/lib/api-keys';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiAccess('openapi', 'read', async () => {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: {
+      'Cache-Control': 'public, s-maxage=3600',
+    },
+  });
+});
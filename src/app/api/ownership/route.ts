@@ -3,6 +3,10 @@
  *
  * Returns ownership/composition data for the Sankey diagram.
  * Uses static estimates from constants, scaled by live total debt.
+ *
+ * Query Parameters:
+ * - asOf: YYYY-MM-DD, scale by the total debt on or before this date
+ * - format: json | csv | jsonl | xlsx, download instead of the JSON response
  */
 
 import { NextResponse } from 'next/server';
@@ -18,49 +22,44 @@ import {
   FED_HOLDINGS,
   FOREIGN_HOLDERS,
 } from '@/lib/constants/ownership';
-import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rate-limit';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import { sourceHeaders } from '@/lib/api/envelope';
+import type { OwnershipResponse } from '@/lib/api/schemas';
+import { exportResponse, type ExportTable } from '@/lib/export';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 3600;
 
-interface OwnershipResponse {
-  sankey: {
-    nodes: string[];
-    nodeColors: string[];
-    nodeValues: number[];
-    links: { source: number; target: number; value: number }[];
-  };
-  historical: typeof HISTORICAL_COMPOSITION;
-  supplementary: {
-    stablecoins: typeof STABLECOIN_DATA;
-    fedHoldings: typeof FED_HOLDINGS;
-    foreignHolders: typeof FOREIGN_HOLDERS;
-  };
-  meta: {
-    totalDebt: number;
-    totalDebtFormatted: string;
-    ownershipDataDate: string;
-    liveDebtDate: string | null;
-    isScaled: boolean;
+/**
+ * Ownership nodes as an export table, one row per holder category
+ */
+function ownershipTable(response: OwnershipResponse): ExportTable {
+  return {
+    name: 'ownership',
+    columns: [
+      { key: 'holder', header: 'Holder' },
+      { key: 'value', header: 'Holdings', units: 'USD trillions' },
+    ],
+    rows: response.sankey.nodes.map((holder, i) => ({ holder, value: response.sankey.nodeValues[i] })),
+    metadata: {
+      source: response.meta.isScaled ? 'api' : 'static',
+      recordDate: response.meta.liveDebtDate ?? response.meta.ownershipDataDate,
+      computedAt: new Date().toISOString(),
+      ownershipDataDate: response.meta.ownershipDataDate,
+    },
   };
 }
 
-export async function GET(request: Request) {
-  // Rate limiting
-  const clientId = getClientIdentifier(request);
-  const rateLimitResult = checkRateLimit(`ownership:${clientId}`, RATE_LIMITS.data);
-
-  if (!rateLimitResult.allowed) {
+export const GET = withApiAccess('ownership', 'read', async (request: Request) => {
+  const query = parseQuery('/api/ownership', new URL(request.url).searchParams);
+  if (!query.success) {
     return NextResponse.json(
-      { error: 'Rate limit exceeded' },
-      {
-        status: 429,
-        headers: {
-          'Retry-After': Math.ceil(rateLimitResult.resetIn / 1000).toString(),
-        },
-      }
+      { error: query.error },
+      { status: 400 }
     );
   }
+  const { asOf, format } = query.data;
 
   try {
     // Try to fetch live debt to scale ownership data
@@ -68,7 +67,7 @@ export async function GET(request: Request) {
     let liveDate: string | null = null;
 
     try {
-      const rawDebt = await fetchDebtToPenny();
+      const rawDebt = await fetchDebtToPenny(asOf);
       if (rawDebt) {
         const cleaned = cleanDebtRecord(rawDebt);
         if (cleaned) {
@@ -106,10 +105,13 @@ export async function GET(request: Request) {
         isScaled,
       },
     };
-    
+    if (format) return exportResponse(ownershipTable(response), format, response);
+
     return NextResponse.json(response, {
       headers: {
         'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        // Unscaled estimates are the static base values
+        ...(isScaled ? sourceHeaders('api') : sourceHeaders('fallback-default', 'UPSTREAM_ERROR')),
       },
     });
   } catch (error) {
@@ -119,5 +121,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
-
+});
@@ -0,0 +1,86 @@
+/**
+ * API Route: /api/revisions
+ *
+ * Returns the audit trail of Treasury figures that changed after they
+ * were first ingested (restated auction results, corrected MSPD rows).
+ * Each entry names the record, the field, old and new values and the
+ * ingest job that detected the change.
+ *
+ * Query Parameters:
+ * - dataset: debt | securities | auctions | indicators | yield-curve (required)
+ * - start: YYYY-MM-DD record date (default: 90 days ago)
+ * - end: YYYY-MM-DD record date (default: today)
+ * - field: only revisions of this column, e.g. bid_to_cover_ratio
+ * - limit: maximum rows (1-5000, default: 500)
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { listRevisions, REVISION_DATASETS } from '@/lib/etl/revisions';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import { sourceHeaders } from '@/lib/api/envelope';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiAccess('revisions', 'read', async (request: Request) => {
+  const query = parseQuery('/api/revisions', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { dataset, limit } = query.data;
+  const field = query.data.field ?? null;
+
+  const defaultStart = new Date();
+  defaultStart.setDate(defaultStart.getDate() - 90);
+  const start = query.data.start ?? defaultStart.toISOString().split('T')[0];
+  const end = query.data.end ?? new Date().toISOString().split('T')[0];
+  if (start > end) {
+    return NextResponse.json(
+      { error: 'start must be on or before end' },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured. Revision history requires POSTGRES_URL.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const revisions = await listRevisions(db, dataset, start, end, field, limit);
+
+    return NextResponse.json({
+      data: revisions.map(r => ({
+        recordDate: r.recordDate,
+        naturalKey: r.naturalKey,
+        field: r.field,
+        oldValue: r.oldValue,
+        newValue: r.newValue,
+        etlJobId: r.etlJobId,
+        detectedAt: r.detectedAt.toISOString(),
+      })),
+      meta: {
+        dataset,
+        table: REVISION_DATASETS[dataset],
+        startDate: start,
+        endDate: end,
+        field,
+        count: revisions.length,
+        limit,
+      },
+    }, { headers: sourceHeaders('database') });
+  } catch (error) {
+    console.error('[API /revisions] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load revisions' },
+      { status: 500 }
+    );
+  }
+});
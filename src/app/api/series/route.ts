@@ -0,0 +1,114 @@
+/**
+ * API Route: /api/series
+ *
+ * Generic time-series query over every stored metric. Returns the
+ * requested series resampled to one frequency and aligned on a shared
+ * date axis, with units and source table per series.
+ *
+ * Query Parameters:
+ * - metrics: comma-separated metric ids (required, up to 10), e.g.
+ *   debt.total,yield.10y,auction.btc.10-Year (see src/lib/etl/series.ts)
+ * - start: YYYY-MM-DD (default: 1 year ago)
+ * - end: YYYY-MM-DD (default: today)
+ * - frequency: daily | weekly | monthly | quarterly (default: daily)
+ * - aggregation: last | mean | sum (default: last)
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { describeSeriesIds, resolveSeries, type SeriesDefinition } from '@/lib/etl/series';
+import { alignSeries, resample } from '@/lib/analytics/resample';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import type { SeriesResponse } from '@/lib/api/schemas';
+
+export const dynamic = 'force-dynamic';
+
+// Metrics per request
+const MAX_METRICS = 10;
+
+export const GET = withApiAccess('series', 'read', async (request: Request) => {
+  const query = parseQuery('/api/series', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { metrics, frequency, aggregation } = query.data;
+
+  const ids = [...new Set(metrics.split(',').map(m => m.trim()).filter(Boolean))];
+  if (ids.length === 0 || ids.length > MAX_METRICS) {
+    return NextResponse.json(
+      { error: `metrics is required: 1-${MAX_METRICS} comma-separated ids from ${describeSeriesIds().join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const definitions: SeriesDefinition[] = [];
+  for (const id of ids) {
+    const definition = resolveSeries(id);
+    if (!definition) {
+      return NextResponse.json(
+        { error: `Unknown metric: ${id}. Must be one of: ${describeSeriesIds().join(', ')}` },
+        { status: 400 }
+      );
+    }
+    definitions.push(definition);
+  }
+
+  const defaultStart = new Date();
+  defaultStart.setFullYear(defaultStart.getFullYear() - 1);
+  const start = query.data.start ?? defaultStart.toISOString().split('T')[0];
+  const end = query.data.end ?? new Date().toISOString().split('T')[0];
+  if (start > end) {
+    return NextResponse.json(
+      { error: 'start must be on or before end' },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured. Stored series require POSTGRES_URL.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const raw = await Promise.all(definitions.map(d => d.load(db, start, end)));
+    const resampled = raw.map(points => resample(points, frequency, aggregation));
+    const aligned = alignSeries(resampled);
+
+    const response: SeriesResponse = {
+      data: {
+        dates: aligned.dates,
+        series: definitions.map((d, i) => ({
+          id: d.id,
+          label: d.label,
+          units: d.units,
+          source: d.source,
+          observations: raw[i].length,
+          values: aligned.values[i],
+        })),
+      },
+      meta: {
+        startDate: start,
+        endDate: end,
+        frequency,
+        aggregation,
+        periodLabel: 'start',
+        count: aligned.dates.length,
+        source: 'database',
+      },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[API /series] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load series' },
+      { status: 500 }
+    );
+  }
+});
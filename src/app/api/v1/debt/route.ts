@@ -0,0 +1,13 @@
+/**
+ * API Route: /api/v1/debt
+ *
+ * /api/debt in the v1 { data, meta, errors } envelope, with the same
+ * query parameters. format= downloads are served unchanged.
+ */
+
+import { GET as getDebt } from '@/app/api/debt/route';
+import { v1Route } from '@/lib/api/v1';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = v1Route(getDebt);
@@ -0,0 +1,13 @@
+/**
+ * API Route: /api/v1/inflation/breakevens
+ *
+ * /api/inflation/breakevens in the v1 { data, meta, errors } envelope, with the same
+ * query parameters.
+ */
+
+import { GET as getBreakevens } from '@/app/api/inflation/breakevens/route';
+import { v1Route } from '@/lib/api/v1';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = v1Route(getBreakevens);
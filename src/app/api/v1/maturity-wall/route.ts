@@ -0,0 +1,13 @@
+/**
+ * API Route: /api/v1/maturity-wall
+ *
+ * /api/maturity-wall in the v1 { data, meta, errors } envelope, with the same
+ * query parameters. format= downloads are served unchanged.
+ */
+
+import { GET as getMaturityWall } from '@/app/api/maturity-wall/route';
+import { v1Route } from '@/lib/api/v1';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = v1Route(getMaturityWall);
@@ -0,0 +1,123 @@
+/**
+ * API Route: /api/v1/projections/interest
+ *
+ * Projects annual interest expense and the weighted average interest rate
+ * 1-10 years forward from the CUSIP-level MSPD snapshot, reissuing maturing
+ * debt at market rates from the latest yield curve or a given rate path
+ * (see src/lib/analytics/interest-projection.ts). The assumptions used are
+ * echoed back with the projection. Served only under /api/v1, in the
+ * { data, meta, errors } envelope.
+ *
+ * Query Parameters:
+ * - years: years to project (1-10, default: 5)
+ * - asOf: YYYY-MM-DD, project from the latest snapshot and curve on or before this date
+ * - ratePath: comma-separated rates in percent per projection year (default: the yield curve)
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { resolveSecuritiesSnapshot } from '@/lib/etl/maturity-wall';
+import { resolveYieldCurve } from '@/lib/etl/yield-curves';
+import { fitYieldCurve } from '@/lib/analytics/yield-curve';
+import {
+  curveRates,
+  pathRates,
+  projectInterestExpense,
+  type RateFunction,
+} from '@/lib/analytics/interest-projection';
+import { withApiAccess } from '@/lib/api-keys';
+import { v1Route } from '@/lib/api/v1';
+import { parseQuery } from '@/lib/api/contracts';
+import type { InterestProjectionResponse } from '@/lib/api/schemas';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 86400; // Revalidate daily
+
+// Rate path limits (percent)
+const MIN_PATH_RATE = -5;
+const MAX_PATH_RATE = 25;
+
+export const GET = v1Route(withApiAccess('projections-interest', 'read', async (request: Request) => {
+  const query = parseQuery('/api/v1/projections/interest', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { years, asOf, ratePath: ratePathParam } = query.data;
+
+  const ratePath = ratePathParam?.split(',').map(r => Number(r.trim())) ?? null;
+  if (ratePath && (ratePath.length > years ||
+    ratePath.some(r => !Number.isFinite(r) || r < MIN_PATH_RATE || r > MAX_PATH_RATE))) {
+    return NextResponse.json(
+      { error: `Invalid ratePath. Use up to ${years} comma-separated rates in percent between ${MIN_PATH_RATE} and ${MAX_PATH_RATE}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const db = getDb();
+    const snapshot = await resolveSecuritiesSnapshot(db, asOf);
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'No securities data available' },
+        { status: 404 }
+      );
+    }
+
+    let rateAt: RateFunction;
+    let curve: Awaited<ReturnType<typeof resolveYieldCurve>> = null;
+
+    if (ratePath) {
+      rateAt = pathRates(ratePath);
+    } else {
+      curve = await resolveYieldCurve(db, asOf, 'nominal');
+      if (!curve || curve.curve.nominal.length < 3) {
+        return NextResponse.json(
+          { error: 'No yield curve data available' },
+          { status: 404 }
+        );
+      }
+      rateAt = curveRates(fitYieldCurve(curve.curve.nominal, 'cubic'));
+    }
+
+    const { current, projection } = projectInterestExpense(
+      snapshot.recordDate,
+      snapshot.securities,
+      rateAt,
+      years
+    );
+
+    const response: InterestProjectionResponse = {
+      data: {
+        assumptions: {
+          recordDate: snapshot.recordDate,
+          years,
+          rateSource: ratePath ? 'rate-path' : 'yield-curve',
+          curveDate: curve?.curve.date ?? null,
+          curve: curve?.curve.nominal ?? null,
+          ratePath: ratePath
+            ? Array.from({ length: years }, (_, i) => ratePath[Math.min(i, ratePath.length - 1)])
+            : null,
+          reissueTerm: 'original',
+          newBorrowing: 0,
+        },
+        current,
+        projection,
+      },
+      meta: {
+        computedAt: new Date().toISOString(),
+        source: snapshot.source === 'api' || curve?.source === 'api' ? 'api' : 'database',
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[API /v1/projections/interest] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to project interest expense' },
+      { status: 500 }
+    );
+  }
+}));
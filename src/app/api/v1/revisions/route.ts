@@ -0,0 +1,13 @@
+/**
+ * API Route: /api/v1/revisions
+ *
+ * /api/revisions in the v1 { data, meta, errors } envelope, with the same
+ * query parameters.
+ */
+
+import { GET as getRevisions } from '@/app/api/revisions/route';
+import { v1Route } from '@/lib/api/v1';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = v1Route(getRevisions);
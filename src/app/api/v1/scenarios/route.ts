@@ -0,0 +1,197 @@
+/**
+ * API Route: /api/v1/scenarios
+ *
+ * Refinancing scenarios saved by name (see /api/v1/scenarios/run to run one
+ * against the latest data). Served only under /api/v1, in the
+ * { data, meta, errors } envelope.
+ *
+ * GET: every saved scenario, most recently updated first
+ *
+ * POST: save { name, description, parameters }. Saves only add new names:
+ * an existing name is 409 unless the caller is admin (cron secret or an
+ * admin-scoped key), who replaces it.
+ *
+ * DELETE: remove a scenario. Protected by the same bearer secret as the
+ * ingest cron, or an admin-scoped API key.
+ * - name: scenario name (required)
+ */
+
+import { NextResponse } from 'next/server';
+import { desc, eq, sql } from 'drizzle-orm';
+import { getDb, refinancingScenarios, type RefinancingScenario } from '@/lib/db';
+import { withApiAccess } from '@/lib/api-keys';
+import { v1Route } from '@/lib/api/v1';
+import { verifyAdminRequest, verifyCronSecret } from '@/lib/cron-auth';
+import { parseQuery } from '@/lib/api/contracts';
+import {
+  ScenarioParametersSchema,
+  ScenarioSaveSchema,
+  type ScenariosResponse,
+} from '@/lib/api/schemas';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * A scenario as returned by this route
+ */
+function publicScenario(scenario: RefinancingScenario): ScenariosResponse['data'][number] {
+  return {
+    name: scenario.name,
+    description: scenario.description,
+    parameters: ScenarioParametersSchema.parse(scenario.parameters),
+    createdAt: scenario.createdAt.toISOString(),
+    updatedAt: scenario.updatedAt.toISOString(),
+  };
+}
+
+export const GET = v1Route(withApiAccess('scenarios', 'read', async (request: Request) => {
+  const query = parseQuery('/api/v1/scenarios', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const scenarios = await db.select()
+      .from(refinancingScenarios)
+      .orderBy(desc(refinancingScenarios.updatedAt));
+
+    const response: ScenariosResponse = {
+      data: scenarios.map(publicScenario),
+      meta: {
+        count: scenarios.length,
+        source: 'database',
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[API /v1/scenarios] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load scenarios' },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = v1Route(withApiAccess('scenarios-save', 'read', async (request: Request, access) => {
+  const isAdmin = verifyCronSecret(request) || (access.apiKey?.scopes.includes('admin') ?? false);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = ScenarioSaveSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { name, description, parameters } = parsed.data;
+    const insert = db.insert(refinancingScenarios).values({ name, description, parameters });
+
+    // Only admins may replace a saved scenario
+    const [saved] = isAdmin
+      ? await insert
+        .onConflictDoUpdate({
+          target: refinancingScenarios.name,
+          set: { description, parameters, updatedAt: sql`now()` },
+        })
+        .returning()
+      : await insert
+        .onConflictDoNothing({ target: refinancingScenarios.name })
+        .returning();
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'A scenario with that name already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { data: publicScenario(saved), meta: { source: 'database' } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[API /v1/scenarios] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save scenario' },
+      { status: 500 }
+    );
+  }
+}));
+
+export const DELETE = v1Route(async (request: Request) => {
+  // Verify authorization
+  if (!await verifyAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const name = new URL(request.url).searchParams.get('name')?.trim();
+  if (!name) {
+    return NextResponse.json(
+      { error: 'name is required' },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const [deleted] = await db.delete(refinancingScenarios)
+      .where(eq(refinancingScenarios.name, name))
+      .returning();
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'No scenario with that name' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data: publicScenario(deleted), meta: { source: 'database' } });
+  } catch (error) {
+    console.error('[API /v1/scenarios] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scenario' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,121 @@
+/**
+ * API Route: /api/v1/scenarios/run
+ *
+ * Runs a refinancing scenario against the latest MSPD snapshot and nominal
+ * yield curve (or those on or before asOf), returning the interest cost,
+ * WAM and maturity wall paths of the scenario next to a baseline (see
+ * src/lib/analytics/refinancing-scenario.ts). Saved scenarios are re-run
+ * against whatever data is current when requested. Served only under
+ * /api/v1, in the { data, meta, errors } envelope.
+ *
+ * Query Parameters:
+ * - scenario: name of a saved scenario (otherwise the parameters below)
+ * - asOf: YYYY-MM-DD, run from the latest snapshot and curve on or before this date
+ * - years: years to project (1-10, default: 5)
+ * - parallelBps: parallel shift of the curve in bps (-500 to 500, default: 0)
+ * - slopeBps: 2s10s steepening (+) or flattening (-) in bps (-300 to 300, default: 0)
+ * - billShare: target bill share of debt outstanding in percent, reached through
+ *   new issuance (default: reissue at original term)
+ * - deficit: new borrowing per year in $B (default: 0)
+ */
+
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { getDb, refinancingScenarios } from '@/lib/db';
+import { resolveSecuritiesSnapshot } from '@/lib/etl/maturity-wall';
+import { resolveYieldCurve } from '@/lib/etl/yield-curves';
+import { fitYieldCurve } from '@/lib/analytics/yield-curve';
+import { curveRates } from '@/lib/analytics/interest-projection';
+import { runRefinancingScenario } from '@/lib/analytics/refinancing-scenario';
+import { withApiAccess } from '@/lib/api-keys';
+import { v1Route } from '@/lib/api/v1';
+import { parseQuery } from '@/lib/api/contracts';
+import { ScenarioParametersSchema, type ScenarioRunResponse } from '@/lib/api/schemas';
+import type { ScenarioParameters } from '@/lib/types/treasury';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = v1Route(withApiAccess('scenarios-run', 'read', async (request: Request) => {
+  const query = parseQuery('/api/v1/scenarios/run', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { scenario: name, asOf, ...inline } = query.data;
+
+  try {
+    const db = getDb();
+
+    let parameters: ScenarioParameters = { ...inline, billShare: inline.billShare ?? null };
+    if (name) {
+      if (!db) {
+        return NextResponse.json(
+          { error: 'Database not configured' },
+          { status: 503 }
+        );
+      }
+      const [saved] = await db.select()
+        .from(refinancingScenarios)
+        .where(eq(refinancingScenarios.name, name))
+        .limit(1);
+      if (!saved) {
+        return NextResponse.json(
+          { error: 'No scenario with that name' },
+          { status: 404 }
+        );
+      }
+      parameters = ScenarioParametersSchema.parse(saved.parameters);
+    }
+
+    const snapshot = await resolveSecuritiesSnapshot(db, asOf);
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'No securities data available' },
+        { status: 404 }
+      );
+    }
+
+    const curve = await resolveYieldCurve(db, asOf, 'nominal');
+    if (!curve || curve.curve.nominal.length < 3) {
+      return NextResponse.json(
+        { error: 'No yield curve data available' },
+        { status: 404 }
+      );
+    }
+
+    const { baseline, scenario } = runRefinancingScenario(
+      snapshot.recordDate,
+      snapshot.securities,
+      curveRates(fitYieldCurve(curve.curve.nominal, 'cubic')),
+      parameters
+    );
+
+    const response: ScenarioRunResponse = {
+      data: {
+        name: name ?? null,
+        parameters,
+        assumptions: {
+          recordDate: snapshot.recordDate,
+          curveDate: curve.curve.date,
+          curve: curve.curve.nominal,
+        },
+        baseline,
+        scenario,
+      },
+      meta: {
+        computedAt: new Date().toISOString(),
+        source: snapshot.source === 'api' || curve.source === 'api' ? 'api' : 'database',
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[API /v1/scenarios/run] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scenario' },
+      { status: 500 }
+    );
+  }
+}));
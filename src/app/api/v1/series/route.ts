@@ -0,0 +1,13 @@
+/**
+ * API Route: /api/v1/series
+ *
+ * /api/series in the v1 { data, meta, errors } envelope, with the same
+ * query parameters.
+ */
+
+import { GET as getSeries } from '@/app/api/series/route';
+import { v1Route } from '@/lib/api/v1';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = v1Route(getSeries);
@@ -0,0 +1,151 @@
+/**
+ * API Route: /api/v1/supply/metrics
+ *
+ * Returns the rollover profile of marketable debt per MSPD record date:
+ * weighted average maturity, the share maturing within 3/6/12/24 months,
+ * the bill share and a monthly rollover schedule.
+ * Serves stored supply_metrics, computes from stored securities when none
+ * are stored yet, and falls back to the Live API. Served only under
+ * /api/v1, in the { data, meta, errors } envelope.
+ *
+ * Query Parameters:
+ * - timeframe: 1y | 3y | 5y | 10y (default: 1y)
+ * - asOf: YYYY-MM-DD, end the timeframe window on this date (default: today)
+ * - format: json | csv | jsonl | xlsx, download instead of the JSON response
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { computeStoredSupplyMetrics, loadSupplyMetrics } from '@/lib/etl/supply';
+import { fetchSecuritiesHistory } from '@/lib/etl/treasury-client';
+import { cleanSecurityRecords } from '@/lib/etl/sanitizers';
+import { computeSupplyMetrics } from '@/lib/analytics/supply';
+import type { CleanedSecurity, SupplyMetrics } from '@/lib/types/treasury';
+import { parseQuery } from '@/lib/api/contracts';
+import type { SupplyMetricsResponse } from '@/lib/api/schemas';
+import { withApiAccess } from '@/lib/api-keys';
+import { v1Route } from '@/lib/api/v1';
+import { exportResponse, type ExportTable } from '@/lib/export';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 86400; // Revalidate daily
+
+/**
+ * Supply metrics as an export table, one row per record date
+ * (the monthly rollover schedule is only in the JSON response)
+ */
+function supplyMetricsTable(response: SupplyMetricsResponse): ExportTable {
+  const latest = response.data[response.data.length - 1];
+  return {
+    name: 'supply-metrics',
+    columns: [
+      { key: 'date', header: 'Record Date' },
+      { key: 'totalOutstanding', header: 'Marketable Outstanding', units: 'USD' },
+      { key: 'wamMonths', header: 'WAM', units: 'months' },
+      { key: 'maturing3m', header: 'Maturing Within 3M', units: 'percent' },
+      { key: 'maturing6m', header: 'Maturing Within 6M', units: 'percent' },
+      { key: 'maturing12m', header: 'Maturing Within 12M', units: 'percent' },
+      { key: 'maturing24m', header: 'Maturing Within 24M', units: 'percent' },
+      { key: 'billShare', header: 'Bill Share', units: 'percent' },
+    ],
+    rows: response.data.map(d => ({
+      date: d.date,
+      totalOutstanding: d.totalOutstanding,
+      wamMonths: d.wamMonths,
+      maturing3m: d.maturing3m,
+      maturing6m: d.maturing6m,
+      maturing12m: d.maturing12m,
+      maturing24m: d.maturing24m,
+      billShare: d.billShare,
+    })),
+    metadata: {
+      source: response.meta.source,
+      recordDate: latest?.date ?? null,
+      computedAt: response.meta.computedAt,
+      timeframe: response.meta.timeframe,
+    },
+  };
+}
+
+/**
+ * Supply metrics per record date from live securities records
+ */
+function computeFromSecurities(securities: CleanedSecurity[]): SupplyMetrics[] {
+  const byDate = new Map<string, CleanedSecurity[]>();
+  for (const security of securities) {
+    const list = byDate.get(security.recordDate) ?? [];
+    list.push(security);
+    byDate.set(security.recordDate, list);
+  }
+
+  return [...byDate.keys()].sort().flatMap(date => computeSupplyMetrics(date, byDate.get(date)!) ?? []);
+}
+
+export const GET = v1Route(withApiAccess('supply-metrics', 'read', async (request: Request) => {
+  const query = parseQuery('/api/v1/supply/metrics', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { timeframe, asOf, format } = query.data;
+
+  const endDate = asOf ?? new Date().toISOString().split('T')[0];
+  const start = new Date(`${endDate}T00:00:00Z`);
+  start.setFullYear(start.getFullYear() - parseInt(timeframe, 10));
+  const startDate = start.toISOString().split('T')[0];
+
+  const respond = (data: SupplyMetrics[], source: 'database' | 'api', precomputed: boolean) => {
+    const response: SupplyMetricsResponse = {
+      data,
+      meta: {
+        computedAt: new Date().toISOString(),
+        startDate,
+        endDate,
+        timeframe,
+        count: data.length,
+        source,
+        precomputed,
+      },
+    };
+    if (format) return exportResponse(supplyMetricsTable(response), format, response);
+    return NextResponse.json(response);
+  };
+
+  try {
+    // 1. Try Database First (if available)
+    const db = getDb();
+    if (db) {
+      try {
+        // 1a. Stored metrics
+        const stored = await loadSupplyMetrics(db, startDate, endDate);
+        if (stored.length > 0) return respond(stored, 'database', true);
+
+        // 1b. None stored yet: compute from stored securities
+        const computed = await computeStoredSupplyMetrics(db, startDate, endDate);
+        if (computed.length > 0) return respond(computed, 'database', false);
+      } catch (dbError) {
+        console.warn('[API /v1/supply/metrics] Database query failed, falling back to API:', dbError);
+      }
+    }
+
+    // 2. Fallback to Live API
+    const computed = computeFromSecurities(cleanSecurityRecords(await fetchSecuritiesHistory(startDate, endDate)));
+
+    if (computed.length === 0) {
+      return NextResponse.json(
+        { error: 'No securities data available' },
+        { status: 404 }
+      );
+    }
+
+    return respond(computed, 'api', false);
+  } catch (error) {
+    console.error('[API /v1/supply/metrics] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute supply metrics' },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,13 @@
+/**
+ * API Route: /api/v1/yield-curve/fitted
+ *
+ * /api/yield-curve/fitted in the v1 { data, meta, errors } envelope, with the same
+ * query parameters.
+ */
+
+import { GET as getFittedCurve } from '@/app/api/yield-curve/fitted/route';
+import { v1Route } from '@/lib/api/v1';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = v1Route(getFittedCurve);
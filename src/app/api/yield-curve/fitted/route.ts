@@ -0,0 +1,106 @@
+/**
+ * API Route: /api/yield-curve/fitted
+ *
+ * Fits a continuous curve to one day's published par yields and returns
+ * zero rates, par yields and discount factors at any maturity, plus
+ * implied forward rates (see src/lib/analytics/yield-curve.ts).
+ *
+ * Query Parameters:
+ * - date: YYYY-MM-DD, fit the latest curve on or before this date (default: latest)
+ * - type: nominal | real (default: nominal)
+ * - method: linear | cubic | nss (default: cubic)
+ * - maturities: comma-separated years, e.g. 0.5,1,2.5,10 (default: 3M-30Y grid)
+ * - forwards: comma-separated forwards, e.g. 1y1y,5y5y (default: 1y1y,2y1y,5y5y,10y10y)
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { resolveYieldCurve } from '@/lib/etl/yield-curves';
+import {
+  MAX_MATURITY,
+  STANDARD_FORWARDS,
+  STANDARD_MATURITIES,
+  fitYieldCurve,
+  impliedForwards,
+  parseForwardLabel,
+  tabulateCurve,
+  type ForwardSpec,
+} from '@/lib/analytics/yield-curve';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 86400; // Revalidate daily
+
+// Request size limits
+const MAX_MATURITIES = 60;
+const MAX_FORWARDS = 20;
+
+export const GET = withApiAccess('yield-curve-fitted', 'read', async (request: Request) => {
+  const query = parseQuery('/api/yield-curve/fitted', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { date, type: curveType, method, maturities: maturitiesParam, forwards: forwardsParam } = query.data;
+
+  const maturities = maturitiesParam
+    ? maturitiesParam.split(',').map(m => Number(m.trim()))
+    : STANDARD_MATURITIES;
+  if (maturities.length > MAX_MATURITIES ||
+    maturities.some(m => !Number.isFinite(m) || m <= 0 || m > MAX_MATURITY)) {
+    return NextResponse.json(
+      { error: `Invalid maturities. Use up to ${MAX_MATURITIES} comma-separated years between 0 and ${MAX_MATURITY}` },
+      { status: 400 }
+    );
+  }
+
+  const forwards = (forwardsParam ? forwardsParam.split(',') : STANDARD_FORWARDS).map(parseForwardLabel);
+  if (forwards.length > MAX_FORWARDS || forwards.some(f => f === null)) {
+    return NextResponse.json(
+      { error: `Invalid forwards. Use up to ${MAX_FORWARDS} labels such as 1y1y or 5y5y ending within ${MAX_MATURITY} years` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const resolved = await resolveYieldCurve(getDb(), date, curveType);
+    const observed = resolved?.curve[curveType] ?? [];
+
+    if (!resolved || observed.length < 3) {
+      return NextResponse.json(
+        { error: 'No yield curve data available' },
+        { status: 404 }
+      );
+    }
+
+    const fitted = fitYieldCurve(observed, method);
+
+    return NextResponse.json({
+      data: {
+        date: resolved.curve.date,
+        curveType,
+        method,
+        observed,
+        points: tabulateCurve(fitted, maturities),
+        forwards: impliedForwards(fitted, forwards as ForwardSpec[]),
+        parameters: fitted.parameters,
+        rmseBps: fitted.rmseBps,
+      },
+      meta: {
+        computedAt: new Date().toISOString(),
+        compounding: 'semi-annual',
+        units: 'percent',
+        source: resolved.source,
+      },
+    });
+  } catch (error) {
+    console.error('[API /yield-curve/fitted] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fit yield curve' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,120 @@
+/**
+ * API Route: /api/yield-curve
+ *
+ * Returns daily Treasury par yield curves (nominal) and TIPS real yield
+ * curves at every published tenor. Serves stored yield_curve_points and
+ * falls back to the Live API.
+ *
+ * Query Parameters:
+ * - date: YYYY-MM-DD, serve the latest curve on or before this date
+ * - start / end: YYYY-MM-DD, serve every curve in the range instead
+ * - type: nominal | real (default: both)
+ *
+ * Without date or start, the latest curve is returned.
+ */
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { fetchLiveYieldCurves, loadYieldCurves, resolveYieldCurve } from '@/lib/etl/yield-curves';
+import { withApiAccess } from '@/lib/api-keys';
+import { parseQuery } from '@/lib/api/contracts';
+import type { YieldCurveResponse } from '@/lib/api/schemas';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 86400; // Revalidate daily
+
+export const GET = withApiAccess('yield-curve', 'read', async (request: Request) => {
+  const query = parseQuery('/api/yield-curve', new URL(request.url).searchParams);
+  if (!query.success) {
+    return NextResponse.json(
+      { error: query.error },
+      { status: 400 }
+    );
+  }
+  const { date, start, type } = query.data;
+
+  // A range is requested with start (end defaults to today)
+  const end = query.data.end ?? new Date().toISOString().split('T')[0];
+  if (start && start > end) {
+    return NextResponse.json(
+      { error: 'start must be on or before end' },
+      { status: 400 }
+    );
+  }
+  const curveType = type ?? null;
+  const db = getDb();
+
+  try {
+    // Single curve: latest on or before date
+    if (!start) {
+      const resolved = await resolveYieldCurve(db, date, curveType);
+      if (!resolved) {
+        return NextResponse.json(
+          { error: 'No yield curve data available' },
+          { status: 404 }
+        );
+      }
+
+      const response: YieldCurveResponse = {
+        data: [resolved.curve],
+        meta: {
+          startDate: resolved.curve.date,
+          endDate: resolved.curve.date,
+          curveType: curveType ?? 'all',
+          count: 1,
+          source: resolved.source,
+        },
+      };
+      return NextResponse.json(response);
+    }
+
+    // 1. Try Database First (if available)
+    if (db) {
+      try {
+        const curves = await loadYieldCurves(db, start, end, curveType);
+
+        if (curves.length > 0) {
+          const response: YieldCurveResponse = {
+            data: curves,
+            meta: {
+              startDate: start,
+              endDate: end,
+              curveType: curveType ?? 'all',
+              count: curves.length,
+              source: 'database',
+            },
+          };
+          return NextResponse.json(response);
+        }
+      } catch (dbError) {
+        console.warn('[API /yield-curve] Database query failed, falling back to API:', dbError);
+      }
+    }
+
+    // 2. Fallback to Live API
+    const curves = await fetchLiveYieldCurves(start, end, curveType);
+
+    const response: YieldCurveResponse = {
+      data: curves,
+      meta: {
+        startDate: start,
+        endDate: end,
+        curveType: curveType ?? 'all',
+        count: curves.length,
+        source: 'api',
+      },
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
+      },
+    });
+  } catch (error) {
+    console.error('[API /yield-curve] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load yield curves' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import type { Metadata } from 'next';
 import './globals.css';
 import { ThemeProvider } from '@/components/providers/theme-provider';
+import { AsOfProvider } from '@/components/providers/as-of-provider';
 
 export const metadata: Metadata = {
   title: 'Sovereign Watch - Live Treasury Analytics',
@@ -34,7 +35,9 @@ export default function RootLayout({
       </head>
       <body className="font-sans antialiased">
         <ThemeProvider>
-          {children}
+          <AsOfProvider>
+            {children}
+          </AsOfProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -0,0 +1,207 @@
+'use client';
+
+/**
+ * Auction Tail Chart - Bloomberg Terminal 2.0
+ *
+ * Coupon auction tails in basis points: the high yield minus the
+ * auction-day secondary-market yield at the same tenor, by security type
+ * and benchmark term (reopenings included), with per-term tail statistics.
+ */
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
+import { ChartSkeleton } from './chart-skeleton';
+import { TimeframeButtons } from '@/components/ui/button';
+import { apiGet, type ApiEnvelope } from '@/lib/api/client';
+import type { Timeframe } from '@/lib/api/schemas';
+
+const Plot = dynamic(() => import('react-plotly.js'), {
+  ssr: false,
+  loading: () => <ChartSkeleton type="line" className="h-[350px]" />
+});
+
+const TIMEFRAMES: Timeframe[] = ['1y', '3y', '5y', '10y'];
+
+// Terms plotted as their own series (by auction count); the rest are grouped
+const MAX_TERMS = 6;
+
+export const TAIL_TYPES = 'NOTE,BOND,TIPS';
+
+interface AuctionTailChartProps {
+  timeframe: Timeframe;
+  onTimeframeChange: (timeframe: Timeframe) => void;
+}
+
+export function AuctionTailChart({ timeframe, onTimeframeChange }: AuctionTailChartProps) {
+  const { theme } = useTheme();
+  const { asOf } = useAsOf();
+  const [data, setData] = useState<ApiEnvelope<'/api/auctions'> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      try {
+        setData(await apiGet('/api/auctions', { timeframe, types: TAIL_TYPES, asOf: asOf ?? undefined }));
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [timeframe, asOf]);
+
+  const isDark = theme === 'dark';
+
+  // Terminal-style colors
+  const colors = {
+    text: isDark ? '#8B99A6' : '#57534E',
+    grid: isDark ? 'rgba(51, 144, 255, 0.1)' : '#E7E5E4',
+    background: 'transparent',
+    zero: isDark ? 'rgba(228, 232, 237, 0.4)' : 'rgba(28, 25, 23, 0.4)',
+    terms: isDark
+      ? ['#60A5FA', '#A78BFA', '#F87171', '#34D399', '#FBBF24', '#F472B6', '#94A3B8']
+      : ['#3B82F6', '#8B5CF6', '#DC2626', '#059669', '#F59E0B', '#DB2777', '#64748B'],
+  };
+
+  if (error) {
+    return (
+      <div className="h-[350px] flex flex-col items-center justify-center border border-border rounded bg-card">
+        <div className="text-destructive font-mono text-sm mb-2">ERROR: FAILED TO LOAD DATA</div>
+        <p className="text-muted-foreground text-xs">{error}</p>
+      </div>
+    );
+  }
+
+  const tailStats = data?.meta.tailStats ?? [];
+  const termLabel = (type: string, term: string | null) => `${term} ${type}`;
+  const plotted = tailStats.slice(0, MAX_TERMS).map(s => termLabel(s.type, s.term));
+  const withTails = data?.data.filter(d => d.tailBps !== undefined) ?? [];
+
+  const groups = [
+    ...plotted.map(label => ({ label, auctions: withTails.filter(d => termLabel(d.type, d.benchmarkTerm) === label) })),
+    { label: 'Other', auctions: withTails.filter(d => !plotted.includes(termLabel(d.type, d.benchmarkTerm))) },
+  ].filter(g => g.auctions.length > 0);
+
+  const plotData: Plotly.Data[] = groups.map((group, i) => ({
+    x: group.auctions.map(d => d.date),
+    y: group.auctions.map(d => d.tailBps!),
+    customdata: group.auctions.map(d => [d.highYield ?? null, d.marketYield ?? null, d.term, d.rollingTailBps ?? null]),
+    type: 'scatter',
+    mode: 'markers',
+    name: group.label,
+    marker: {
+      size: 7,
+      symbol: group.auctions.map(d => d.reopening ? 'circle-open' : 'circle'),
+      color: group.label === 'Other' ? colors.terms[colors.terms.length - 1] : colors.terms[i % (colors.terms.length - 1)],
+      opacity: 0.85,
+    },
+    hovertemplate: `<b>%{x}</b> %{customdata[2]}<br>Tail: %{y:+.1f} bps · Prior 6: %{customdata[3]:+.1f}<br>High: %{customdata[0]:.3f}% · Mkt: %{customdata[1]:.3f}%<extra>${group.label}</extra>`,
+  }));
+
+  const axisFont = { size: 10, family: 'JetBrains Mono, monospace' };
+
+  const layout: Partial<Plotly.Layout> = {
+    yaxis: {
+      title: { text: 'Tail (bps, + = tailed)', font: { size: 11, color: colors.text } },
+      color: colors.text,
+      gridcolor: colors.grid,
+      tickfont: axisFont,
+      zeroline: true,
+      zerolinecolor: colors.zero,
+    },
+    xaxis: {
+      title: { text: 'Auction Date', font: { size: 11, color: colors.text } },
+      color: colors.text,
+      gridcolor: colors.grid,
+      tickfont: axisFont,
+    },
+    margin: { t: 20, b: 60, l: 60, r: 20 },
+    legend: {
+      orientation: 'h',
+      y: -0.2,
+      x: 0.5,
+      xanchor: 'center',
+      font: { size: 10, color: colors.text, family: 'IBM Plex Sans, sans-serif' },
+      bgcolor: 'transparent',
+    },
+    paper_bgcolor: colors.background,
+    plot_bgcolor: colors.background,
+    hoverlabel: {
+      bgcolor: isDark ? '#1a1f2e' : '#ffffff',
+      bordercolor: isDark ? 'rgba(51, 144, 255, 0.3)' : '#e7e5e4',
+      font: {
+        family: 'JetBrains Mono, monospace',
+        size: 11,
+        color: isDark ? '#E4E8ED' : '#1C1917',
+      },
+    },
+  };
+
+  return (
+    <div className="w-full">
+      {/* Timeframe Controls */}
+      <div className="flex justify-end mb-4">
+        <TimeframeButtons
+          options={TIMEFRAMES}
+          value={timeframe}
+          onChange={(t) => onTimeframeChange(t as Timeframe)}
+        />
+      </div>
+
+      {/* Chart */}
+      <div className="h-[350px] chart-container">
+        {loading ? (
+          <ChartSkeleton type="line" className="h-full" />
+        ) : (
+          <Plot
+            data={plotData}
+            layout={layout}
+            config={{ responsive: true, displayModeBar: false }}
+            className="w-full h-full"
+          />
+        )}
+      </div>
+
+      {/* Per-Term Stats */}
+      {tailStats.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-muted-foreground border-b border-border">
+                <th className="text-left py-2">Term</th>
+                <th className="text-right py-2">Auctions</th>
+                <th className="text-right py-2">Avg</th>
+                <th className="text-right py-2">Median</th>
+                <th className="text-right py-2">Max Tail</th>
+                <th className="text-right py-2">Tailed</th>
+                <th className="text-right py-2">Through</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tailStats.map(s => (
+                <tr key={termLabel(s.type, s.term)} className="border-b border-border/30 last:border-0">
+                  <td className="py-1.5 text-foreground">{termLabel(s.type, s.term)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{s.count}</td>
+                  <td className={`py-1.5 text-right tabular-nums ${s.avgTailBps > 0 ? 'text-red-500' : 'text-green-500'}`}>
+                    {s.avgTailBps >= 0 ? '+' : ''}{s.avgTailBps.toFixed(1)}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">{s.medianTailBps >= 0 ? '+' : ''}{s.medianTailBps.toFixed(1)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{s.maxTailBps >= 0 ? '+' : ''}{s.maxTailBps.toFixed(1)}</td>
+                  <td className="py-1.5 text-right tabular-nums text-red-500">{s.tails}</td>
+                  <td className="py-1.5 text-right tabular-nums text-green-500">{s.throughs}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,8 +10,11 @@
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { ChartSkeleton } from './chart-skeleton';
 import { TimeframeButtons } from '@/components/ui/button';
+import { apiGet } from '@/lib/api/client';
+import type { Timeframe } from '@/lib/api/schemas';
 import type { AuctionDemandData } from '@/lib/types/treasury';
 
 const Plot = dynamic(() => import('react-plotly.js'), {
@@ -19,16 +22,18 @@ const Plot = dynamic(() => import('react-plotly.js'), {
   loading: () => <ChartSkeleton type="area" className="h-[400px]" />
 });
 
-// Response type for auction API (used in fetch typing)
-type AuctionsResponse = {
-  data: AuctionDemandData[];
-};
+const TIMEFRAMES: Timeframe[] = ['1y', '3y', '5y', '10y'];
 
-const TIMEFRAMES = ['1y', '3y', '5y', '10y'];
+export const BIDDER_TYPES = 'NOTE,BOND';
 
-export function BidderChart() {
+interface BidderChartProps {
+  timeframe: Timeframe;
+  onTimeframeChange: (timeframe: Timeframe) => void;
+}
+
+export function BidderChart({ timeframe, onTimeframeChange }: BidderChartProps) {
   const { theme } = useTheme();
-  const [timeframe, setTimeframe] = useState('3y');
+  const { asOf } = useAsOf();
   const [data, setData] = useState<AuctionDemandData[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -37,9 +42,7 @@ export function BidderChart() {
     async function fetchData() {
       setLoading(true);
       try {
-        const res = await fetch(`/api/auctions?timeframe=${timeframe}&types=NOTE,BOND`);
-        if (!res.ok) throw new Error('Failed to fetch auction data');
-        const json = await res.json();
+        const json = await apiGet('/api/auctions', { timeframe, types: BIDDER_TYPES, asOf: asOf ?? undefined });
         setData(json.data);
         setError(null);
       } catch (e) {
@@ -50,7 +53,7 @@ export function BidderChart() {
     }
 
     fetchData();
-  }, [timeframe]);
+  }, [timeframe, asOf]);
 
   const isDark = theme === 'dark';
 
@@ -169,7 +172,7 @@ export function BidderChart() {
         <TimeframeButtons
           options={TIMEFRAMES}
           value={timeframe}
-          onChange={setTimeframe}
+          onChange={(t) => onTimeframeChange(t as Timeframe)}
         />
       </div>
 
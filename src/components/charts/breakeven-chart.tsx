@@ -3,34 +3,38 @@
 /**
  * Breakeven Inflation Chart - Bloomberg Terminal 2.0
  *
- * Displays 10Y Breakeven Inflation Rate (Market Expectations)
- * with 2% target line and professional terminal styling.
+ * Breakeven inflation term structure (5Y-30Y and the 5y5y forward):
+ * its evolution over time, or the curve today against the start of the
+ * timeframe, with the 2% target line.
  */
 
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { ChartSkeleton } from './chart-skeleton';
 import { TimeframeButtons } from '@/components/ui/button';
+import { apiGet } from '@/lib/api/client';
+import type { Timeframe } from '@/lib/api/schemas';
+import type { BreakevenTermStructure } from '@/lib/types/treasury';
 
 const Plot = dynamic(() => import('react-plotly.js'), {
   ssr: false,
   loading: () => <ChartSkeleton type="line" className="h-[400px]" />
 });
 
-const TIMEFRAMES = ['1y', '3y', '5y'];
+const TIMEFRAMES: Timeframe[] = ['1y', '3y', '5y'];
+const MODES = ['history', 'curve'];
 
-interface HealthDataPoint {
-  date: string;
-  breakeven10y: number;
-  yield10y?: number;
-  realYield10y?: number;
-}
+// Series plotted in history mode
+const SERIES = ['5Y', '10Y', '20Y', '30Y', '5y5y'] as const;
 
 export function BreakevenChart() {
   const { theme } = useTheme();
-  const [timeframe, setTimeframe] = useState('1y');
-  const [data, setData] = useState<HealthDataPoint[]>([]);
+  const { asOf } = useAsOf();
+  const [timeframe, setTimeframe] = useState<Timeframe>('1y');
+  const [mode, setMode] = useState('history');
+  const [data, setData] = useState<BreakevenTermStructure[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -38,10 +42,8 @@ export function BreakevenChart() {
     async function fetchData() {
       setLoading(true);
       try {
-        const res = await fetch(`/api/health/history?timeframe=${timeframe}`);
-        if (!res.ok) throw new Error('Failed to fetch inflation data');
-        const json = await res.json();
-        setData(json);
+        const json = await apiGet('/api/inflation/breakevens', { timeframe, asOf: asOf ?? undefined });
+        setData(json.data);
         setError(null);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error');
@@ -50,7 +52,7 @@ export function BreakevenChart() {
       }
     }
     fetchData();
-  }, [timeframe]);
+  }, [timeframe, asOf]);
 
   const isDark = theme === 'dark';
 
@@ -63,6 +65,13 @@ export function BreakevenChart() {
     inflation: isDark ? '#FBBF24' : '#F59E0B',
     inflationFill: isDark ? 'rgba(251, 191, 36, 0.15)' : 'rgba(245, 158, 11, 0.1)',
     target: '#EF4444',
+    series: {
+      '5Y': isDark ? '#60A5FA' : '#3B82F6',
+      '10Y': isDark ? '#FBBF24' : '#F59E0B',
+      '20Y': isDark ? '#2DD4BF' : '#14B8A6',
+      '30Y': isDark ? '#C084FC' : '#A855F7',
+      '5y5y': isDark ? '#F87171' : '#DC2626',
+    },
   };
 
   if (error) {
@@ -74,19 +83,43 @@ export function BreakevenChart() {
     );
   }
 
-  const plotData: Plotly.Data[] = [
-    {
-      x: data.map(d => d.date),
-      y: data.map(d => d.breakeven10y),
-      name: '10Y Breakeven',
-      type: 'scatter',
-      mode: 'lines',
-      fill: 'tozeroy',
-      fillcolor: colors.inflationFill,
-      line: { color: colors.inflation, width: 2 },
-      hovertemplate: '<b>%{x}</b><br>Breakeven: %{y:.2f}%<extra></extra>',
-    },
-  ];
+  const valueOf = (d: BreakevenTermStructure, series: typeof SERIES[number]) =>
+    series === '5y5y' ? d.forward5y5y : d.points.find(p => p.tenor === series)?.breakeven ?? null;
+
+  const plotData: Plotly.Data[] = [];
+  if (mode === 'history') {
+    for (const series of SERIES) {
+      const isForward = series === '5y5y';
+      plotData.push({
+        x: data.map(d => d.date),
+        y: data.map(d => valueOf(d, series)),
+        name: isForward ? '5y5y Forward' : `${series} Breakeven`,
+        type: 'scatter',
+        mode: 'lines',
+        connectgaps: true,
+        line: { color: colors.series[series], width: series === '10Y' ? 2 : 1.5, dash: isForward ? 'dot' : 'solid' },
+        hovertemplate: `<b>%{x}</b><br>${isForward ? '5y5y' : series}: %{y:.2f}%<extra></extra>`,
+      });
+    }
+  } else {
+    // Today's term structure against the start of the timeframe
+    const snapshots = data.length > 1 ? [data[0], data[data.length - 1]] : data;
+    snapshots.forEach((d, i) => {
+      const isLatest = i === snapshots.length - 1;
+      plotData.push({
+        x: d.points.map(p => p.tenor),
+        y: d.points.map(p => p.breakeven),
+        name: d.date,
+        type: 'scatter',
+        mode: 'lines+markers',
+        fill: isLatest ? 'tozeroy' : undefined,
+        fillcolor: colors.inflationFill,
+        line: { color: colors.inflation, width: 2, dash: isLatest ? 'solid' : 'dot' },
+        opacity: isLatest ? 1 : 0.6,
+        hovertemplate: `<b>%{x}</b><br>${d.date}: %{y:.2f}%<extra></extra>`,
+      });
+    });
+  }
 
   const layout: Partial<Plotly.Layout> = {
     yaxis: {
@@ -102,9 +135,10 @@ export function BreakevenChart() {
     },
     xaxis: {
       title: {
-        text: 'Date',
+        text: mode === 'history' ? 'Date' : 'Tenor',
         font: { size: 11, color: colors.text }
       },
+      type: mode === 'history' ? 'date' : 'category',
       color: colors.text,
       gridcolor: colors.grid,
       tickfont: { size: 10, family: 'JetBrains Mono, monospace' },
@@ -168,12 +202,17 @@ export function BreakevenChart() {
 
   return (
     <div className="w-full">
-      {/* Timeframe Controls */}
-      <div className="flex justify-end mb-4">
+      {/* Mode & Timeframe Controls */}
+      <div className="flex justify-end gap-3 mb-4">
+        <TimeframeButtons
+          options={MODES}
+          value={mode}
+          onChange={setMode}
+        />
         <TimeframeButtons
           options={TIMEFRAMES}
           value={timeframe}
-          onChange={setTimeframe}
+          onChange={(t) => setTimeframe(t as Timeframe)}
         />
       </div>
 
@@ -4,38 +4,41 @@
  * Auction Demand Chart Component - Bloomberg Terminal 2.0
  *
  * Scatter plot showing bid-to-cover ratios over time
- * with zone indicators and professional styling.
+ * with zone indicators and professional styling. A single benchmark
+ * term can be selected to compare each auction (reopenings as open
+ * markers) with the average of the previous six auctions of that term.
  */
 
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { ChartSkeleton } from './chart-skeleton';
 import { TimeframeButtons } from '@/components/ui/button';
-import type { AuctionDemandData } from '@/lib/types/treasury';
+import { apiGet, type ApiEnvelope } from '@/lib/api/client';
+import type { Timeframe } from '@/lib/api/schemas';
 
 const Plot = dynamic(() => import('react-plotly.js'), {
   ssr: false,
   loading: () => <ChartSkeleton type="line" className="h-[400px]" />
 });
 
-interface AuctionsResponse {
-  data: AuctionDemandData[];
-  stats: {
-    count: number;
-    avgRatio: number;
-    minRatio: number;
-    maxRatio: number;
-    belowThreshold: number;
-  };
-}
+const TIMEFRAMES: Timeframe[] = ['1y', '3y', '5y', '10y'];
+const TERMS = ['ALL', '2Y', '3Y', '5Y', '7Y', '10Y', '20Y', '30Y'];
 
-const TIMEFRAMES = ['1y', '3y', '5y', '10y'];
+export const DEMAND_TYPES = 'NOTE,BOND';
+
+interface DemandChartProps {
+  timeframe: Timeframe;
+  onTimeframeChange: (timeframe: Timeframe) => void;
+  term: string; // Benchmark term, or ALL
+  onTermChange: (term: string) => void;
+}
 
-export function DemandChart() {
+export function DemandChart({ timeframe, onTimeframeChange, term, onTermChange }: DemandChartProps) {
   const { theme } = useTheme();
-  const [timeframe, setTimeframe] = useState('1y');
-  const [data, setData] = useState<AuctionsResponse | null>(null);
+  const { asOf } = useAsOf();
+  const [data, setData] = useState<ApiEnvelope<'/api/auctions'> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,10 +46,12 @@ export function DemandChart() {
     async function fetchData() {
       setLoading(true);
       try {
-        const res = await fetch(`/api/auctions?timeframe=${timeframe}`);
-        if (!res.ok) throw new Error('Failed to fetch auction data');
-        const auctionData = await res.json();
-        setData(auctionData);
+        setData(await apiGet('/api/auctions', {
+          timeframe,
+          types: DEMAND_TYPES,
+          terms: term === 'ALL' ? undefined : term,
+          asOf: asOf ?? undefined,
+        }));
         setError(null);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error');
@@ -56,7 +61,7 @@ export function DemandChart() {
     }
 
     fetchData();
-  }, [timeframe]);
+  }, [timeframe, term, asOf]);
 
   const isDark = theme === 'dark';
 
@@ -66,6 +71,7 @@ export function DemandChart() {
     grid: isDark ? 'rgba(51, 144, 255, 0.1)' : '#E7E5E4',
     background: 'transparent',
     marker: isDark ? '#60A5FA' : '#3B82F6',
+    rolling: isDark ? '#FBBF24' : '#D97706',
     strongZone: isDark ? 'rgba(34, 197, 94, 0.1)' : 'rgba(5, 150, 105, 0.08)',
     adequateZone: isDark ? 'rgba(251, 191, 36, 0.1)' : 'rgba(251, 191, 36, 0.08)',
     weakZone: isDark ? 'rgba(239, 68, 68, 0.1)' : 'rgba(220, 38, 38, 0.08)',
@@ -83,6 +89,7 @@ export function DemandChart() {
   const plotData: Plotly.Data[] = data ? [{
     x: data.data.map(d => d.date),
     y: data.data.map(d => d.ratio),
+    customdata: data.data.map(d => [d.term, d.rollingRatio ?? null]),
     type: 'scatter',
     mode: 'markers',
     name: 'Auction Result',
@@ -90,11 +97,28 @@ export function DemandChart() {
       size: 6,
       color: colors.marker,
       opacity: 0.8,
+      symbol: data.data.map(d => d.reopening ? 'circle-open' : 'circle'),
       line: { width: 1, color: isDark ? '#1e3a5f' : '#dbeafe' }
     },
-    hovertemplate: '<b>%{x}</b><br>Ratio: %{y:.2f}<extra></extra>',
+    hovertemplate: term === 'ALL'
+      ? '<b>%{x}</b> %{customdata[0]}<br>Ratio: %{y:.2f}<extra></extra>'
+      : '<b>%{x}</b> %{customdata[0]}<br>Ratio: %{y:.2f} · Prior 6: %{customdata[1]:.2f}<extra></extra>',
   }] : [];
 
+  // Prior-six average, only meaningful within one term
+  if (data && term !== 'ALL') {
+    const rolling = data.data.filter(d => d.rollingRatio !== undefined);
+    plotData.push({
+      x: rolling.map(d => d.date),
+      y: rolling.map(d => d.rollingRatio!),
+      type: 'scatter',
+      mode: 'lines',
+      name: `Prior 6 ${term} Avg`,
+      line: { color: colors.rolling, width: 1.5, dash: 'dot', shape: 'hv' },
+      hovertemplate: `<b>%{x}</b><br>Prior 6 ${term} Avg: %{y:.2f}<extra></extra>`,
+    });
+  }
+
   const layout: Partial<Plotly.Layout> = {
     yaxis: {
       title: { text: 'Bid-to-Cover', font: { size: 11, color: colors.text } },
@@ -112,6 +136,7 @@ export function DemandChart() {
       tickfont: { size: 10, family: 'JetBrains Mono, monospace' },
     },
     margin: { t: 20, b: 50, l: 60, r: 20 },
+    showlegend: false,
     paper_bgcolor: colors.background,
     plot_bgcolor: colors.background,
     shapes: [
@@ -165,12 +190,17 @@ export function DemandChart() {
 
   return (
     <div className="w-full">
-      {/* Timeframe Controls */}
-      <div className="flex justify-end mb-4">
+      {/* Term & Timeframe Controls */}
+      <div className="flex flex-wrap justify-between gap-2 mb-4">
+        <TimeframeButtons
+          options={TERMS}
+          value={term}
+          onChange={onTermChange}
+        />
         <TimeframeButtons
           options={TIMEFRAMES}
           value={timeframe}
-          onChange={setTimeframe}
+          onChange={(t) => onTimeframeChange(t as Timeframe)}
         />
       </div>
 
@@ -191,10 +221,10 @@ export function DemandChart() {
       {/* Stats */}
       {data && (
         <div className="mt-4 grid grid-cols-4 gap-4">
-          <StatBox label="AUCTIONS" value={data.stats.count.toString()} />
-          <StatBox label="AVG RATIO" value={data.stats.avgRatio.toFixed(2)} />
-          <StatBox label="MIN" value={data.stats.minRatio.toFixed(2)} />
-          <StatBox label="BELOW 2.0" value={data.stats.belowThreshold.toString()} variant="danger" />
+          <StatBox label="AUCTIONS" value={data.meta.stats.count.toString()} />
+          <StatBox label="AVG RATIO" value={data.meta.stats.avgRatio.toFixed(2)} />
+          <StatBox label="MIN" value={data.meta.stats.minRatio.toFixed(2)} />
+          <StatBox label="BELOW 2.0" value={data.meta.stats.belowThreshold.toString()} variant="danger" />
         </div>
       )}
     </div>
@@ -10,8 +10,10 @@
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { ChartSkeleton } from './chart-skeleton';
 import { Button } from '@/components/ui/button';
+import { apiGet } from '@/lib/api/client';
 import type { HistoricalDataPoint } from '@/lib/types/treasury';
 
 const Plot = dynamic(() => import('react-plotly.js'), {
@@ -19,23 +21,20 @@ const Plot = dynamic(() => import('react-plotly.js'), {
   loading: () => <ChartSkeleton type="area" className="h-[500px]" />
 });
 
-interface OwnershipResponse {
-  historical: HistoricalDataPoint[];
-}
-
 export function HistoricalChart() {
   const { theme } = useTheme();
+  const { asOf } = useAsOf();
   const [data, setData] = useState<HistoricalDataPoint[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchData() {
+      setLoading(true);
       try {
-        const res = await fetch('/api/ownership');
-        if (!res.ok) throw new Error('Failed to fetch historical data');
-        const ownershipData: OwnershipResponse = await res.json();
-        setData(ownershipData.historical);
+        const ownershipData = await apiGet('/api/ownership', { asOf: asOf ?? undefined });
+        setData(ownershipData.data.historical);
+        setError(null);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error');
       } finally {
@@ -44,7 +43,7 @@ export function HistoricalChart() {
     }
 
     fetchData();
-  }, []);
+  }, [asOf]);
 
   const isDark = theme === 'dark';
 
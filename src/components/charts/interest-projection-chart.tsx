@@ -0,0 +1,175 @@
+'use client';
+
+/**
+ * Interest Projection Chart - Bloomberg Terminal 2.0
+ *
+ * Projected annual interest expense (bars) and weighted average interest
+ * rate (line) as maturing debt is reissued at the latest yield curve.
+ */
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
+import { ChartSkeleton } from './chart-skeleton';
+import { TimeframeButtons } from '@/components/ui/button';
+import { apiGet, type ApiEnvelope } from '@/lib/api/client';
+
+const Plot = dynamic(() => import('react-plotly.js'), {
+  ssr: false,
+  loading: () => <ChartSkeleton type="bar" className="h-[300px]" />
+});
+
+const HORIZONS = ['3y', '5y', '10y'];
+
+export function InterestProjectionChart() {
+  const { theme } = useTheme();
+  const { asOf } = useAsOf();
+  const [horizon, setHorizon] = useState('5y');
+  const [data, setData] = useState<ApiEnvelope<'/api/v1/projections/interest'>['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      try {
+        const json = await apiGet('/api/v1/projections/interest', {
+          years: parseInt(horizon, 10),
+          asOf: asOf ?? undefined,
+        });
+        setData(json.data);
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [horizon, asOf]);
+
+  const isDark = theme === 'dark';
+
+  // Terminal-style colors
+  const colors = {
+    text: isDark ? '#8B99A6' : '#57534E',
+    grid: isDark ? 'rgba(51, 144, 255, 0.1)' : '#E7E5E4',
+    background: 'transparent',
+    title: isDark ? '#E4E8ED' : '#1C1917',
+    current: isDark ? '#64748B' : '#94A3B8',
+    projected: isDark ? '#F87171' : '#DC2626',
+    rate: isDark ? '#FBBF24' : '#F59E0B',
+  };
+
+  if (error) {
+    return (
+      <div className="h-[300px] flex flex-col items-center justify-center border border-border rounded bg-card">
+        <div className="text-destructive font-mono text-sm mb-2">ERROR: FAILED TO LOAD DATA</div>
+        <p className="text-muted-foreground text-xs">{error}</p>
+      </div>
+    );
+  }
+
+  const labels = data ? ['Now', ...data.projection.map(p => `+${p.year}Y`)] : [];
+
+  const plotData: Plotly.Data[] = data ? [
+    {
+      x: labels,
+      y: [data.current.annualInterest, ...data.projection.map(p => p.interestExpense)].map(v => v / 1e9),
+      name: 'Interest Expense',
+      type: 'bar',
+      marker: {
+        color: [colors.current, ...data.projection.map(() => colors.projected)],
+        line: { width: 0 },
+      },
+      hovertemplate: '%{x}: $%{y:.0f}B<extra></extra>',
+    },
+    {
+      x: labels,
+      y: [data.current.averageRate, ...data.projection.map(p => p.averageRate)],
+      name: 'Avg Rate',
+      type: 'scatter',
+      mode: 'lines+markers',
+      yaxis: 'y2',
+      line: { color: colors.rate, width: 2 },
+      hovertemplate: '%{x}: %{y:.2f}%<extra>Avg Rate</extra>',
+    },
+  ] : [];
+
+  const axisFont = { size: 10, family: 'JetBrains Mono, monospace' };
+
+  const layout: Partial<Plotly.Layout> = {
+    bargap: 0.3,
+    yaxis: {
+      title: { text: 'Annual Interest ($B)', font: { size: 11, color: colors.text } },
+      color: colors.text,
+      gridcolor: colors.grid,
+      tickfont: axisFont,
+      rangemode: 'tozero',
+      zeroline: false,
+    },
+    yaxis2: {
+      title: { text: 'Avg Rate (%)', font: { size: 11, color: colors.text } },
+      overlaying: 'y',
+      side: 'right',
+      color: colors.text,
+      showgrid: false,
+      tickfont: axisFont,
+      rangemode: 'tozero',
+      zeroline: false,
+    },
+    xaxis: {
+      type: 'category',
+      color: colors.text,
+      tickfont: axisFont,
+    },
+    margin: { t: 20, b: 50, l: 60, r: 50 },
+    showlegend: false,
+    paper_bgcolor: colors.background,
+    plot_bgcolor: colors.background,
+    hoverlabel: {
+      bgcolor: isDark ? '#1a1f2e' : '#ffffff',
+      bordercolor: isDark ? 'rgba(51, 144, 255, 0.3)' : '#e7e5e4',
+      font: {
+        family: 'JetBrains Mono, monospace',
+        size: 11,
+        color: colors.title,
+      },
+    },
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-[10px] font-mono text-muted-foreground">
+          {data
+            ? `MSPD ${data.assumptions.recordDate} · CURVE ${data.assumptions.curveDate ?? '-'} · REISSUED AT ORIGINAL TERM`
+            : ''}
+        </span>
+        <TimeframeButtons
+          options={HORIZONS}
+          value={horizon}
+          onChange={setHorizon}
+        />
+      </div>
+
+      <div className="h-[300px] chart-container">
+        {loading ? (
+          <ChartSkeleton type="bar" className="h-full" />
+        ) : (
+          <Plot
+            data={plotData}
+            layout={layout}
+            config={{
+              responsive: true,
+              displayModeBar: false,
+              staticPlot: false,
+            }}
+            className="w-full h-full"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
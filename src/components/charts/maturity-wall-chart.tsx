@@ -10,36 +10,29 @@
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { ChartSkeleton } from './chart-skeleton';
 import { Button } from '@/components/ui/button';
-import type { MaturityWallData } from '@/lib/types/treasury';
+import { apiGet, type ApiEnvelope } from '@/lib/api/client';
 
 const Plot = dynamic(() => import('react-plotly.js'), {
   ssr: false,
   loading: () => <ChartSkeleton type="bar" className="h-[400px]" />
 });
 
-interface MaturityResponse {
-  data: MaturityWallData[];
-  meta: {
-    recordDate: string;
-    totalSecuritiesProcessed: number;
-  };
-}
-
 export function MaturityWallChart() {
   const { theme } = useTheme();
-  const [data, setData] = useState<MaturityResponse | null>(null);
+  const { asOf } = useAsOf();
+  const [data, setData] = useState<ApiEnvelope<'/api/maturity-wall'> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchData() {
+      setLoading(true);
       try {
-        const res = await fetch('/api/maturity-wall');
-        if (!res.ok) throw new Error('Failed to fetch maturity data');
-        const maturityData = await res.json();
-        setData(maturityData);
+        setData(await apiGet('/api/maturity-wall', { asOf: asOf ?? undefined }));
+        setError(null);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error');
       } finally {
@@ -48,7 +41,7 @@ export function MaturityWallChart() {
     }
 
     fetchData();
-  }, []);
+  }, [asOf]);
 
   if (loading) {
     return <ChartSkeleton type="bar" className="h-[400px]" />;
@@ -10,26 +10,24 @@
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { ChartSkeleton } from './chart-skeleton';
 import { TimeframeButtons } from '@/components/ui/button';
+import { apiGet } from '@/lib/api/client';
+import type { HealthHistoryPoint, Timeframe } from '@/lib/api/schemas';
 
 const Plot = dynamic(() => import('react-plotly.js'), {
   ssr: false,
   loading: () => <ChartSkeleton type="line" className="h-[400px]" />
 });
 
-const TIMEFRAMES = ['1y', '3y', '5y'];
-
-interface YieldDataPoint {
-  date: string;
-  yield10y: number;
-  realYield10y: number;
-}
+const TIMEFRAMES: Timeframe[] = ['1y', '3y', '5y'];
 
 export function RealYieldChart() {
   const { theme } = useTheme();
-  const [timeframe, setTimeframe] = useState('1y');
-  const [data, setData] = useState<YieldDataPoint[]>([]);
+  const { asOf } = useAsOf();
+  const [timeframe, setTimeframe] = useState<Timeframe>('1y');
+  const [data, setData] = useState<HealthHistoryPoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -37,10 +35,8 @@ export function RealYieldChart() {
     async function fetchData() {
       setLoading(true);
       try {
-        const res = await fetch(`/api/health/history?timeframe=${timeframe}`);
-        if (!res.ok) throw new Error('Failed to fetch yield data');
-        const json = await res.json();
-        setData(json);
+        const json = await apiGet('/api/health/history', { timeframe, asOf: asOf ?? undefined });
+        setData(json.data);
         setError(null);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error');
@@ -49,7 +45,7 @@ export function RealYieldChart() {
       }
     }
     fetchData();
-  }, [timeframe]);
+  }, [timeframe, asOf]);
 
   const isDark = theme === 'dark';
 
@@ -144,7 +140,7 @@ export function RealYieldChart() {
         <TimeframeButtons
           options={TIMEFRAMES}
           value={timeframe}
-          onChange={setTimeframe}
+          onChange={(t) => setTimeframe(t as Timeframe)}
         />
       </div>
 
@@ -0,0 +1,318 @@
+'use client';
+
+/**
+ * Refinancing Scenario Chart - Bloomberg Terminal 2.0
+ *
+ * What-if simulator for the debt stock: yield curve shocks, a bill share
+ * target and a deficit, compared to a baseline as interest cost, WAM and
+ * the maturity wall left at the end of the projection. Scenarios can be
+ * saved by name and re-run against the latest data.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
+import { ChartSkeleton } from './chart-skeleton';
+import { Button, TimeframeButtons } from '@/components/ui/button';
+import { apiGet, apiPost, type ApiEnvelope } from '@/lib/api/client';
+import type { ScenariosResponse } from '@/lib/api/schemas';
+import type { ScenarioParameters } from '@/lib/types/treasury';
+
+const Plot = dynamic(() => import('react-plotly.js'), {
+  ssr: false,
+  loading: () => <ChartSkeleton type="bar" className="h-[350px]" />
+});
+
+const HORIZONS = ['3y', '5y', '10y'];
+const MODES = ['interest', 'wam', 'wall'];
+
+const DEFAULT_PARAMETERS: ScenarioParameters = {
+  years: 5,
+  parallelBps: 0,
+  slopeBps: 0,
+  billShare: null,
+  deficit: 0,
+};
+
+// Numeric inputs (the bill share is blank for reissue at original term)
+const FIELDS = [
+  { key: 'parallelBps', label: 'PARALLEL (BPS)', step: 25 },
+  { key: 'slopeBps', label: '2S10S (BPS)', step: 25 },
+  { key: 'billShare', label: 'BILL SHARE (%)', step: 1 },
+  { key: 'deficit', label: 'DEFICIT ($B/YR)', step: 100 },
+] as const;
+
+type Run = ApiEnvelope<'/api/v1/scenarios/run'>['data'];
+type SavedScenario = ScenariosResponse['data'][number];
+
+export function RefinancingScenarioChart() {
+  const { theme } = useTheme();
+  const { asOf } = useAsOf();
+  const [mode, setMode] = useState('interest');
+  const [draft, setDraft] = useState<ScenarioParameters>(DEFAULT_PARAMETERS);
+  const [applied, setApplied] = useState<{ parameters: ScenarioParameters; name: string | null }>({
+    parameters: DEFAULT_PARAMETERS,
+    name: null,
+  });
+  const [data, setData] = useState<Run | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<SavedScenario[] | null>(null);
+  const [saveName, setSaveName] = useState('');
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+
+  const loadSaved = useCallback(async () => {
+    try {
+      const json = await apiGet('/api/v1/scenarios');
+      setSaved(json.data);
+    } catch {
+      setSaved(null); // Saving needs the database
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSaved();
+  }, [loadSaved]);
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      try {
+        const json = await apiGet('/api/v1/scenarios/run', applied.name
+          ? { scenario: applied.name, asOf: asOf ?? undefined }
+          : { ...applied.parameters, billShare: applied.parameters.billShare ?? undefined, asOf: asOf ?? undefined });
+        setData(json.data);
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [applied, asOf]);
+
+  async function saveScenario() {
+    const name = saveName.trim();
+    if (!name) return;
+    setSaveStatus('SAVING...');
+    try {
+      await apiPost('/api/v1/scenarios', { name, parameters: draft });
+      setSaveStatus(`SAVED ${name.toUpperCase()}`);
+      setApplied({ parameters: draft, name });
+      await loadSaved();
+    } catch (e) {
+      setSaveStatus(e instanceof Error ? e.message : 'Save failed');
+    }
+  }
+
+  function selectScenario(name: string) {
+    const scenario = saved?.find(s => s.name === name);
+    if (!scenario) {
+      setDraft(DEFAULT_PARAMETERS);
+      setApplied({ parameters: DEFAULT_PARAMETERS, name: null });
+      return;
+    }
+    setDraft(scenario.parameters);
+    setSaveName(scenario.name);
+    setApplied({ parameters: scenario.parameters, name: scenario.name });
+  }
+
+  function setField(key: typeof FIELDS[number]['key'], value: string) {
+    const number = value === '' ? null : Number(value);
+    setDraft(d => ({ ...d, [key]: key === 'billShare' ? number : number ?? 0 }));
+  }
+
+  const isDark = theme === 'dark';
+
+  // Terminal-style colors
+  const colors = {
+    text: isDark ? '#8B99A6' : '#57534E',
+    grid: isDark ? 'rgba(51, 144, 255, 0.1)' : '#E7E5E4',
+    background: 'transparent',
+    title: isDark ? '#E4E8ED' : '#1C1917',
+    baseline: isDark ? '#64748B' : '#94A3B8',
+    scenario: isDark ? '#F87171' : '#DC2626',
+  };
+
+  const runs = data ? [
+    { label: 'Baseline', run: data.baseline, color: colors.baseline },
+    { label: applied.name ?? 'Scenario', run: data.scenario, color: colors.scenario },
+  ] as const : [];
+
+  const plotData: Plotly.Data[] = runs.map(({ label, run, color }) => {
+    if (mode === 'interest') {
+      return {
+        x: ['Now', ...run.projection.map(p => `+${p.year}Y`)],
+        y: [run.current.annualInterest, ...run.projection.map(p => p.interestExpense)].map(v => v / 1e9),
+        name: label,
+        type: 'bar',
+        marker: { color, line: { width: 0 } },
+        hovertemplate: `%{x}: $%{y:.0f}B<extra>${label}</extra>`,
+      };
+    }
+    if (mode === 'wam') {
+      return {
+        x: ['Now', ...run.projection.map(p => `+${p.year}Y`)],
+        y: [run.current.wamMonths, ...run.projection.map(p => p.wamMonths)],
+        name: label,
+        type: 'scatter',
+        mode: 'lines+markers',
+        line: { color, width: 2 },
+        hovertemplate: `%{x}: %{y:.1f} months<extra>${label}</extra>`,
+      };
+    }
+    return {
+      x: run.maturityWall.map(w => String(w.year)),
+      y: run.maturityWall.map(w => w.total / 1e12),
+      name: label,
+      type: 'bar',
+      marker: { color, line: { width: 0 } },
+      hovertemplate: `%{x}: $%{y:.2f}T<extra>${label}</extra>`,
+    };
+  });
+
+  const axisFont = { size: 10, family: 'JetBrains Mono, monospace' };
+  const yTitles: Record<string, string> = {
+    interest: 'Annual Interest ($B)',
+    wam: 'WAM (months)',
+    wall: `Maturing After +${data?.parameters.years ?? applied.parameters.years}Y ($T)`,
+  };
+
+  const layout: Partial<Plotly.Layout> = {
+    barmode: 'group',
+    bargap: 0.25,
+    yaxis: {
+      title: { text: yTitles[mode], font: { size: 11, color: colors.text } },
+      color: colors.text,
+      gridcolor: colors.grid,
+      tickfont: axisFont,
+      rangemode: 'tozero',
+      zeroline: false,
+    },
+    xaxis: {
+      type: 'category',
+      color: colors.text,
+      tickfont: axisFont,
+    },
+    margin: { t: 20, b: 50, l: 60, r: 20 },
+    legend: {
+      orientation: 'h',
+      y: -0.15,
+      x: 0.5,
+      xanchor: 'center',
+      font: { size: 10, color: colors.text, family: 'IBM Plex Sans, sans-serif' },
+      bgcolor: 'transparent',
+    },
+    paper_bgcolor: colors.background,
+    plot_bgcolor: colors.background,
+    hoverlabel: {
+      bgcolor: isDark ? '#1a1f2e' : '#ffffff',
+      bordercolor: isDark ? 'rgba(51, 144, 255, 0.3)' : '#e7e5e4',
+      font: {
+        family: 'JetBrains Mono, monospace',
+        size: 11,
+        color: colors.title,
+      },
+    },
+  };
+
+  const inputClass = 'h-6 w-20 px-1 font-mono text-[10px] tabular-nums bg-background border border-border rounded text-foreground focus:outline-none focus:border-primary/50';
+  const finalBaseline = data?.baseline.projection[data.baseline.projection.length - 1];
+  const finalScenario = data?.scenario.projection[data.scenario.projection.length - 1];
+
+  return (
+    <div className="w-full">
+      {/* Scenario Inputs */}
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        {FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-1 font-mono text-[10px] text-muted-foreground">
+            {field.label}
+            <input
+              type="number"
+              step={field.step}
+              value={draft[field.key] ?? ''}
+              placeholder={field.key === 'billShare' ? 'ORIG' : undefined}
+              onChange={(e) => setField(field.key, e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <TimeframeButtons
+          options={HORIZONS}
+          value={`${draft.years}y`}
+          onChange={(h) => setDraft(d => ({ ...d, years: parseInt(h, 10) }))}
+        />
+        <Button variant="terminal" size="sm" onClick={() => setApplied({ parameters: draft, name: null })}>
+          RUN
+        </Button>
+        {saved && (
+          <div className="flex items-end gap-2 ml-auto">
+            <select
+              value={applied.name ?? ''}
+              onChange={(e) => selectScenario(e.target.value)}
+              className="h-6 px-1 font-mono text-[10px] bg-background border border-border rounded text-foreground focus:outline-none focus:border-primary/50"
+            >
+              <option value="">SAVED SCENARIOS</option>
+              {saved.map(s => (
+                <option key={s.name} value={s.name}>{s.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={saveName}
+              maxLength={100}
+              placeholder="NAME"
+              onChange={(e) => setSaveName(e.target.value)}
+              className={`${inputClass} w-28`}
+            />
+            <Button variant="terminal" size="sm" disabled={!saveName.trim()} onClick={saveScenario}>
+              SAVE
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Mode & Summary */}
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-[10px] font-mono text-muted-foreground">
+          {data && finalBaseline && finalScenario
+            ? `MSPD ${data.assumptions.recordDate} · CURVE ${data.assumptions.curveDate} · +${finalScenario.year}Y INTEREST $${(finalScenario.interestExpense / 1e9).toFixed(0)}B VS $${(finalBaseline.interestExpense / 1e9).toFixed(0)}B · WAM ${finalScenario.wamMonths.toFixed(0)}M VS ${finalBaseline.wamMonths.toFixed(0)}M`
+            : ''}
+        </span>
+        <TimeframeButtons
+          options={MODES}
+          value={mode}
+          onChange={setMode}
+        />
+      </div>
+      {saveStatus && (
+        <div className="text-[10px] font-mono text-muted-foreground mb-2">{saveStatus}</div>
+      )}
+
+      {/* Chart */}
+      <div className="h-[350px] chart-container">
+        {error ? (
+          <div className="h-full flex flex-col items-center justify-center border border-border rounded bg-card">
+            <div className="text-destructive font-mono text-sm mb-2">ERROR: FAILED TO LOAD DATA</div>
+            <p className="text-muted-foreground text-xs">{error}</p>
+          </div>
+        ) : loading ? (
+          <ChartSkeleton type="bar" className="h-full" />
+        ) : (
+          <Plot
+            data={plotData}
+            layout={layout}
+            config={{
+              responsive: true,
+              displayModeBar: false,
+              staticPlot: false,
+            }}
+            className="w-full h-full"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,41 +10,31 @@
 import { useEffect, useState, useRef } from 'react';
 import dynamic from 'next/dynamic';
 import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { ChartSkeleton } from './chart-skeleton';
 import { Button } from '@/components/ui/button';
+import { apiGet, type ApiEnvelope } from '@/lib/api/client';
 
 const Plot = dynamic(() => import('react-plotly.js'), {
   ssr: false,
   loading: () => <ChartSkeleton type="sankey" className="h-[500px]" />
 });
 
-interface OwnershipData {
-  sankey: {
-    nodes: string[];
-    nodeColors: string[];
-    nodeValues: number[];
-    links: { source: number; target: number; value: number }[];
-  };
-  meta: {
-    totalDebt: number;
-    totalDebtFormatted: string;
-  };
-}
-
 export function SankeyChart() {
   const { theme } = useTheme();
-  const [data, setData] = useState<OwnershipData | null>(null);
+  const { asOf } = useAsOf();
+  const [data, setData] = useState<ApiEnvelope<'/api/ownership'>['data'] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     async function fetchData() {
+      setLoading(true);
       try {
-        const res = await fetch('/api/ownership');
-        if (!res.ok) throw new Error('Failed to fetch ownership data');
-        const ownershipData = await res.json();
-        setData(ownershipData);
+        const json = await apiGet('/api/ownership', { asOf: asOf ?? undefined });
+        setData(json.data);
+        setError(null);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error');
       } finally {
@@ -53,7 +43,7 @@ export function SankeyChart() {
     }
 
     fetchData();
-  }, []);
+  }, [asOf]);
 
   const isDark = theme === 'dark';
 
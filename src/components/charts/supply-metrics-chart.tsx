@@ -0,0 +1,242 @@
+'use client';
+
+/**
+ * Supply Metrics Chart - Bloomberg Terminal 2.0
+ *
+ * Rollover profile of marketable debt: the history of weighted average
+ * maturity, bill share and the share maturing within 3-24 months, or the
+ * latest snapshot's monthly rollover schedule by security type.
+ */
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
+import { ChartSkeleton } from './chart-skeleton';
+import { TimeframeButtons } from '@/components/ui/button';
+import { apiGet } from '@/lib/api/client';
+import type { Timeframe } from '@/lib/api/schemas';
+import type { SupplyMetrics } from '@/lib/types/treasury';
+
+const Plot = dynamic(() => import('react-plotly.js'), {
+  ssr: false,
+  loading: () => <ChartSkeleton type="line" className="h-[400px]" />
+});
+
+const TIMEFRAMES: Timeframe[] = ['1y', '3y', '5y', '10y'];
+const MODES = ['history', 'rollover'];
+
+// Percent series plotted in history mode
+const SHARES = [
+  { key: 'maturing3m', label: '< 3M' },
+  { key: 'maturing6m', label: '< 6M' },
+  { key: 'maturing12m', label: '< 12M' },
+  { key: 'maturing24m', label: '< 24M' },
+  { key: 'billShare', label: 'Bill Share' },
+] as const;
+
+// Security types stacked in rollover mode
+const TYPES = [
+  { key: 'bills', label: 'Bills' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'bonds', label: 'Bonds' },
+  { key: 'tips', label: 'TIPS' },
+  { key: 'frn', label: 'FRN' },
+] as const;
+
+export function SupplyMetricsChart() {
+  const { theme } = useTheme();
+  const { asOf } = useAsOf();
+  const [timeframe, setTimeframe] = useState<Timeframe>('5y');
+  const [mode, setMode] = useState('history');
+  const [data, setData] = useState<SupplyMetrics[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      try {
+        const json = await apiGet('/api/v1/supply/metrics', { timeframe, asOf: asOf ?? undefined });
+        setData(json.data);
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [timeframe, asOf]);
+
+  const isDark = theme === 'dark';
+
+  // Terminal-style colors
+  const colors = {
+    text: isDark ? '#8B99A6' : '#57534E',
+    grid: isDark ? 'rgba(51, 144, 255, 0.1)' : '#E7E5E4',
+    background: 'transparent',
+    title: isDark ? '#E4E8ED' : '#1C1917',
+    wam: isDark ? '#F87171' : '#DC2626',
+    shares: {
+      maturing3m: isDark ? '#60A5FA' : '#3B82F6',
+      maturing6m: isDark ? '#818CF8' : '#6366F1',
+      maturing12m: isDark ? '#A78BFA' : '#8B5CF6',
+      maturing24m: isDark ? '#C084FC' : '#A855F7',
+      billShare: isDark ? '#FBBF24' : '#F59E0B',
+    },
+    // Security type colors (as in the maturity wall)
+    types: {
+      bills: isDark ? '#60A5FA' : '#94a3b8',
+      notes: isDark ? '#A78BFA' : '#475569',
+      bonds: isDark ? '#818CF8' : '#1e293b',
+      tips: isDark ? '#2DD4BF' : '#14b8a6',
+      frn: isDark ? '#FBBF24' : '#f59e0b',
+    },
+  };
+
+  if (error) {
+    return (
+      <div className="h-[400px] flex flex-col items-center justify-center border border-border rounded bg-card">
+        <div className="text-destructive font-mono text-sm mb-2">ERROR: FAILED TO LOAD DATA</div>
+        <p className="text-muted-foreground text-xs">{error}</p>
+      </div>
+    );
+  }
+
+  const latest = data[data.length - 1];
+  const plotData: Plotly.Data[] = [];
+
+  if (mode === 'history') {
+    for (const share of SHARES) {
+      plotData.push({
+        x: data.map(d => d.date),
+        y: data.map(d => d[share.key]),
+        name: share.label,
+        type: 'scatter',
+        mode: 'lines',
+        line: { color: colors.shares[share.key], width: share.key === 'billShare' ? 2 : 1.5 },
+        hovertemplate: `<b>%{x}</b><br>${share.label}: %{y:.1f}%<extra></extra>`,
+      });
+    }
+    plotData.push({
+      x: data.map(d => d.date),
+      y: data.map(d => d.wamMonths),
+      name: 'WAM (months)',
+      type: 'scatter',
+      mode: 'lines',
+      yaxis: 'y2',
+      line: { color: colors.wam, width: 2, dash: 'dot' },
+      hovertemplate: '<b>%{x}</b><br>WAM: %{y:.1f} months<extra></extra>',
+    });
+  } else if (latest) {
+    for (const type of TYPES) {
+      plotData.push({
+        x: latest.rollover.map(m => m.month),
+        y: latest.rollover.map(m => m[type.key] / 1e9),
+        name: type.label,
+        type: 'bar',
+        marker: { color: colors.types[type.key], line: { width: 0 } },
+        hovertemplate: `%{y:.1f}B<extra>${type.label}</extra>`,
+      });
+    }
+  }
+
+  const axisFont = { size: 10, family: 'JetBrains Mono, monospace' };
+
+  const layout: Partial<Plotly.Layout> = {
+    barmode: 'stack',
+    bargap: 0.15,
+    yaxis: {
+      title: {
+        text: mode === 'history' ? 'Share of Marketable Debt (%)' : 'Amount ($B)',
+        font: { size: 11, color: colors.text }
+      },
+      color: colors.text,
+      gridcolor: colors.grid,
+      gridwidth: 1,
+      tickfont: axisFont,
+      rangemode: 'tozero',
+      zeroline: false,
+    },
+    yaxis2: {
+      title: {
+        text: 'WAM (months)',
+        font: { size: 11, color: colors.text }
+      },
+      overlaying: 'y',
+      side: 'right',
+      color: colors.text,
+      showgrid: false,
+      tickfont: axisFont,
+      zeroline: false,
+      visible: mode === 'history',
+    },
+    xaxis: {
+      title: {
+        text: mode === 'history' ? 'Record Date' : `Maturity Month (as of ${latest?.date ?? '-'})`,
+        font: { size: 11, color: colors.text }
+      },
+      type: mode === 'history' ? 'date' : 'category',
+      color: colors.text,
+      gridcolor: colors.grid,
+      tickfont: axisFont,
+    },
+    margin: { t: 20, b: 60, l: 70, r: mode === 'history' ? 60 : 20 },
+    legend: {
+      orientation: 'h',
+      y: -0.15,
+      x: 0.5,
+      xanchor: 'center',
+      font: { size: 10, color: colors.text, family: 'IBM Plex Sans, sans-serif' },
+      bgcolor: 'transparent',
+    },
+    paper_bgcolor: colors.background,
+    plot_bgcolor: colors.background,
+    hoverlabel: {
+      bgcolor: isDark ? '#1a1f2e' : '#ffffff',
+      bordercolor: isDark ? 'rgba(51, 144, 255, 0.3)' : '#e7e5e4',
+      font: {
+        family: 'JetBrains Mono, monospace',
+        size: 11,
+        color: colors.title,
+      },
+    },
+  };
+
+  return (
+    <div className="w-full">
+      {/* Mode & Timeframe Controls */}
+      <div className="flex justify-end gap-3 mb-4">
+        <TimeframeButtons
+          options={MODES}
+          value={mode}
+          onChange={setMode}
+        />
+        <TimeframeButtons
+          options={TIMEFRAMES}
+          value={timeframe}
+          onChange={(t) => setTimeframe(t as Timeframe)}
+        />
+      </div>
+
+      {/* Chart */}
+      <div className="h-[400px] chart-container">
+        {loading ? (
+          <ChartSkeleton type="line" className="h-full" />
+        ) : (
+          <Plot
+            data={plotData}
+            layout={layout}
+            config={{
+              responsive: true,
+              displayModeBar: false,
+              staticPlot: false,
+            }}
+            className="w-full h-full"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+/**
+ * Yield Curve Chart - Bloomberg Terminal 2.0
+ *
+ * Latest nominal (par) and real (TIPS) yield curves across all tenors,
+ * overlaid with the curves from one month or one year earlier.
+ */
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useTheme } from '@/components/providers/theme-provider';
+import { useAsOf } from '@/components/providers/as-of-provider';
+import { ChartSkeleton } from './chart-skeleton';
+import { TimeframeButtons } from '@/components/ui/button';
+import { apiGet } from '@/lib/api/client';
+import type { YieldCurve } from '@/lib/types/treasury';
+
+const Plot = dynamic(() => import('react-plotly.js'), {
+  ssr: false,
+  loading: () => <ChartSkeleton type="line" className="h-[400px]" />
+});
+
+// Comparison curve offsets (months before the latest curve)
+const COMPARISONS: Record<string, number> = { '1m': 1, '1y': 12 };
+
+// Maturity axis ticks in years
+const TENOR_TICKS = [
+  { years: 1 / 12, label: '1M' },
+  { years: 0.25, label: '3M' },
+  { years: 0.5, label: '6M' },
+  { years: 1, label: '1Y' },
+  { years: 2, label: '2Y' },
+  { years: 3, label: '3Y' },
+  { years: 5, label: '5Y' },
+  { years: 7, label: '7Y' },
+  { years: 10, label: '10Y' },
+  { years: 20, label: '20Y' },
+  { years: 30, label: '30Y' },
+];
+
+/**
+ * Latest curve on or before a date
+ */
+function curveOnOrBefore(curves: YieldCurve[], date: string): YieldCurve | null {
+  for (let i = curves.length - 1; i >= 0; i--) {
+    if (curves[i].date <= date) return curves[i];
+  }
+  return null;
+}
+
+export function YieldCurveChart() {
+  const { theme } = useTheme();
+  const { asOf } = useAsOf();
+  const [comparison, setComparison] = useState('1m');
+  const [curves, setCurves] = useState<YieldCurve[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      try {
+        const end = asOf ?? new Date().toISOString().split('T')[0];
+        const start = new Date(`${end}T00:00:00Z`);
+        start.setUTCMonth(start.getUTCMonth() - 13);
+        const json = await apiGet('/api/yield-curve', { start: start.toISOString().split('T')[0], end });
+        setCurves(json.data);
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [asOf]);
+
+  const isDark = theme === 'dark';
+
+  // Terminal-style colors
+  const colors = {
+    text: isDark ? '#8B99A6' : '#57534E',
+    grid: isDark ? 'rgba(51, 144, 255, 0.1)' : '#E7E5E4',
+    background: 'transparent',
+    title: isDark ? '#E4E8ED' : '#1C1917',
+    nominal: isDark ? '#60A5FA' : '#3B82F6',
+    real: isDark ? '#2DD4BF' : '#14B8A6',
+  };
+
+  if (error) {
+    return (
+      <div className="h-[400px] flex flex-col items-center justify-center border border-border rounded bg-card">
+        <div className="text-destructive font-mono text-sm mb-2">ERROR: FAILED TO LOAD DATA</div>
+        <p className="text-muted-foreground text-xs">{error}</p>
+      </div>
+    );
+  }
+
+  const latest = curves.length > 0 ? curves[curves.length - 1] : null;
+  let previous: YieldCurve | null = null;
+  if (latest) {
+    const target = new Date(latest.date);
+    target.setMonth(target.getMonth() - COMPARISONS[comparison]);
+    previous = curveOnOrBefore(curves, target.toISOString().split('T')[0]);
+  }
+
+  const plotData: Plotly.Data[] = [];
+  const addCurve = (curve: YieldCurve, dashed: boolean) => {
+    const suffix = dashed ? ` (${curve.date})` : '';
+    plotData.push(
+      {
+        x: curve.nominal.map(p => p.months / 12),
+        y: curve.nominal.map(p => p.yield),
+        text: curve.nominal.map(p => p.tenor),
+        name: `Nominal${suffix}`,
+        type: 'scatter',
+        mode: 'lines+markers',
+        line: { color: colors.nominal, width: 2, dash: dashed ? 'dot' : 'solid' },
+        marker: { size: dashed ? 4 : 6 },
+        opacity: dashed ? 0.6 : 1,
+        hovertemplate: `<b>%{text}</b><br>Nominal${suffix}: %{y:.2f}%<extra></extra>`,
+      },
+      {
+        x: curve.real.map(p => p.months / 12),
+        y: curve.real.map(p => p.yield),
+        text: curve.real.map(p => p.tenor),
+        name: `Real (TIPS)${suffix}`,
+        type: 'scatter',
+        mode: 'lines+markers',
+        line: { color: colors.real, width: 2, dash: dashed ? 'dot' : 'solid' },
+        marker: { size: dashed ? 4 : 6 },
+        opacity: dashed ? 0.6 : 1,
+        hovertemplate: `<b>%{text}</b><br>Real${suffix}: %{y:.2f}%<extra></extra>`,
+      }
+    );
+  };
+  if (previous && previous !== latest) addCurve(previous, true);
+  if (latest) addCurve(latest, false);
+
+  const layout: Partial<Plotly.Layout> = {
+    yaxis: {
+      title: {
+        text: 'Yield (%)',
+        font: { size: 11, color: colors.text }
+      },
+      color: colors.text,
+      gridcolor: colors.grid,
+      gridwidth: 1,
+      tickfont: { size: 10, family: 'JetBrains Mono, monospace' },
+      zeroline: true,
+      zerolinecolor: isDark ? 'rgba(255, 255, 255, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+    },
+    xaxis: {
+      title: {
+        text: latest ? `Maturity (curve as of ${latest.date})` : 'Maturity',
+        font: { size: 11, color: colors.text }
+      },
+      type: 'log',
+      tickvals: TENOR_TICKS.map(t => t.years),
+      ticktext: TENOR_TICKS.map(t => t.label),
+      color: colors.text,
+      gridcolor: colors.grid,
+      tickfont: { size: 10, family: 'JetBrains Mono, monospace' },
+    },
+    margin: { t: 20, b: 60, l: 60, r: 20 },
+    legend: {
+      orientation: 'h',
+      y: -0.2,
+      x: 0.5,
+      xanchor: 'center',
+      font: { size: 10, color: colors.text, family: 'IBM Plex Sans, sans-serif' },
+      bgcolor: 'transparent',
+    },
+    paper_bgcolor: colors.background,
+    plot_bgcolor: colors.background,
+    hoverlabel: {
+      bgcolor: isDark ? '#1a1f2e' : '#ffffff',
+      bordercolor: isDark ? 'rgba(51, 144, 255, 0.3)' : '#e7e5e4',
+      font: {
+        family: 'JetBrains Mono, monospace',
+        size: 11,
+        color: colors.title,
+      },
+    },
+  };
+
+  return (
+    <div className="w-full">
+      {/* Comparison Controls */}
+      <div className="flex items-center justify-end gap-3 mb-4">
+        <span className="text-[10px] text-muted-foreground uppercase tracking-wider">Compare vs</span>
+        <TimeframeButtons
+          options={Object.keys(COMPARISONS)}
+          value={comparison}
+          onChange={setComparison}
+        />
+      </div>
+
+      {/* Chart */}
+      <div className="h-[400px] chart-container">
+        {loading ? (
+          <ChartSkeleton type="line" className="h-full" />
+        ) : !latest ? (
+          <div className="h-full flex items-center justify-center text-muted-foreground text-xs font-mono">
+            NO YIELD CURVE DATA
+          </div>
+        ) : (
+          <Plot
+            data={plotData}
+            layout={layout}
+            config={{
+              responsive: true,
+              displayModeBar: false,
+              staticPlot: false,
+            }}
+            className="w-full h-full"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
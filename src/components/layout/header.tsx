@@ -4,16 +4,13 @@
  * Header Ticker Component - Bloomberg Terminal 2.0
  *
  * Professional financial terminal header with real-time data ticker,
- * status indicators, and system time display.
+ * status indicators, the global as-of date picker, and system time display.
  */
 
 import { useEffect, useState } from 'react';
-
-interface DebtData {
-  totalDebt: number;
-  totalDebtFormatted: string;
-  lastUpdated: string;
-}
+import { useAsOf } from '@/components/providers/as-of-provider';
+import { apiGet } from '@/lib/api/client';
+import type { DebtSummary } from '@/lib/types/treasury';
 
 interface TickerItem {
   label: string;
@@ -24,7 +21,8 @@ interface TickerItem {
 }
 
 export function Header() {
-  const [debtData, setDebtData] = useState<DebtData | null>(null);
+  const { asOf, setAsOf } = useAsOf();
+  const [debtData, setDebtData] = useState<DebtSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
   const [currentTime, setCurrentTime] = useState<string>('');
@@ -32,10 +30,9 @@ export function Header() {
   useEffect(() => {
     async function fetchDebt() {
       try {
-        const res = await fetch('/api/debt');
-        if (!res.ok) throw new Error('Failed to fetch');
-        const data = await res.json();
-        setDebtData(data);
+        const json = await apiGet('/api/debt', { asOf: asOf ?? undefined });
+        setDebtData(json.data);
+        setError(false);
       } catch (e) {
         console.error('Failed to fetch debt:', e);
         setError(true);
@@ -45,7 +42,7 @@ export function Header() {
     }
 
     fetchDebt();
-  }, []);
+  }, [asOf]);
 
   // Update time every second
   useEffect(() => {
@@ -64,11 +61,13 @@ export function Header() {
     return () => clearInterval(interval);
   }, []);
 
+  const today = new Date().toISOString().split('T')[0];
+
   const tickerItems: TickerItem[] = [
     {
-      label: 'US TOTAL DEBT',
+      label: asOf ? `US TOTAL DEBT ${debtData?.lastUpdated ?? ''}`.trim() : 'US TOTAL DEBT',
       value: loading ? '---' : error ? 'OFFLINE' : debtData?.totalDebtFormatted || '---',
-      live: !error && !loading,
+      live: !error && !loading && !asOf,
     },
     {
       label: 'FED HOLDINGS',
@@ -129,11 +128,37 @@ export function Header() {
 
       {/* Right section - System info */}
       <div className="flex items-center gap-4 px-4 h-full border-l border-border bg-muted/30">
+        {/* As-of date picker (empty = live) */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="as-of-date" className="font-mono text-[10px] text-muted-foreground">
+            AS OF
+          </label>
+          <input
+            id="as-of-date"
+            type="date"
+            value={asOf ?? ''}
+            max={today}
+            onChange={(e) => setAsOf(e.target.value || null)}
+            className="h-6 px-1 font-mono text-[10px] tabular-nums bg-background border border-border rounded text-foreground focus:outline-none focus:border-primary/50"
+          />
+          {asOf && (
+            <button
+              onClick={() => setAsOf(null)}
+              className="font-mono text-[10px] text-muted-foreground hover:text-foreground"
+            >
+              CLEAR
+            </button>
+          )}
+        </div>
+
+        {/* Separator */}
+        <div className="w-px h-4 bg-border" />
+
         {/* API Status */}
         <div className="flex items-center gap-2">
-          <div className={`w-1.5 h-1.5 rounded-full ${error ? 'bg-destructive' : 'bg-green-500 status-live'}`} />
+          <div className={`w-1.5 h-1.5 rounded-full ${error ? 'bg-destructive' : asOf ? 'bg-amber-500' : 'bg-green-500 status-live'}`} />
           <span className="font-mono text-[10px] text-muted-foreground">
-            {error ? 'OFFLINE' : 'LIVE'}
+            {error ? 'OFFLINE' : asOf ? 'HISTORICAL' : 'LIVE'}
           </span>
         </div>
 
@@ -0,0 +1,45 @@
+'use client';
+
+/**
+ * As-Of Date Provider
+ *
+ * Holds the dashboard-wide as-of date picked in the header. Views pass it
+ * to the API as `asOf` so every panel shows the latest data on or before
+ * that date; null means live (latest available).
+ */
+
+import { createContext, useContext, useMemo, useState } from 'react';
+
+interface AsOfContextType {
+  asOf: string | null; // YYYY-MM-DD
+  setAsOf: (asOf: string | null) => void;
+}
+
+const AsOfContext = createContext<AsOfContextType | undefined>(undefined);
+
+export function AsOfProvider({ children }: { children: React.ReactNode }) {
+  const [asOf, setAsOf] = useState<string | null>(null);
+  const value = useMemo(() => ({ asOf, setAsOf }), [asOf]);
+
+  return (
+    <AsOfContext.Provider value={value}>
+      {children}
+    </AsOfContext.Provider>
+  );
+}
+
+export function useAsOf() {
+  const context = useContext(AsOfContext);
+  if (context === undefined) {
+    throw new Error('useAsOf must be used within an AsOfProvider');
+  }
+  return context;
+}
+
+/**
+ * Append the as-of date to an API path (unchanged when live)
+ */
+export function withAsOf(path: string, asOf: string | null): string {
+  if (!asOf) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}asOf=${asOf}`;
+}
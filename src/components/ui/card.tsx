@@ -1,6 +1,7 @@
 import * as React from "react"
 
 import { cn } from "@/lib/utils"
+import { ExportButton } from "@/components/ui/export-button"
 
 interface CardProps extends React.ComponentProps<"div"> {
   variant?: "default" | "terminal" | "metric" | "glass";
@@ -182,10 +183,11 @@ interface DataPanelProps extends React.ComponentProps<"div"> {
   title: string;
   subtitle?: string;
   status?: "live" | "static" | "error";
+  exportPath?: string; // API path offered as CSV/XLSX/JSONL/JSON downloads
   children: React.ReactNode;
 }
 
-function DataPanel({ className, title, subtitle, status, children, ...props }: DataPanelProps) {
+function DataPanel({ className, title, subtitle, status, exportPath, children, ...props }: DataPanelProps) {
   return (
     <Card variant="terminal" className={className} {...props}>
       <CardHeader className="flex-row items-center justify-between">
@@ -203,16 +205,19 @@ function DataPanel({ className, title, subtitle, status, children, ...props }: D
             {subtitle && <CardDescription className="mt-0.5">{subtitle}</CardDescription>}
           </div>
         </div>
-        {status && (
-          <span className={cn(
-            "text-[10px] font-mono font-medium px-2 py-0.5 rounded",
-            status === "live" && "bg-green-500/10 text-green-500",
-            status === "static" && "bg-amber-500/10 text-amber-500",
-            status === "error" && "bg-red-500/10 text-red-500"
-          )}>
-            {status.toUpperCase()}
-          </span>
-        )}
+        <div className="flex items-center gap-2">
+          {exportPath && <ExportButton path={exportPath} />}
+          {status && (
+            <span className={cn(
+              "text-[10px] font-mono font-medium px-2 py-0.5 rounded",
+              status === "live" && "bg-green-500/10 text-green-500",
+              status === "static" && "bg-amber-500/10 text-amber-500",
+              status === "error" && "bg-red-500/10 text-red-500"
+            )}>
+              {status.toUpperCase()}
+            </span>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         {children}
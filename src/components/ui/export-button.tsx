@@ -0,0 +1,53 @@
+"use client"
+
+import * as React from "react"
+import { Download } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { useAsOf, withAsOf } from "@/components/providers/as-of-provider"
+import type { ExportFormat } from "@/lib/api/schemas"
+
+// Download formats offered, in menu order (see src/lib/export.ts)
+const EXPORT_OPTIONS: ExportFormat[] = ["csv", "xlsx", "jsonl", "json"]
+
+interface ExportButtonProps {
+  path: string // API path, e.g. /api/v1/auctions?timeframe=1y
+  className?: string
+}
+
+function ExportButton({ path, className }: ExportButtonProps) {
+  const { asOf } = useAsOf()
+  const [open, setOpen] = React.useState(false)
+
+  const href = (format: string) =>
+    withAsOf(`${path}${path.includes("?") ? "&" : "?"}format=${format}`, asOf)
+
+  return (
+    <div className={cn("relative", className)}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-2 py-1 text-[10px] font-mono font-medium rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-all"
+      >
+        <Download className="size-3" />
+        EXPORT
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-20 flex flex-col min-w-20 p-0.5 bg-card border border-border rounded shadow-lg">
+          {EXPORT_OPTIONS.map((format) => (
+            <a
+              key={format}
+              href={href(format)}
+              download
+              onClick={() => setOpen(false)}
+              className="px-2 py-1 text-[10px] font-mono font-medium rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+            >
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export { ExportButton }
@@ -70,6 +70,7 @@ export function CompositionView() {
         title="Ownership Flow Diagram"
         subtitle="Treasury liabilities to holder categories"
         status="live"
+        exportPath="/api/v1/ownership"
       >
         <SankeyChart />
       </DataPanel>
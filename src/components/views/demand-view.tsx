@@ -5,14 +5,32 @@
  *
  * Auction demand analysis with bid-to-cover ratios,
  * bidder composition, and market sentiment indicators.
+ * Chart selections are held here so each panel exports what it shows.
  */
 
+import { useState } from 'react';
 import { DataPanel, Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge, StatusBadge } from '@/components/ui/badge';
-import { DemandChart } from '@/components/charts/demand-chart';
-import { BidderChart } from '@/components/charts/bidder-chart';
+import { DemandChart, DEMAND_TYPES } from '@/components/charts/demand-chart';
+import { BidderChart, BIDDER_TYPES } from '@/components/charts/bidder-chart';
+import { AuctionTailChart, TAIL_TYPES } from '@/components/charts/auction-tail-chart';
+import type { Timeframe } from '@/lib/api/schemas';
+
+/**
+ * /api/v1/auctions export path for a chart's selection
+ */
+function auctionsExportPath(timeframe: Timeframe, types: string, terms?: string): string {
+  const params = new URLSearchParams({ timeframe, types });
+  if (terms) params.set('terms', terms);
+  return `/api/v1/auctions?${params}`;
+}
 
 export function DemandView() {
+  const [demandTimeframe, setDemandTimeframe] = useState<Timeframe>('1y');
+  const [demandTerm, setDemandTerm] = useState('ALL');
+  const [bidderTimeframe, setBidderTimeframe] = useState<Timeframe>('3y');
+  const [tailTimeframe, setTailTimeframe] = useState<Timeframe>('1y');
+
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Header */}
@@ -98,9 +116,15 @@ export function DemandView() {
           title="Bid-to-Cover Ratio Timeline"
           subtitle="All security types"
           status="live"
+          exportPath={auctionsExportPath(demandTimeframe, DEMAND_TYPES, demandTerm === 'ALL' ? undefined : demandTerm)}
           className="lg:col-span-3"
         >
-          <DemandChart />
+          <DemandChart
+            timeframe={demandTimeframe}
+            onTimeframeChange={setDemandTimeframe}
+            term={demandTerm}
+            onTermChange={setDemandTerm}
+          />
         </DataPanel>
 
         {/* Bidder Composition Chart */}
@@ -108,6 +132,7 @@ export function DemandView() {
           title="Bidder Composition Analysis"
           subtitle="Who is buying the debt?"
           status="live"
+          exportPath={auctionsExportPath(bidderTimeframe, BIDDER_TYPES)}
           className="lg:col-span-3"
         >
           <div className="mb-4 flex items-center gap-4 text-xs">
@@ -124,7 +149,18 @@ export function DemandView() {
               <span className="text-muted-foreground">Primary Dealers</span>
             </div>
           </div>
-          <BidderChart />
+          <BidderChart timeframe={bidderTimeframe} onTimeframeChange={setBidderTimeframe} />
+        </DataPanel>
+
+        {/* Auction Tails */}
+        <DataPanel
+          title="Auction Tails"
+          subtitle="High yield vs same-day secondary market yield at the tenor (bps)"
+          status="live"
+          exportPath={auctionsExportPath(tailTimeframe, TAIL_TYPES)}
+          className="lg:col-span-4"
+        >
+          <AuctionTailChart timeframe={tailTimeframe} onTimeframeChange={setTailTimeframe} />
         </DataPanel>
       </div>
 
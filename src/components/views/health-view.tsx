@@ -8,26 +8,28 @@
  */
 
 import { useEffect, useState } from 'react';
+import { useAsOf } from '@/components/providers/as-of-provider';
 import { MetricCard, DataPanel, Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge, StatusBadge } from '@/components/ui/badge';
 import { ChartSkeleton } from '@/components/charts/chart-skeleton';
+import { InterestProjectionChart } from '@/components/charts/interest-projection-chart';
+import { apiGet } from '@/lib/api/client';
 import type { HealthMetrics } from '@/lib/types/treasury';
 
 export function HealthView() {
+  const { asOf } = useAsOf();
   const [data, setData] = useState<HealthMetrics | null>(null);
+  const [projectedChange, setProjectedChange] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
 
   useEffect(() => {
     async function fetchData() {
+      setLoading(true);
       try {
-        const res = await fetch('/api/health');
-        if (res.ok) {
-          const json = await res.json();
-          setData(json);
-        } else {
-          setError(true);
-        }
+        const json = await apiGet('/api/health', { asOf: asOf ?? undefined });
+        setData(json.data);
+        setError(false);
       } catch (e) {
         console.error(e);
         setError(true);
@@ -36,7 +38,18 @@ export function HealthView() {
       }
     }
     fetchData();
-  }, []);
+  }, [asOf]);
+
+  // Projected change in annual interest cost over the next year
+  useEffect(() => {
+    apiGet('/api/v1/projections/interest', { years: 1, asOf: asOf ?? undefined })
+      .then(({ data: { current, projection } }) => {
+        setProjectedChange(current.annualInterest > 0 && projection[0]
+          ? (projection[0].interestExpense / current.annualInterest - 1) * 100
+          : null);
+      })
+      .catch(() => setProjectedChange(null));
+  }, [asOf]);
 
   if (loading) {
     return (
@@ -92,8 +105,10 @@ export function HealthView() {
           label="Interest Expense (Annual)"
           value={`$${(data.interestExpense! / 1e9).toFixed(0)}B`}
           color={interestStatus}
-          delta="YoY +18%"
-          deltaType="negative"
+          delta={projectedChange !== null
+            ? `1Y PROJ ${projectedChange >= 0 ? '+' : ''}${projectedChange.toFixed(1)}%`
+            : undefined}
+          deltaType={projectedChange !== null && projectedChange < 0 ? 'positive' : 'negative'}
           icon={
             <svg className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -220,6 +235,15 @@ export function HealthView() {
         </DataPanel>
       </div>
 
+      {/* Interest Expense Projection */}
+      <DataPanel
+        title="Interest Expense Projection"
+        subtitle="Maturing Debt Reissued at the Latest Yield Curve"
+        status="live"
+      >
+        <InterestProjectionChart />
+      </DataPanel>
+
       {/* Context Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <Card variant="terminal">
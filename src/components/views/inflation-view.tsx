@@ -10,6 +10,7 @@
 import { DataPanel, Card, CardContent, CardHeader, CardTitle, CardDescription, MetricCard } from '@/components/ui/card';
 import { Badge, StatusBadge } from '@/components/ui/badge';
 import { RealYieldChart } from '@/components/charts/real-yield-chart';
+import { YieldCurveChart } from '@/components/charts/yield-curve-chart';
 import { BreakevenChart } from '@/components/charts/breakeven-chart';
 
 export function InflationView() {
@@ -67,11 +68,21 @@ export function InflationView() {
 
       {/* Charts Grid */}
       <div className="grid grid-cols-1 gap-6">
-        {/* Real Yields Chart */}
+        {/* Yield Curves Chart */}
         <DataPanel
           title="Nominal vs Real Yield Curves"
-          subtitle="Treasury yields across the curve"
+          subtitle="Treasury par and TIPS real yields across all tenors"
+          status="live"
+        >
+          <YieldCurveChart />
+        </DataPanel>
+
+        {/* Real Yields Chart */}
+        <DataPanel
+          title="10Y Nominal vs Real Yields"
+          subtitle="Daily 10-year yields over time"
           status="live"
+          exportPath="/api/v1/health/history?timeframe=10y"
         >
           <div className="mb-4 flex items-center gap-6 text-xs">
             <div className="flex items-center gap-2">
@@ -89,7 +100,7 @@ export function InflationView() {
         {/* Breakeven Chart */}
         <DataPanel
           title="Inflation Breakeven Rates"
-          subtitle="Market-implied inflation expectations"
+          subtitle="Market-implied inflation expectations, 5Y-30Y and 5y5y forward"
           status="live"
         >
           <BreakevenChart />
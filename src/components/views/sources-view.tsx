@@ -7,8 +7,16 @@
  * with status monitoring and refresh schedules.
  */
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, DataPanel } from '@/components/ui/card';
 import { Badge, StatusBadge } from '@/components/ui/badge';
+import { apiGet, type ApiEnvelope } from '@/lib/api/client';
+
+const SEVERITY_VARIANTS = {
+  error: 'destructive',
+  warning: 'warning',
+  info: 'secondary',
+} as const;
 
 const DATA_SOURCES = [
   {
@@ -72,6 +80,128 @@ const DATA_SOURCES = [
   },
 ];
 
+/**
+ * Severity badge for a data quality rule
+ */
+function SeverityBadge({ severity }: { severity: string }) {
+  const variant = SEVERITY_VARIANTS[severity as keyof typeof SEVERITY_VARIANTS] ?? 'secondary';
+  return <Badge variant={variant}>{severity.toUpperCase()}</Badge>;
+}
+
+/**
+ * Data quality rule results from /api/data-quality
+ */
+function DataQualityPanel() {
+  const [data, setData] = useState<ApiEnvelope<'/api/data-quality'>['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const json = await apiGet('/api/data-quality', { limit: 25 });
+        setData(json.data);
+      } catch (e) {
+        console.error(e);
+        setError(true);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, []);
+
+  const totalViolations = data?.summary.reduce((total, s) => total + s.count, 0) ?? 0;
+  const failingRules = new Map(data?.summary.map(s => [s.ruleId, s]) ?? []);
+
+  return (
+    <DataPanel
+      title="Data Quality"
+      subtitle="Rule checks run on every ingest (last 12 months)"
+      status={error ? 'error' : 'live'}
+    >
+      {loading ? (
+        <div className="h-40 rounded skeleton-shimmer" />
+      ) : error || !data ? (
+        <p className="text-xs text-destructive font-mono">ERROR: FAILED TO LOAD DATA QUALITY REPORT</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center gap-4 text-xs">
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Rules:</span>
+              <Badge variant="terminal">{data.rules.length}</Badge>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Violations:</span>
+              <Badge variant={totalViolations > 0 ? 'warning' : 'success'}>{totalViolations}</Badge>
+            </div>
+          </div>
+
+          {/* Rules Table */}
+          <div className="border border-border rounded overflow-hidden">
+            <table className="data-table text-xs">
+              <thead>
+                <tr>
+                  <th>RULE</th>
+                  <th>DATASET</th>
+                  <th>SEVERITY</th>
+                  <th>VIOLATIONS</th>
+                  <th>LATEST</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.rules.map((rule) => {
+                  const failing = failingRules.get(rule.id);
+                  return (
+                    <tr key={rule.id}>
+                      <td>
+                        <div className="font-mono text-primary">{rule.id}</div>
+                        <div className="text-muted-foreground">{rule.description}</div>
+                      </td>
+                      <td className="font-mono">{rule.dataset}</td>
+                      <td><SeverityBadge severity={rule.severity} /></td>
+                      <td className={failing ? 'font-mono text-amber-500' : 'font-mono text-green-500'}>
+                        {failing?.count ?? 0}
+                      </td>
+                      <td className="font-mono text-muted-foreground">{failing?.latestRecordDate ?? '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Recent Violations */}
+          {data.violations.length > 0 && (
+            <div className="border border-border rounded overflow-hidden">
+              <table className="data-table text-xs">
+                <thead>
+                  <tr>
+                    <th>DATE</th>
+                    <th>RECORD</th>
+                    <th>RULE</th>
+                    <th>DETAIL</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.violations.map((v) => (
+                    <tr key={`${v.ruleId}:${v.recordKey}`}>
+                      <td className="font-mono">{v.recordDate}</td>
+                      <td className="font-mono text-primary">{v.recordKey}</td>
+                      <td><SeverityBadge severity={v.severity} /> <span className="font-mono">{v.ruleId}</span></td>
+                      <td className="text-muted-foreground">{v.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </DataPanel>
+  );
+}
+
 export function SourcesView() {
   return (
     <div className="space-y-6 animate-fade-in">
@@ -168,6 +298,9 @@ export function SourcesView() {
         ))}
       </div>
 
+      {/* Data Quality */}
+      <DataQualityPanel />
+
       {/* Rate Limits */}
       <Card variant="terminal">
         <CardHeader>
@@ -234,11 +367,22 @@ export function SourcesView() {
         <CardContent>
           <div className="space-y-2">
             {[
-              { method: 'GET', path: '/api/debt', desc: 'Current debt totals' },
-              { method: 'GET', path: '/api/health', desc: 'Fiscal health metrics' },
-              { method: 'GET', path: '/api/maturity-wall', desc: 'Maturity wall data' },
-              { method: 'GET', path: '/api/auctions', desc: 'Auction demand data' },
-              { method: 'GET', path: '/api/ownership', desc: 'Debt ownership composition' },
+              { method: 'GET', path: '/api/v1/debt', desc: 'Current debt totals' },
+              { method: 'GET', path: '/api/v1/health', desc: 'Fiscal health metrics' },
+              { method: 'GET', path: '/api/v1/maturity-wall', desc: 'Maturity wall data' },
+              { method: 'GET', path: '/api/v1/supply/metrics', desc: 'WAM, rollover shares and monthly schedule' },
+              { method: 'GET', path: '/api/v1/auctions', desc: 'Auction demand data' },
+              { method: 'GET', path: '/api/v1/ownership', desc: 'Debt ownership composition' },
+              { method: 'GET', path: '/api/v1/yield-curve', desc: 'Nominal and real yield curves' },
+              { method: 'GET', path: '/api/v1/yield-curve/fitted', desc: 'Fitted curve, zeros and forwards' },
+              { method: 'GET', path: '/api/v1/inflation/breakevens', desc: 'Breakeven inflation term structure' },
+              { method: 'GET', path: '/api/v1/projections/interest', desc: 'Interest expense projection' },
+              { method: 'GET', path: '/api/v1/scenarios/run', desc: 'Refinancing scenario vs baseline' },
+              { method: 'POST', path: '/api/v1/scenarios', desc: 'Save a refinancing scenario by name' },
+              { method: 'GET', path: '/api/v1/series', desc: 'Any stored metric as a resampled series' },
+              { method: 'GET', path: '/api/data-quality', desc: 'Data quality rule violations' },
+              { method: 'GET', path: '/api/revisions', desc: 'Revisions to ingested figures' },
+              { method: 'GET', path: '/api/openapi.json', desc: 'OpenAPI document for the data endpoints' },
               { method: 'POST', path: '/api/chat', desc: 'AI analysis endpoint' },
             ].map((api) => (
               <div key={api.path} className="flex items-center gap-3 py-2 border-b border-border/30 last:border-0 text-xs">
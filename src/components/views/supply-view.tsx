@@ -10,6 +10,8 @@
 import { DataPanel, Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge, StatusBadge } from '@/components/ui/badge';
 import { MaturityWallChart } from '@/components/charts/maturity-wall-chart';
+import { SupplyMetricsChart } from '@/components/charts/supply-metrics-chart';
+import { RefinancingScenarioChart } from '@/components/charts/refinancing-scenario-chart';
 
 export function SupplyView() {
   return (
@@ -37,10 +39,30 @@ export function SupplyView() {
         title="Debt Maturity Schedule"
         subtitle="Next 10 Years Refinancing Requirements"
         status="live"
+        exportPath="/api/v1/maturity-wall"
       >
         <MaturityWallChart />
       </DataPanel>
 
+      {/* Rollover Metrics */}
+      <DataPanel
+        title="Rollover Profile"
+        subtitle="WAM, Bill Share & Debt Maturing Within 3-24 Months; Monthly Rollover Schedule"
+        status="live"
+        exportPath="/api/v1/supply/metrics"
+      >
+        <SupplyMetricsChart />
+      </DataPanel>
+
+      {/* Refinancing Scenarios */}
+      <DataPanel
+        title="Refinancing Scenarios"
+        subtitle="Rate Shocks, Bill Share Target & Deficit vs Baseline: Interest Cost, WAM & Maturity Wall"
+        status="live"
+      >
+        <RefinancingScenarioChart />
+      </DataPanel>
+
       {/* Insight Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card variant="terminal">
@@ -0,0 +1,67 @@
+/**
+ * Auction Tails
+ *
+ * Compares a coupon auction's high yield with the secondary-market yield
+ * for its tenor on the auction date, linearly interpolated between the
+ * published tenors of that day's par curve (the real curve for TIPS). A
+ * positive difference is a tail (the auction cleared cheaper than the
+ * market), a negative one stopped through.
+ *
+ * Approximate: the curve is the end-of-day close while results come out
+ * at 1pm, and it is compared with the high yield rather than the
+ * when-issued yield.
+ */
+
+import type { CleanedAuction, YieldCurve } from '../types/treasury';
+import { linearInterpolator } from './interpolation';
+
+// Auctions with a high yield comparable to a par curve
+export const TAIL_SECURITY_TYPES: readonly CleanedAuction['securityType'][] = ['NOTE', 'BOND', 'TIPS'];
+
+const DAY_MS = 86400000;
+const DAYS_PER_YEAR = 365.25;
+
+export type TailInput = Pick<
+  CleanedAuction,
+  'auctionDate' | 'issueDate' | 'maturityDate' | 'securityType' | 'securityTerm' | 'highYield'
+>;
+
+export interface AuctionTail {
+  marketYield: number; // Percent
+  tailBps: number;
+}
+
+/**
+ * Years to maturity of the auctioned security: from issue (or the auction)
+ * to maturity, else parsed from a term like "9-Year 10-Month"
+ */
+export function auctionTenorYears(auction: TailInput): number | null {
+  if (auction.maturityDate) {
+    const from = auction.issueDate ?? auction.auctionDate;
+    const years = (Date.parse(`${auction.maturityDate}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS / DAYS_PER_YEAR;
+    if (years > 0) return years;
+  }
+
+  const years = auction.securityTerm?.match(/(\d+)-Year/i);
+  const months = auction.securityTerm?.match(/(\d+)-Month/i);
+  if (!years && !months) return null;
+  return (years ? parseInt(years[1], 10) : 0) + (months ? parseInt(months[1], 10) / 12 : 0);
+}
+
+/**
+ * Tail of one auction against the auction-day curve; null for bills and
+ * FRNs, or without a high yield, a tenor or enough curve points
+ */
+export function computeAuctionTail(auction: TailInput, curve: YieldCurve | undefined): AuctionTail | null {
+  if (!TAIL_SECURITY_TYPES.includes(auction.securityType) || auction.highYield === null || !curve) return null;
+
+  const points = auction.securityType === 'TIPS' ? curve.real : curve.nominal;
+  const years = auctionTenorYears(auction);
+  if (years === null || points.length < 2) return null;
+
+  const marketYield = linearInterpolator(points.map(p => p.months), points.map(p => p.yield))(years * 12);
+  return {
+    marketYield: Math.round(marketYield * 1e5) / 1e5,
+    tailBps: Math.round((auction.highYield - marketYield) * 1000) / 10,
+  };
+}
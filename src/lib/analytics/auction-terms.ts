@@ -0,0 +1,161 @@
+/**
+ * Auction Terms
+ *
+ * Maps the free-text security term of an auction to the benchmark it
+ * belongs to, so reopenings ("9-Year 10-Month") group with the original
+ * issue ("10-Year"), and derives per-term history: whether an auction
+ * reopened an earlier CUSIP, and rolling averages over the previous
+ * auctions of the same security type and benchmark term.
+ */
+
+import type { CleanedAuction } from '../types/treasury';
+import { auctionTenorYears } from './auction-tails';
+
+// Benchmark terms auctioned for each security type (CMBs have none)
+export const BENCHMARK_TERMS: Record<CleanedAuction['securityType'], readonly string[]> = {
+  BILL: ['4W', '6W', '8W', '13W', '17W', '26W', '52W'],
+  NOTE: ['2Y', '3Y', '5Y', '7Y', '10Y'],
+  BOND: ['20Y', '30Y'],
+  TIPS: ['5Y', '10Y', '30Y'],
+  FRN: ['2Y'],
+  CMB: [],
+};
+
+export const AUCTION_TERMS = [
+  '4W', '6W', '8W', '13W', '17W', '26W', '52W',
+  '2Y', '3Y', '5Y', '7Y', '10Y', '20Y', '30Y',
+] as const;
+
+// Previous auctions of the same term averaged for comparison
+export const ROLLING_AUCTIONS = 6;
+
+// History loaded before a window so its first auctions have a full rolling
+// window (30Y TIPS auction three times a year) and reopenings see the
+// original issue
+export const TERM_HISTORY_YEARS = 3;
+
+const DAY_MS = 86400000;
+const WEEKS_PER_YEAR = 52.18;
+
+export type TermInput = Pick<
+  CleanedAuction,
+  'auctionDate' | 'issueDate' | 'maturityDate' | 'securityType' | 'securityTerm'
+>;
+
+export type TermHistoryInput = TermInput & {
+  cusip: string | null;
+  ratio: number;
+  tailBps?: number;
+};
+
+export interface AuctionTermHistory {
+  benchmarkTerm: string | null;
+  reopening: boolean;
+  rollingRatio?: number;
+  rollingTailBps?: number;
+}
+
+/**
+ * Length of a term label in years ("13W" → 0.25, "10Y" → 10)
+ */
+function labelYears(label: string): number {
+  const n = parseInt(label, 10);
+  return label.endsWith('W') ? n / WEEKS_PER_YEAR : n;
+}
+
+/**
+ * Years to maturity of a bill: from its term in weeks or days, else from
+ * issue (or the auction) to maturity
+ */
+function billTenorYears(auction: TermInput): number | null {
+  const weeks = auction.securityTerm?.match(/(\d+)-Week/i);
+  if (weeks) return parseInt(weeks[1], 10) / WEEKS_PER_YEAR;
+  const days = auction.securityTerm?.match(/(\d+)-Day/i);
+  if (days) return parseInt(days[1], 10) / 7 / WEEKS_PER_YEAR;
+
+  if (!auction.maturityDate) return null;
+  const from = auction.issueDate ?? auction.auctionDate;
+  const elapsed = (Date.parse(`${auction.maturityDate}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS;
+  return elapsed > 0 ? elapsed / 7 / WEEKS_PER_YEAR : null;
+}
+
+/**
+ * Benchmark term of an auction: the closest term auctioned for its security
+ * type, so reopenings map to the original benchmark; null for CMBs or
+ * without a parseable term
+ */
+export function normalizeAuctionTerm(auction: TermInput): string | null {
+  const benchmarks = BENCHMARK_TERMS[auction.securityType];
+  if (benchmarks.length === 0) return null;
+
+  const years = auction.securityType === 'BILL'
+    ? billTenorYears(auction)
+    : auctionTenorYears({ ...auction, highYield: null });
+  if (years === null) return null;
+
+  // Closest on a log scale, so a 9-week bill is nearer 8W than 13W
+  let best = benchmarks[0];
+  for (const label of benchmarks) {
+    if (Math.abs(Math.log(years / labelYears(label))) < Math.abs(Math.log(years / labelYears(best)))) {
+      best = label;
+    }
+  }
+  return best;
+}
+
+/**
+ * Average of the last `window` values rounded to `decimals`, or undefined
+ * without a full window
+ */
+function trailingAverage(values: number[], window: number, decimals: number): number | undefined {
+  if (values.length < window) return undefined;
+  const average = values.slice(-window).reduce((acc, v) => acc + v, 0) / window;
+  return Math.round(average * 10 ** decimals) / 10 ** decimals;
+}
+
+/**
+ * Benchmark term, reopening flag and rolling averages for auctions sorted
+ * by date ascending. An auction is a reopening when its CUSIP was auctioned
+ * on an earlier date; rolling averages cover the previous `window`
+ * auctions of the same security type and benchmark term, excluding the
+ * auction itself, and are omitted until a full window is available.
+ */
+export function auctionTermHistory(
+  auctions: TermHistoryInput[],
+  window: number = ROLLING_AUCTIONS
+): AuctionTermHistory[] {
+  const firstAuctioned = new Map<string, string>();
+  const ratios = new Map<string, number[]>();
+  const tails = new Map<string, number[]>();
+
+  return auctions.map(auction => {
+    const benchmarkTerm = normalizeAuctionTerm(auction);
+
+    let reopening = false;
+    if (auction.cusip) {
+      const first = firstAuctioned.get(auction.cusip);
+      if (first === undefined) firstAuctioned.set(auction.cusip, auction.auctionDate);
+      else reopening = first < auction.auctionDate;
+    }
+
+    if (!benchmarkTerm) return { benchmarkTerm, reopening };
+
+    const key = `${auction.securityType}:${benchmarkTerm}`;
+    const termRatios = ratios.get(key) ?? [];
+    const termTails = tails.get(key) ?? [];
+    const history: AuctionTermHistory = {
+      benchmarkTerm,
+      reopening,
+      rollingRatio: trailingAverage(termRatios, window, 4),
+      rollingTailBps: trailingAverage(termTails, window, 1),
+    };
+
+    termRatios.push(auction.ratio);
+    ratios.set(key, termRatios);
+    if (auction.tailBps !== undefined) {
+      termTails.push(auction.tailBps);
+      tails.set(key, termTails);
+    }
+    return history;
+  });
+}
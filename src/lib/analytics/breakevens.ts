@@ -0,0 +1,49 @@
+/**
+ * Breakeven Inflation
+ *
+ * Breakevens at every tenor published on both the nominal and the real
+ * (TIPS) curve, and the 5y5y forward breakeven: the difference between the
+ * nominal and real 5-year rates 5 years forward, read off curves fitted by
+ * ./yield-curve.
+ */
+
+import type { BreakevenTermStructure, YieldCurve, YieldCurveTenorPoint } from '../types/treasury';
+import { fitYieldCurve } from './yield-curve';
+
+// Tenors with a stored breakeven column
+export const BREAKEVEN_TENORS = ['5Y', '7Y', '10Y', '20Y', '30Y'] as const;
+
+export type BreakevenTenor = typeof BREAKEVEN_TENORS[number];
+
+/**
+ * Implied 5y5y forward rate of one curve (null with too few tenors)
+ */
+function forward5y5y(points: YieldCurveTenorPoint[]): number | null {
+  if (points.length < 3) return null;
+  return fitYieldCurve(points, 'cubic').forwardRate(5, 10);
+}
+
+/**
+ * Breakeven term structure of one day's nominal and real curves
+ */
+export function computeBreakevens(curve: YieldCurve): BreakevenTermStructure {
+  const nominalByTenor = new Map(curve.nominal.map(p => [p.tenor, p.yield]));
+
+  const points = curve.real
+    .flatMap(p => {
+      const nominal = nominalByTenor.get(p.tenor);
+      return nominal === undefined
+        ? []
+        : [{ tenor: p.tenor, months: p.months, breakeven: nominal - p.yield }];
+    })
+    .sort((a, b) => a.months - b.months);
+
+  const nominalForward = forward5y5y(curve.nominal);
+  const realForward = forward5y5y(curve.real);
+
+  return {
+    date: curve.date,
+    points,
+    forward5y5y: nominalForward !== null && realForward !== null ? nominalForward - realForward : null,
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * Interest Expense Projection
+ *
+ * Rolls one MSPD snapshot forward month by month: every security accrues
+ * interest at its coupon until it matures, and maturing debt (plus any new
+ * borrowing) is reissued at the end of the month at the market rate for
+ * each new security's term, from a fitted yield curve held constant or a
+ * user rate path. By default maturing securities are reissued at their
+ * original term and debt outstanding stays constant; scenarios can instead
+ * steer new issuance toward a bill share of debt outstanding and finance an
+ * annual deficit.
+ *
+ * Simplifications: bills and securities without a stored rate start at the
+ * market rate for their remaining term; FRNs float at the 3-month rate
+ * (spread ignored); TIPS accrue their real coupon only (no inflation
+ * accretion).
+ */
+
+import type { CleanedSecurity, InterestProjectionYear } from '../types/treasury';
+import { addMonths } from './supply';
+import type { FittedCurve } from './yield-curve';
+
+type SecurityType = CleanedSecurity['securityType'];
+
+/**
+ * Rate (percent) for a new issue of `term` years, `years` after the snapshot
+ */
+export type RateFunction = (years: number, term: number) => number;
+
+export interface ProjectionOptions {
+  billShare?: number | null; // Target bill share of debt outstanding, percent (default: reissue at original term)
+  deficit?: number; // New borrowing per year in USD, issued monthly (default: 0)
+}
+
+export interface PortfolioSummary {
+  annualInterest: number; // USD per year at current rates
+  averageRate: number;
+  outstanding: number;
+  wamMonths: number;
+  billShare: number;
+}
+
+export interface InterestProjection {
+  current: PortfolioSummary;
+  projection: InterestProjectionYear[];
+  holdings: CleanedSecurity[]; // Portfolio at the end of the projection
+}
+
+interface IssueSpec {
+  type: SecurityType;
+  term: number; // Years
+  amount: number; // Weight or USD
+}
+
+// Term assumed when a security has no issue date (years)
+const DEFAULT_TERMS: Record<SecurityType, number> = {
+  BILL: 0.5,
+  NOTE: 5,
+  BOND: 30,
+  TIPS: 10,
+  FRN: 2,
+  OTHER: 5,
+};
+
+// Bill issuance by term when no bills matured in the month (relative sizes)
+const DEFAULT_BILL_MIX: IssueSpec[] = [
+  { type: 'BILL', term: 4 / 52, amount: 15 },
+  { type: 'BILL', term: 8 / 52, amount: 15 },
+  { type: 'BILL', term: 13 / 52, amount: 25 },
+  { type: 'BILL', term: 17 / 52, amount: 10 },
+  { type: 'BILL', term: 26 / 52, amount: 25 },
+  { type: 'BILL', term: 52 / 52, amount: 10 },
+];
+
+// Coupon issuance by term when no coupons matured in the month (relative sizes)
+const DEFAULT_COUPON_MIX: IssueSpec[] = [
+  { type: 'NOTE', term: 2, amount: 69 },
+  { type: 'NOTE', term: 3, amount: 58 },
+  { type: 'NOTE', term: 5, amount: 70 },
+  { type: 'NOTE', term: 7, amount: 44 },
+  { type: 'NOTE', term: 10, amount: 42 },
+  { type: 'BOND', term: 20, amount: 13 },
+  { type: 'BOND', term: 30, amount: 25 },
+];
+
+// Shortest reissue term (one week)
+const MIN_TERM = 7 / 365.25;
+
+// FRNs reset to the 3-month rate
+const FRN_INDEX_TERM = 0.25;
+
+const DAY_MS = 86400000;
+const DAYS_PER_YEAR = 365.25;
+
+interface Position {
+  type: SecurityType;
+  amount: number;
+  rate: number; // Percent
+  maturity: number; // Years after the snapshot
+  term: number; // Years
+}
+
+/**
+ * Years between two YYYY-MM-DD dates
+ */
+function yearsBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS / DAYS_PER_YEAR;
+}
+
+/**
+ * YYYY-MM-DD date a number of years after another
+ */
+function dateAfter(date: string, years: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + years * DAYS_PER_YEAR * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Rates from a fitted curve held constant: the par yield at the term
+ */
+export function curveRates(curve: FittedCurve, maxTerm = 30): RateFunction {
+  const cache = new Map<string, number>();
+  return (_years, term) => {
+    const key = Math.min(Math.max(term, 1 / 12), maxTerm).toFixed(3);
+    let rate = cache.get(key);
+    if (rate === undefined) {
+      rate = curve.parYield(Number(key));
+      cache.set(key, rate);
+    }
+    return rate;
+  };
+}
+
+/**
+ * Rates from a path of one rate per projection year, for every term;
+ * the last rate holds for later years
+ */
+export function pathRates(path: number[]): RateFunction {
+  return years => path[Math.min(Math.floor(years), path.length - 1)];
+}
+
+/**
+ * Positions of a snapshot still outstanding after its record date
+ */
+function openPositions(recordDate: string, securities: CleanedSecurity[], rateAt: RateFunction): Position[] {
+  return securities.flatMap(s => {
+    if (!s.maturityDate || s.maturityDate <= recordDate || s.outstandingAmount <= 0) return [];
+
+    const maturity = yearsBetween(recordDate, s.maturityDate);
+    const term = s.issueDate && s.issueDate < s.maturityDate
+      ? yearsBetween(s.issueDate, s.maturityDate)
+      : Math.max(maturity, DEFAULT_TERMS[s.securityType]);
+
+    const rate = s.securityType === 'FRN'
+      ? rateAt(0, FRN_INDEX_TERM)
+      : s.interestRate ?? rateAt(0, maturity);
+
+    return [{ type: s.securityType, amount: s.outstandingAmount, rate, maturity, term: Math.max(term, MIN_TERM) }];
+  });
+}
+
+/**
+ * Rate, maturity and composition of the positions `years` after the snapshot
+ */
+function summarize(positions: Position[], years: number): PortfolioSummary {
+  let outstanding = 0;
+  let weightedRate = 0;
+  let weightedMaturity = 0;
+  let bills = 0;
+  for (const p of positions) {
+    outstanding += p.amount;
+    weightedRate += p.amount * p.rate;
+    weightedMaturity += p.amount * (p.maturity - years);
+    if (p.type === 'BILL') bills += p.amount;
+  }
+
+  const average = (value: number) => (outstanding > 0 ? value / outstanding : 0);
+  return {
+    annualInterest: weightedRate / 100,
+    averageRate: average(weightedRate),
+    outstanding,
+    wamMonths: average(weightedMaturity) * 12,
+    billShare: average(bills) * 100,
+  };
+}
+
+/**
+ * Matured amounts grouped by type and term
+ */
+function groupByTerm(matured: Position[]): IssueSpec[] {
+  const groups = new Map<string, IssueSpec>();
+  for (const p of matured) {
+    const key = `${p.type}:${p.term.toFixed(3)}`;
+    const group = groups.get(key);
+    if (group) group.amount += p.amount;
+    else groups.set(key, { type: p.type, term: p.term, amount: p.amount });
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Split an amount across specs pro rata to their amounts (fallback mix
+ * when there are none)
+ */
+function distribute(amount: number, specs: IssueSpec[], fallback: IssueSpec[]): IssueSpec[] {
+  if (amount <= 0) return [];
+  const weights = specs.length > 0 ? specs : fallback;
+  const total = weights.reduce((sum, s) => sum + s.amount, 0);
+  return weights.map(s => ({ ...s, amount: amount * s.amount / total }));
+}
+
+/**
+ * New securities for one month's maturities and new borrowing
+ *
+ * With a bill share target, bills are issued to bring the bill share of the
+ * debt outstanding after issuance as close to the target as the month's
+ * issuance allows, and coupons make up the rest.
+ */
+function planIssuance(
+  matured: Position[],
+  borrowing: number,
+  billShare: number | null,
+  remaining: Position[]
+): IssueSpec[] {
+  const total = matured.reduce((sum, p) => sum + p.amount, 0) + borrowing;
+
+  if (billShare === null) {
+    return distribute(total, groupByTerm(matured), DEFAULT_COUPON_MIX);
+  }
+
+  let outstanding = 0;
+  let outstandingBills = 0;
+  for (const p of remaining) {
+    outstanding += p.amount;
+    if (p.type === 'BILL') outstandingBills += p.amount;
+  }
+  const bills = Math.min(Math.max((billShare / 100) * (outstanding + total) - outstandingBills, 0), total);
+
+  return [
+    ...distribute(bills, groupByTerm(matured.filter(p => p.type === 'BILL')), DEFAULT_BILL_MIX),
+    ...distribute(total - bills, groupByTerm(matured.filter(p => p.type !== 'BILL')), DEFAULT_COUPON_MIX),
+  ];
+}
+
+/**
+ * Project annual interest expense `years` years forward from a snapshot
+ */
+export function projectInterestExpense(
+  recordDate: string,
+  securities: CleanedSecurity[],
+  rateAt: RateFunction,
+  years: number,
+  options: ProjectionOptions = {}
+): InterestProjection {
+  const billShare = options.billShare ?? null;
+  const monthlyBorrowing = (options.deficit ?? 0) / 12;
+
+  let positions = openPositions(recordDate, securities, rateAt);
+  const current = summarize(positions, 0);
+  const projection: InterestProjectionYear[] = [];
+
+  let interest = 0;
+  let rolledOver = 0;
+  let issued = 0;
+  let issuedCost = 0;
+
+  for (let month = 0; month < years * 12; month++) {
+    const from = month / 12;
+    const to = (month + 1) / 12;
+    const matured: Position[] = [];
+    let maturedGap = 0; // Amount-years between maturity and month end
+
+    for (const p of positions) {
+      if (p.type === 'FRN') p.rate = rateAt(from, FRN_INDEX_TERM);
+
+      if (p.maturity <= to) {
+        interest += p.amount * (p.rate / 100) * (p.maturity - from);
+        maturedGap += p.amount * (to - p.maturity);
+        matured.push(p);
+      } else {
+        interest += p.amount * (p.rate / 100) * (to - from);
+      }
+    }
+    if (matured.length > 0) positions = positions.filter(p => p.maturity > to);
+
+    // Reissue at month end
+    let monthIssued = 0;
+    let monthCost = 0;
+    for (const spec of planIssuance(matured, monthlyBorrowing, billShare, positions)) {
+      const rate = spec.type === 'FRN' ? rateAt(to, FRN_INDEX_TERM) : rateAt(to, spec.term);
+      positions.push({ type: spec.type, amount: spec.amount, rate, maturity: to + spec.term, term: spec.term });
+      monthIssued += spec.amount;
+      monthCost += spec.amount * rate;
+    }
+
+    // Matured debt is refinanced from its maturity date at the new rates
+    if (monthIssued > 0) interest += maturedGap * (monthCost / monthIssued / 100);
+
+    rolledOver += matured.reduce((sum, p) => sum + p.amount, 0);
+    issued += monthIssued;
+    issuedCost += monthCost;
+
+    if ((month + 1) % 12 === 0) {
+      const year = (month + 1) / 12;
+      const { averageRate, outstanding, wamMonths, billShare: yearBillShare } = summarize(positions, year);
+      projection.push({
+        year,
+        endDate: addMonths(recordDate, year * 12),
+        interestExpense: interest,
+        averageRate,
+        outstanding,
+        wamMonths,
+        billShare: yearBillShare,
+        rolledOver,
+        rolledAverageRate: issued > 0 ? issuedCost / issued : null,
+      });
+      interest = 0;
+      rolledOver = 0;
+      issued = 0;
+      issuedCost = 0;
+    }
+  }
+
+  const endDate = addMonths(recordDate, years * 12);
+  const holdings = positions.map(p => {
+    const maturityDate = dateAfter(recordDate, p.maturity);
+    return {
+      recordDate: endDate,
+      cusip: null,
+      securityType: p.type,
+      securityTypeDesc: '',
+      securityClass: null,
+      issueDate: dateAfter(recordDate, p.maturity - p.term),
+      maturityDate,
+      maturityYear: parseInt(maturityDate.substring(0, 4), 10),
+      outstandingAmount: p.amount,
+      interestRate: p.rate,
+    };
+  });
+
+  return { current, projection, holdings };
+}
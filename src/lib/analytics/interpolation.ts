@@ -0,0 +1,90 @@
+/**
+ * Interpolation
+ *
+ * One-dimensional interpolators over sorted knots. Both extrapolate flat
+ * beyond the first and last knot, which is how the curve fitter treats
+ * maturities outside the published tenors.
+ */
+
+export type Interpolator = (x: number) => number;
+
+/**
+ * Index of the knot interval containing x (xs sorted ascending, x inside the range)
+ */
+function intervalIndex(xs: number[], x: number): number {
+  let lo = 0;
+  let hi = xs.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] <= x) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Sort knots by x and check there is something to interpolate
+ */
+function sortedKnots(xs: number[], ys: number[]): { xs: number[]; ys: number[] } {
+  if (xs.length === 0 || xs.length !== ys.length) {
+    throw new Error('Interpolation needs matching, non-empty knot arrays');
+  }
+  const order = xs.map((_, i) => i).sort((a, b) => xs[a] - xs[b]);
+  return { xs: order.map(i => xs[i]), ys: order.map(i => ys[i]) };
+}
+
+/**
+ * Piecewise-linear interpolation
+ */
+export function linearInterpolator(knotsX: number[], knotsY: number[]): Interpolator {
+  const { xs, ys } = sortedKnots(knotsX, knotsY);
+  const last = xs.length - 1;
+
+  return x => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[last]) return ys[last];
+
+    const i = intervalIndex(xs, x);
+    const w = (x - xs[i]) / (xs[i + 1] - xs[i]);
+    return ys[i] + w * (ys[i + 1] - ys[i]);
+  };
+}
+
+/**
+ * Natural cubic spline (zero second derivative at both ends).
+ * Falls back to linear interpolation with fewer than three knots.
+ */
+export function cubicSplineInterpolator(knotsX: number[], knotsY: number[]): Interpolator {
+  const { xs, ys } = sortedKnots(knotsX, knotsY);
+  const n = xs.length;
+  if (n < 3) return linearInterpolator(xs, ys);
+
+  // Solve the tridiagonal system for the second derivatives (Thomas algorithm)
+  const h = xs.slice(1).map((x, i) => x - xs[i]);
+  const m = new Array<number>(n).fill(0);
+  const c = new Array<number>(n).fill(0);
+  const d = new Array<number>(n).fill(0);
+
+  for (let i = 1; i < n - 1; i++) {
+    const diag = 2 * (h[i - 1] + h[i]);
+    const rhs = 6 * ((ys[i + 1] - ys[i]) / h[i] - (ys[i] - ys[i - 1]) / h[i - 1]);
+    const denom = diag - h[i - 1] * c[i - 1];
+    c[i] = h[i] / denom;
+    d[i] = (rhs - h[i - 1] * d[i - 1]) / denom;
+  }
+  for (let i = n - 2; i >= 1; i--) {
+    m[i] = d[i] - c[i] * m[i + 1];
+  }
+
+  return x => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+
+    const i = intervalIndex(xs, x);
+    const a = xs[i + 1] - x;
+    const b = x - xs[i];
+    return (m[i] * a ** 3 + m[i + 1] * b ** 3) / (6 * h[i]) +
+      (ys[i] / h[i] - m[i] * h[i] / 6) * a +
+      (ys[i + 1] / h[i] - m[i + 1] * h[i] / 6) * b;
+  };
+}
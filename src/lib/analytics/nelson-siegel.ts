@@ -0,0 +1,154 @@
+/**
+ * Nelson–Siegel–Svensson
+ *
+ * Parametric zero curve
+ *
+ *   z(t) = β0 + β1·L1(t) + β2·S1(t) + β3·S2(t)
+ *
+ * with L(t) = (1 - e^(-t/τ)) / (t/τ) and S(t) = L(t) - e^(-t/τ). For fixed
+ * decay parameters τ1, τ2 the betas are a linear least-squares problem, so
+ * the fit searches a grid of (τ1, τ2) and solves for the betas at each.
+ * With fewer than six points the β3 term is dropped (plain Nelson–Siegel).
+ */
+
+export interface NssParameters {
+  beta0: number;
+  beta1: number;
+  beta2: number;
+  beta3: number;
+  tau1: number;
+  tau2: number | null; // null for a Nelson–Siegel fit
+}
+
+export interface NssFit {
+  parameters: NssParameters;
+  rmse: number; // Same units as the fitted rates
+}
+
+// Decay parameter search grid (years)
+const TAU_GRID = [
+  0.25, 0.35, 0.5, 0.7, 1, 1.4, 2, 2.5, 3, 4, 5, 6, 7, 8.5, 10, 12.5, 15, 20, 25, 30,
+];
+
+// Minimum points for the full Svensson form (six parameters)
+const MIN_SVENSSON_POINTS = 6;
+
+// Minimum τ2/τ1 ratio; closer decays make the two curvature terms collinear
+const TAU_SEPARATION = 1.5;
+
+/**
+ * Loading of the level, slope and curvature factors at maturity t
+ */
+function factorLoadings(t: number, tau1: number, tau2: number | null): number[] {
+  const loading = (tau: number) => {
+    const x = Math.max(t, 1e-6) / tau;
+    const slope = (1 - Math.exp(-x)) / x;
+    return { slope, curvature: slope - Math.exp(-x) };
+  };
+
+  const first = loading(tau1);
+  const row = [1, first.slope, first.curvature];
+  if (tau2 !== null) row.push(loading(tau2).curvature);
+  return row;
+}
+
+/**
+ * Zero rate at maturity t (years)
+ */
+export function nssRate(p: NssParameters, t: number): number {
+  const [level, slope, curvature, curvature2 = 0] = factorLoadings(t, p.tau1, p.tau2);
+  return p.beta0 * level + p.beta1 * slope + p.beta2 * curvature + p.beta3 * curvature2;
+}
+
+/**
+ * Solve A·x = b by Gaussian elimination with partial pivoting.
+ * Returns null for a (numerically) singular system.
+ */
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[r][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let k = r + 1; k < n; k++) sum -= m[r][k] * x[k];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
+
+/**
+ * Least-squares betas for fixed decay parameters
+ */
+function fitBetas(
+  maturities: number[],
+  rates: number[],
+  tau1: number,
+  tau2: number | null
+): NssFit | null {
+  const rows = maturities.map(t => factorLoadings(t, tau1, tau2));
+  const k = rows[0].length;
+
+  // Normal equations XᵀX·β = Xᵀy
+  const xtx = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const xty = Array.from({ length: k }, (_, i) =>
+    rows.reduce((sum, row, r) => sum + row[i] * rates[r], 0)
+  );
+
+  const betas = solveLinear(xtx, xty);
+  if (!betas) return null;
+
+  const parameters: NssParameters = {
+    beta0: betas[0],
+    beta1: betas[1],
+    beta2: betas[2],
+    beta3: betas[3] ?? 0,
+    tau1,
+    tau2,
+  };
+  const sse = maturities.reduce((sum, t, i) => sum + (nssRate(parameters, t) - rates[i]) ** 2, 0);
+  return { parameters, rmse: Math.sqrt(sse / maturities.length) };
+}
+
+/**
+ * Fit the curve to zero rates observed at the given maturities (years)
+ */
+export function fitNelsonSiegelSvensson(maturities: number[], rates: number[]): NssFit {
+  if (maturities.length < 3 || maturities.length !== rates.length) {
+    throw new Error('Nelson-Siegel fit needs at least three points');
+  }
+
+  const svensson = maturities.length >= MIN_SVENSSON_POINTS;
+  let best: NssFit | null = null;
+
+  for (const tau1 of TAU_GRID) {
+    const tau2Options = svensson ? TAU_GRID.filter(tau => tau >= tau1 * TAU_SEPARATION) : [null];
+    for (const tau2 of tau2Options) {
+      const fit = fitBetas(maturities, rates, tau1, tau2);
+      if (fit && (!best || fit.rmse < best.rmse)) {
+        best = fit;
+      }
+    }
+  }
+
+  if (!best) {
+    throw new Error('Nelson-Siegel fit did not converge');
+  }
+  return best;
+}
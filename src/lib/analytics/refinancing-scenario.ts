@@ -0,0 +1,95 @@
+/**
+ * Refinancing Scenarios
+ *
+ * Runs the interest expense projection (interest-projection.ts) under a
+ * what-if and alongside a baseline. A scenario shocks the yield curve with
+ * a parallel shift and a 2s10s steepening or flattening, steers new
+ * issuance toward a bill share target and finances a yearly deficit with
+ * new debt. The baseline holds the unshocked curve, reissues maturing debt
+ * at its original term and borrows nothing new.
+ *
+ * Shocks apply to debt issued after the snapshot; securities already
+ * outstanding keep their rates.
+ */
+
+import { aggregateMaturityWall } from '../etl/aggregators';
+import type { CleanedSecurity, InterestProjectionYear, MaturityWallData, ScenarioParameters } from '../types/treasury';
+import { projectInterestExpense, type PortfolioSummary, type RateFunction } from './interest-projection';
+
+export interface ScenarioRun {
+  current: PortfolioSummary;
+  projection: InterestProjectionYear[];
+  maturityWall: MaturityWallData[]; // Debt maturing per year at the end of the projection
+}
+
+// Slope shocks pivot on the 2Y and move the 10Y (and longer) by the full amount
+const PIVOT_TERM = 2;
+const SLOPE_TERM = 10;
+
+// Maturity wall years after the end of the projection
+const WALL_YEARS = 10;
+
+/**
+ * Rates shifted by a parallel and a slope shock (basis points), floored at zero
+ *
+ * Between the 2Y and the 10Y the slope shock scales linearly with term;
+ * bills move against it by at most a quarter.
+ */
+export function shockedRates(rateAt: RateFunction, parallelBps: number, slopeBps: number): RateFunction {
+  if (parallelBps === 0 && slopeBps === 0) return rateAt;
+
+  return (years, term) => {
+    const rate = rateAt(years, term);
+    if (years <= 0) return rate;
+    const slopeWeight = Math.min((term - PIVOT_TERM) / (SLOPE_TERM - PIVOT_TERM), 1);
+    return Math.max(rate + (parallelBps + slopeBps * slopeWeight) / 100, 0);
+  };
+}
+
+/**
+ * One projection with the maturity wall it leaves behind
+ */
+function scenarioRun(
+  recordDate: string,
+  securities: CleanedSecurity[],
+  rateAt: RateFunction,
+  years: number,
+  billShare: number | null,
+  deficit: number
+): ScenarioRun {
+  const { current, projection, holdings } = projectInterestExpense(recordDate, securities, rateAt, years, {
+    billShare,
+    deficit,
+  });
+
+  const startYear = parseInt(projection[projection.length - 1].endDate.substring(0, 4), 10);
+  return {
+    current,
+    projection,
+    maturityWall: aggregateMaturityWall(holdings, startYear, startYear + WALL_YEARS),
+  };
+}
+
+/**
+ * Baseline and scenario projections from one snapshot and rate function
+ */
+export function runRefinancingScenario(
+  recordDate: string,
+  securities: CleanedSecurity[],
+  rateAt: RateFunction,
+  parameters: ScenarioParameters
+): { baseline: ScenarioRun; scenario: ScenarioRun } {
+  const { years, parallelBps, slopeBps, billShare, deficit } = parameters;
+
+  return {
+    baseline: scenarioRun(recordDate, securities, rateAt, years, null, 0),
+    scenario: scenarioRun(
+      recordDate,
+      securities,
+      shockedRates(rateAt, parallelBps, slopeBps),
+      years,
+      billShare,
+      deficit * 1e9
+    ),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Time Series Resampling
+ *
+ * Buckets dated observations into daily, weekly, monthly or quarterly
+ * periods and aligns several series on a shared date axis. Periods are
+ * labelled by their first day (weeks start on Monday).
+ */
+
+export const SERIES_FREQUENCIES = ['daily', 'weekly', 'monthly', 'quarterly'] as const;
+export const SERIES_AGGREGATIONS = ['last', 'mean', 'sum'] as const;
+
+export type SeriesFrequency = typeof SERIES_FREQUENCIES[number];
+export type SeriesAggregation = typeof SERIES_AGGREGATIONS[number];
+
+export interface SeriesPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+/**
+ * First day of the period containing a date
+ */
+export function periodStart(date: string, frequency: SeriesFrequency): string {
+  const year = date.substring(0, 4);
+  const month = parseInt(date.substring(5, 7), 10);
+
+  switch (frequency) {
+    case 'daily':
+      return date;
+    case 'weekly': {
+      const d = new Date(`${date}T00:00:00Z`);
+      d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+      return d.toISOString().split('T')[0];
+    }
+    case 'monthly':
+      return `${year}-${date.substring(5, 7)}-01`;
+    case 'quarterly': {
+      const quarterMonth = Math.floor((month - 1) / 3) * 3 + 1;
+      return `${year}-${String(quarterMonth).padStart(2, '0')}-01`;
+    }
+  }
+}
+
+/**
+ * Resample points (any order) into one value per period, oldest first
+ */
+export function resample(
+  points: SeriesPoint[],
+  frequency: SeriesFrequency,
+  aggregation: SeriesAggregation
+): SeriesPoint[] {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  const buckets = new Map<string, number[]>();
+
+  for (const p of sorted) {
+    const key = periodStart(p.date, frequency);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(p.value);
+    else buckets.set(key, [p.value]);
+  }
+
+  return [...buckets.entries()].map(([date, values]) => {
+    const sum = values.reduce((a, b) => a + b, 0);
+    const value = aggregation === 'sum'
+      ? sum
+      : aggregation === 'mean'
+        ? sum / values.length
+        : values[values.length - 1];
+    return { date, value };
+  });
+}
+
+/**
+ * Align resampled series on the union of their dates; gaps are null
+ */
+export function alignSeries(series: SeriesPoint[][]): {
+  dates: string[];
+  values: (number | null)[][];
+} {
+  const dates = [...new Set(series.flatMap(s => s.map(p => p.date)))].sort();
+
+  const values = series.map(s => {
+    const byDate = new Map(s.map(p => [p.date, p.value]));
+    return dates.map(date => byDate.get(date) ?? null);
+  });
+
+  return { dates, values };
+}
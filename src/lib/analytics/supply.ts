@@ -0,0 +1,114 @@
+/**
+ * Marketable Debt Supply Metrics
+ *
+ * Rollover profile of one MSPD snapshot from its CUSIP-level holdings:
+ * weighted average maturity (WAM), the share of marketable debt maturing
+ * within 3/6/12/24 months, the bill share, and a monthly rollover schedule.
+ * Securities maturing on or before the record date are excluded.
+ */
+
+import type { CleanedSecurity, RolloverMonth, SupplyMetrics } from '../types/treasury';
+
+// Horizons with a stored "maturing within" share, in months
+export const MATURING_HORIZONS = [3, 6, 12, 24] as const;
+
+// Calendar months covered by the rollover schedule
+export const ROLLOVER_MONTHS = 60;
+
+const DAY_MS = 86400000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+/**
+ * Add calendar months to a YYYY-MM-DD date, clamping to the month's last day
+ * (2025-01-31 + 1 month = 2025-02-28)
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+/**
+ * Empty rollover buckets for the months following a record date
+ */
+function rolloverBuckets(recordDate: string): Map<string, RolloverMonth> {
+  const nextDay = new Date(Date.parse(`${recordDate}T00:00:00Z`) + DAY_MS).toISOString().split('T')[0];
+  const buckets = new Map<string, RolloverMonth>();
+
+  for (let i = 0; i < ROLLOVER_MONTHS; i++) {
+    const month = addMonths(`${nextDay.substring(0, 7)}-01`, i).substring(0, 7);
+    buckets.set(month, { month, bills: 0, notes: 0, bonds: 0, tips: 0, frn: 0, total: 0 });
+  }
+
+  return buckets;
+}
+
+/**
+ * Supply metrics of one snapshot (null when no security has a maturity date)
+ */
+export function computeSupplyMetrics(
+  recordDate: string,
+  securities: CleanedSecurity[]
+): SupplyMetrics | null {
+  const recordTime = Date.parse(`${recordDate}T00:00:00Z`);
+  const horizons = MATURING_HORIZONS.map(months => addMonths(recordDate, months));
+  const maturing = MATURING_HORIZONS.map(() => 0);
+  const rollover = rolloverBuckets(recordDate);
+
+  let total = 0;
+  let bills = 0;
+  let weightedMonths = 0;
+
+  for (const security of securities) {
+    const { maturityDate, outstandingAmount: amount } = security;
+    if (!maturityDate || maturityDate <= recordDate || amount <= 0) continue;
+
+    total += amount;
+    if (security.securityType === 'BILL') bills += amount;
+    weightedMonths += amount * (Date.parse(`${maturityDate}T00:00:00Z`) - recordTime) / DAY_MS / DAYS_PER_MONTH;
+
+    horizons.forEach((horizon, i) => {
+      if (maturityDate <= horizon) maturing[i] += amount;
+    });
+
+    const bucket = rollover.get(maturityDate.substring(0, 7));
+    if (bucket) {
+      switch (security.securityType) {
+        case 'BILL':
+          bucket.bills += amount;
+          break;
+        case 'NOTE':
+          bucket.notes += amount;
+          break;
+        case 'BOND':
+          bucket.bonds += amount;
+          break;
+        case 'TIPS':
+          bucket.tips += amount;
+          break;
+        case 'FRN':
+          bucket.frn += amount;
+          break;
+      }
+      bucket.total += amount;
+    }
+  }
+
+  if (total === 0) return null;
+
+  const share = (amount: number) => (amount / total) * 100;
+
+  return {
+    date: recordDate,
+    totalOutstanding: total,
+    wamMonths: weightedMonths / total,
+    maturing3m: share(maturing[0]),
+    maturing6m: share(maturing[1]),
+    maturing12m: share(maturing[2]),
+    maturing24m: share(maturing[3]),
+    billShare: share(bills),
+    rollover: [...rollover.values()],
+  };
+}
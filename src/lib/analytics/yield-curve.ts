@@ -0,0 +1,202 @@
+/**
+ * Yield Curve Fitting
+ *
+ * Turns the par yields Treasury publishes at a handful of tenors into a
+ * continuous curve: zero rates, par yields, discount factors and implied
+ * forward rates at any maturity up to 30 years.
+ *
+ * Conventions: rates are in percent with semi-annual compounding (bond
+ * equivalent, as Treasury quotes them); maturities are in years. Tenors up
+ * to six months pay no coupon, so their par yield is the zero rate; longer
+ * zero rates are bootstrapped from semi-annual par bonds.
+ *
+ * Methods:
+ * - linear / cubic: par yields interpolated (piecewise linear or natural
+ *   cubic spline), bootstrapped to zeros, zeros interpolated the same way
+ * - nss: Nelson–Siegel–Svensson fitted to the bootstrapped zero rates
+ */
+
+import type { YieldCurveTenorPoint } from '../types/treasury';
+import { cubicSplineInterpolator, linearInterpolator, type Interpolator } from './interpolation';
+import { fitNelsonSiegelSvensson, nssRate, type NssParameters } from './nelson-siegel';
+
+export const CURVE_FIT_METHODS = ['linear', 'cubic', 'nss'] as const;
+
+export type CurveFitMethod = typeof CURVE_FIT_METHODS[number];
+
+export interface FittedCurve {
+  method: CurveFitMethod;
+  parameters: NssParameters | null; // Only for nss
+  rmseBps: number; // Fitted vs observed par yields at the input tenors
+  zeroRate: (years: number) => number;
+  discountFactor: (years: number) => number;
+  parYield: (years: number) => number;
+  forwardRate: (startYears: number, endYears: number) => number;
+}
+
+export interface ForwardSpec {
+  label: string; // e.g. "5y5y"
+  start: number;
+  tenor: number;
+}
+
+// Longest maturity bootstrapped (years)
+export const MAX_MATURITY = 30;
+
+// Coupon frequency of Treasury notes and bonds
+const COUPONS_PER_YEAR = 2;
+
+// Forwards reported by default
+export const STANDARD_FORWARDS = ['1y1y', '2y1y', '5y5y', '10y10y'];
+
+// Maturities (years) tabulated by default
+export const STANDARD_MATURITIES = [0.25, 0.5, 1, 2, 3, 5, 7, 10, 15, 20, 25, 30];
+
+/**
+ * Parse a forward label such as "5y5y" (start year, tenor years)
+ */
+export function parseForwardLabel(label: string): ForwardSpec | null {
+  const match = /^(\d{1,2})y(\d{1,2})y$/i.exec(label.trim());
+  if (!match) return null;
+
+  const start = parseInt(match[1], 10);
+  const tenor = parseInt(match[2], 10);
+  if (tenor === 0 || start + tenor > MAX_MATURITY) return null;
+
+  return { label: `${start}y${tenor}y`, start, tenor };
+}
+
+/**
+ * Discount factor of a semi-annually compounded zero rate (percent)
+ */
+function toDiscountFactor(zeroPct: number, years: number): number {
+  return Math.pow(1 + zeroPct / 100 / COUPONS_PER_YEAR, -COUPONS_PER_YEAR * years);
+}
+
+/**
+ * Semi-annually compounded zero rate (percent) of a discount factor
+ */
+function toZeroRate(discountFactor: number, years: number): number {
+  return COUPONS_PER_YEAR * (Math.pow(discountFactor, -1 / (COUPONS_PER_YEAR * years)) - 1) * 100;
+}
+
+/**
+ * Build an interpolator for a method
+ */
+function interpolatorFor(method: 'linear' | 'cubic', xs: number[], ys: number[]): Interpolator {
+  return method === 'cubic' ? cubicSplineInterpolator(xs, ys) : linearInterpolator(xs, ys);
+}
+
+/**
+ * Zero rates at the coupon grid (0.5, 1, ..., 30 years) bootstrapped from
+ * a par yield function
+ */
+function bootstrapZeros(parAt: Interpolator): { years: number[]; zeros: number[] } {
+  const years: number[] = [];
+  const zeros: number[] = [];
+  let annuity = 0; // Sum of discount factors at earlier coupon dates
+
+  for (let n = 1; n <= MAX_MATURITY * COUPONS_PER_YEAR; n++) {
+    const t = n / COUPONS_PER_YEAR;
+    const coupon = parAt(t) / 100 / COUPONS_PER_YEAR;
+    const df = (1 - coupon * annuity) / (1 + coupon);
+
+    annuity += df;
+    years.push(t);
+    zeros.push(toZeroRate(df, t));
+  }
+
+  return { years, zeros };
+}
+
+/**
+ * Fit a curve to the par yields of one date
+ */
+export function fitYieldCurve(
+  points: YieldCurveTenorPoint[],
+  method: CurveFitMethod
+): FittedCurve {
+  const observed = [...points].sort((a, b) => a.months - b.months);
+  if (observed.length < 3) {
+    throw new Error('Curve fitting needs at least three tenors');
+  }
+
+  const tenorYears = observed.map(p => p.months / 12);
+  const parYields = observed.map(p => p.yield);
+  const firstCoupon = 1 / COUPONS_PER_YEAR;
+
+  // Zero-coupon bills below the first coupon date are zero rates already
+  const bills = observed.filter(p => p.months / 12 < firstCoupon);
+  const billNodes = {
+    years: bills.map(p => p.months / 12),
+    zeros: bills.map(p => p.yield),
+  };
+
+  let zeroRate: Interpolator;
+  let parameters: NssParameters | null = null;
+
+  if (method === 'nss') {
+    const bootstrapped = bootstrapZeros(interpolatorFor('linear', tenorYears, parYields));
+    const gridZero = linearInterpolator(bootstrapped.years, bootstrapped.zeros);
+    const zerosAtTenors = observed.map(p => {
+      const years = p.months / 12;
+      return years < firstCoupon ? p.yield : gridZero(years);
+    });
+
+    const fit = fitNelsonSiegelSvensson(tenorYears, zerosAtTenors);
+    parameters = fit.parameters;
+    zeroRate = t => nssRate(fit.parameters, t);
+  } else {
+    const bootstrapped = bootstrapZeros(interpolatorFor(method, tenorYears, parYields));
+    zeroRate = interpolatorFor(
+      method,
+      [...billNodes.years, ...bootstrapped.years],
+      [...billNodes.zeros, ...bootstrapped.zeros]
+    );
+  }
+
+  const discountFactor = (years: number) => years <= 0 ? 1 : toDiscountFactor(zeroRate(years), years);
+
+  const parYield = (years: number) => {
+    if (years <= firstCoupon) return zeroRate(years);
+
+    // Coupon dates counted back from maturity
+    let annuity = 0;
+    for (let t = years; t > 1e-9; t -= firstCoupon) {
+      annuity += discountFactor(t) / COUPONS_PER_YEAR;
+    }
+    return (1 - discountFactor(years)) / annuity * 100;
+  };
+
+  const forwardRate = (startYears: number, endYears: number) => {
+    const ratio = discountFactor(startYears) / discountFactor(endYears);
+    return toZeroRate(1 / ratio, endYears - startYears);
+  };
+
+  const sse = observed.reduce((sum, p, i) => sum + (parYield(tenorYears[i]) - p.yield) ** 2, 0);
+  const rmseBps = Math.sqrt(sse / observed.length) * 100;
+
+  return { method, parameters, rmseBps, zeroRate, discountFactor, parYield, forwardRate };
+}
+
+/**
+ * Zero rate, par yield and discount factor at each maturity
+ */
+export function tabulateCurve(curve: FittedCurve, maturities: number[]) {
+  return maturities.map(years => ({
+    years,
+    zeroRate: curve.zeroRate(years),
+    parYield: curve.parYield(years),
+    discountFactor: curve.discountFactor(years),
+  }));
+}
+
+/**
+ * Implied forward rates, e.g. 5y5y = the 5-year rate 5 years forward
+ */
+export function impliedForwards(curve: FittedCurve, forwards: ForwardSpec[]) {
+  return forwards.map(f => ({
+    ...f,
+    rate: curve.forwardRate(f.start, f.start + f.tenor),
+  }));
+}
@@ -0,0 +1,193 @@
+/**
+ * API Keys
+ *
+ * Programmatic access for partners. Keys look like `sw_<random>` and are
+ * sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`; only their
+ * SHA-256 hash is stored. Each key has scopes (read, chat, admin) and a
+ * rate limit tier that replaces RATE_LIMITS for its requests. Requests
+ * without a key stay anonymous and are limited per client IP.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { getDb, apiKeys, apiKeyUsage, type ApiKey } from './db';
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitHeaders,
+  RATE_LIMIT_TIERS,
+  RATE_LIMITS,
+  type RateLimitCategory,
+} from './rate-limit';
+import type { ApiKeyScope } from './types/treasury';
+
+export const API_KEY_SCOPES = ['read', 'chat', 'admin'] as const satisfies readonly ApiKeyScope[];
+
+const KEY_PREFIX = 'sw_';
+const DISPLAY_PREFIX_LENGTH = 11; // sw_ plus 8 characters
+
+// Rate limit category applied to each scope
+const SCOPE_LIMITS: Record<ApiKeyScope, RateLimitCategory> = {
+  read: 'data',
+  chat: 'chat',
+  admin: 'data',
+};
+
+/**
+ * SHA-256 of a key, as stored in api_keys.key_hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * A new random key with its display prefix and hash
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/**
+ * The key a request carries, if any
+ *
+ * Bearer tokens without the key prefix (e.g. CRON_SECRET) are not keys.
+ */
+export function getRequestApiKey(request: Request): string | null {
+  const header = request.headers.get('x-api-key');
+  if (header) return header.trim();
+
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/)?.[1];
+  return bearer?.startsWith(KEY_PREFIX) ? bearer : null;
+}
+
+/**
+ * Look up the active key a request carries
+ *
+ * @returns undefined without a key, null for an unknown or revoked key
+ */
+export async function authenticateApiKey(request: Request): Promise<ApiKey | null | undefined> {
+  const key = getRequestApiKey(request);
+  if (!key) return undefined;
+
+  const db = getDb();
+  if (!db) return null;
+
+  const rows = await db.select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Count a request against the key's usage for today
+ */
+export async function recordApiKeyUsage(keyId: number, rateLimited = false): Promise<void> {
+  const db = getDb();
+  if (!db) return;
+
+  const usageDate = new Date().toISOString().split('T')[0];
+  const rejected = rateLimited ? 1 : 0;
+
+  try {
+    await db.insert(apiKeyUsage)
+      .values({ keyId, usageDate, requests: 1, rateLimited: rejected })
+      .onConflictDoUpdate({
+        target: [apiKeyUsage.keyId, apiKeyUsage.usageDate],
+        set: {
+          requests: sql`${apiKeyUsage.requests} + 1`,
+          rateLimited: sql`${apiKeyUsage.rateLimited} + ${rejected}`,
+        },
+      });
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, keyId));
+  } catch (error) {
+    console.warn('[API Keys] Failed to record usage:', error);
+  }
+}
+
+export interface GrantedAccess {
+  apiKey: ApiKey | null;
+  headers: Record<string, string>; // X-RateLimit-* headers for the response
+}
+
+export type AccessResult =
+  | ({ allowed: true } & GrantedAccess)
+  | { allowed: false; response: NextResponse };
+
+/**
+ * Authenticate and rate limit a request
+ *
+ * A request with a key gets 401 if the key is unknown or revoked and 403
+ * if it lacks `scope`; otherwise it is limited by the key's tier, counted
+ * per key. Anonymous requests are limited by RATE_LIMITS per client IP.
+ *
+ * @param name - Rate limit bucket, e.g. debt
+ * @param scope - Scope a key needs for this route
+ */
+export async function authorizeRequest(
+  request: Request,
+  name: string,
+  scope: ApiKeyScope
+): Promise<AccessResult> {
+  let apiKey: ApiKey | null | undefined;
+  try {
+    apiKey = await authenticateApiKey(request);
+  } catch (error) {
+    console.error('[API Keys] Key lookup failed:', error);
+    return { allowed: false, response: NextResponse.json({ error: 'Unable to verify API key' }, { status: 503 }) };
+  }
+
+  if (apiKey === null) {
+    return { allowed: false, response: NextResponse.json({ error: 'Invalid API key' }, { status: 401 }) };
+  }
+  if (apiKey && !apiKey.scopes.includes(scope)) {
+    return {
+      allowed: false,
+      response: NextResponse.json({ error: `API key lacks the ${scope} scope` }, { status: 403 }),
+    };
+  }
+
+  const limits = apiKey && apiKey.tier in RATE_LIMIT_TIERS
+    ? RATE_LIMIT_TIERS[apiKey.tier as keyof typeof RATE_LIMIT_TIERS]
+    : RATE_LIMITS;
+  const identifier = apiKey ? `${name}:key:${apiKey.id}` : `${name}:${getClientIdentifier(request)}`;
+  const result = await checkRateLimit(identifier, limits[SCOPE_LIMITS[scope]]);
+  const headers = rateLimitHeaders(result);
+
+  if (apiKey) await recordApiKeyUsage(apiKey.id, !result.allowed);
+
+  if (!result.allowed) {
+    return {
+      allowed: false,
+      response: NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429, headers }),
+    };
+  }
+
+  return { allowed: true, apiKey: apiKey ?? null, headers };
+}
+
+/**
+ * Wrap a route handler with authorizeRequest
+ *
+ * The handler only runs for allowed requests, and its response gets the
+ * X-RateLimit-* headers.
+ */
+export function withApiAccess(
+  name: string,
+  scope: ApiKeyScope,
+  handler: (request: Request, access: GrantedAccess) => Promise<Response>
+): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    const access = await authorizeRequest(request, name, scope);
+    if (!access.allowed) return access.response;
+
+    const response = await handler(request, access);
+    for (const [header, value] of Object.entries(access.headers)) {
+      response.headers.set(header, value);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Typed API Client
+ *
+ * Generated from the route contracts: `apiGet(path, query)` accepts exactly
+ * the query parameters the route declares and resolves to its /api/v1
+ * envelope, validated against the contract; `apiPost(path, body)` does the
+ * same for routes that accept a POST body. Used by the dashboard
+ * components in place of raw fetch.
+ */
+
+import {
+  API_CONTRACTS,
+  type ApiBody,
+  type ApiPath,
+  type ApiPostPath,
+  type ApiPostResponse,
+  type ApiQuery,
+  type ApiResponse,
+} from './contracts';
+import { v1Path } from './deprecation';
+import { envelopeSchema, type ApiErrorCode, type Envelope } from './envelope';
+
+export type ApiEnvelope<P extends ApiPath> = Envelope<ApiResponse<P>>;
+
+export type ApiPostEnvelope<P extends ApiPostPath> = Envelope<ApiPostResponse<P>>;
+
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: ApiErrorCode) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Envelope schemas, built on first use
+const envelopes = new Map<ApiPath, ReturnType<typeof envelopeSchema>>();
+const postEnvelopes = new Map<ApiPostPath, ReturnType<typeof envelopeSchema>>();
+
+/**
+ * ApiError for a non-2xx response, from the first error in its envelope
+ */
+function responseError(path: string, res: Response, body: unknown): ApiError {
+  const error = body && typeof body === 'object' && 'errors' in body && Array.isArray(body.errors)
+    ? body.errors[0] as { code: ApiErrorCode; message: string } | undefined
+    : undefined;
+  return new ApiError(
+    error?.message ?? `Request to ${path} failed with status ${res.status}`,
+    res.status,
+    error?.code ?? 'INTERNAL_ERROR'
+  );
+}
+
+/**
+ * Build a /api/v1 route URL, dropping empty parameters and joining arrays with commas
+ */
+export function apiUrl<P extends ApiPath>(path: P, query?: ApiQuery<P>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value === undefined || value === null || value === '') continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const search = params.toString();
+  return search ? `${v1Path(path)}?${search}` : v1Path(path);
+}
+
+/**
+ * GET a route's /api/v1 envelope and validate it against the contract
+ *
+ * @throws ApiError with the first error's code and message on a non-2xx status
+ */
+export async function apiGet<P extends ApiPath>(
+  path: P,
+  query?: ApiQuery<P>,
+  init?: RequestInit
+): Promise<ApiEnvelope<P>> {
+  const res = await fetch(apiUrl(path, query), init);
+  const body: unknown = await res.json().catch(() => null);
+
+  if (!res.ok) throw responseError(path, res, body);
+
+  let schema = envelopes.get(path);
+  if (!schema) {
+    schema = envelopeSchema(API_CONTRACTS[path].response);
+    envelopes.set(path, schema);
+  }
+  return schema.parse(body) as ApiEnvelope<P>;
+}
+
+/**
+ * POST a JSON body to a route's /api/v1 path and validate the envelope
+ * against the contract
+ *
+ * @throws ApiError with the first error's code and message on a non-2xx status
+ */
+export async function apiPost<P extends ApiPostPath>(
+  path: P,
+  body: ApiBody<P>
+): Promise<ApiPostEnvelope<P>> {
+  const res = await fetch(v1Path(path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const json: unknown = await res.json().catch(() => null);
+
+  if (!res.ok) throw responseError(path, res, json);
+
+  let schema = postEnvelopes.get(path);
+  if (!schema) {
+    schema = envelopeSchema(API_CONTRACTS[path].post.response);
+    postEnvelopes.set(path, schema);
+  }
+  return schema.parse(json) as ApiPostEnvelope<P>;
+}
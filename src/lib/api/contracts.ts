@@ -0,0 +1,227 @@
+/**
+ * API Contracts
+ *
+ * One entry per public data route: its query schema, response schema and
+ * documentation. The OpenAPI document (openapi.ts) and the typed client
+ * (client.ts) are both generated from this registry. Legacy routes are keyed
+ * by their unversioned path; routes served only under /api/v1 by that path.
+ */
+
+import type { z } from 'zod';
+import {
+  AuctionsQuerySchema,
+  AuctionsResponseSchema,
+  BreakevensQuerySchema,
+  BreakevensResponseSchema,
+  DataQualityQuerySchema,
+  DataQualityResponseSchema,
+  DebtQuerySchema,
+  DebtSummarySchema,
+  FittedCurveQuerySchema,
+  FittedCurveResponseSchema,
+  HealthHistoryQuerySchema,
+  HealthHistoryResponseSchema,
+  HealthMetricsSchema,
+  HealthQuerySchema,
+  InterestProjectionQuerySchema,
+  InterestProjectionResponseSchema,
+  MaturityWallQuerySchema,
+  MaturityWallResponseSchema,
+  OwnershipQuerySchema,
+  OwnershipResponseSchema,
+  RevisionsQuerySchema,
+  RevisionsResponseSchema,
+  ScenarioRunQuerySchema,
+  ScenarioRunResponseSchema,
+  ScenarioSaveResponseSchema,
+  ScenarioSaveSchema,
+  ScenariosQuerySchema,
+  ScenariosResponseSchema,
+  SeriesQuerySchema,
+  SeriesResponseSchema,
+  SupplyMetricsQuerySchema,
+  SupplyMetricsResponseSchema,
+  YieldCurveQuerySchema,
+  YieldCurveResponseSchema,
+} from './schemas';
+
+export interface ApiContract {
+  summary: string;
+  description: string;
+  tag: string;
+  query: z.ZodType<Record<string, unknown>>;
+  response: z.ZodType;
+  exportable?: boolean; // Accepts format=json|csv|jsonl|xlsx
+  post?: {
+    summary: string;
+    description: string;
+    body: z.ZodType;
+    response: z.ZodType;
+  };
+}
+
+export const API_CONTRACTS = {
+  '/api/debt': {
+    summary: 'Total debt snapshot',
+    description: 'Latest Debt to the Penny totals, from the database with a Live API fallback.',
+    tag: 'Debt',
+    query: DebtQuerySchema,
+    response: DebtSummarySchema,
+    exportable: true,
+  },
+  '/api/health': {
+    summary: 'Fiscal health metrics',
+    description: 'Latest economic indicators; defaults when the database is unavailable.',
+    tag: 'Health',
+    query: HealthQuerySchema,
+    response: HealthMetricsSchema,
+  },
+  '/api/health/history': {
+    summary: 'Economic indicator history',
+    description: 'Daily 10Y nominal yield, real yield and breakeven; empty without a database.',
+    tag: 'Health',
+    query: HealthHistoryQuerySchema,
+    response: HealthHistoryResponseSchema,
+    exportable: true,
+  },
+  '/api/ownership': {
+    summary: 'Debt ownership composition',
+    description: 'Static holder estimates scaled by the live total debt, with historical composition.',
+    tag: 'Debt',
+    query: OwnershipQuerySchema,
+    response: OwnershipResponseSchema,
+    exportable: true,
+  },
+  '/api/maturity-wall': {
+    summary: 'Maturity wall',
+    description: 'Marketable debt maturing per year by security type, from pre-computed aggregates when available.',
+    tag: 'Supply',
+    query: MaturityWallQuerySchema,
+    response: MaturityWallResponseSchema,
+    exportable: true,
+  },
+  '/api/v1/supply/metrics': {
+    summary: 'Supply and rollover metrics',
+    description: 'Weighted average maturity, share maturing within 3/6/12/24 months, bill share and monthly rollover schedule per MSPD record date.',
+    tag: 'Supply',
+    query: SupplyMetricsQuerySchema,
+    response: SupplyMetricsResponseSchema,
+    exportable: true,
+  },
+  '/api/auctions': {
+    summary: 'Auction demand',
+    description: 'Bid-to-cover ratios and bidder allotments per auction, with summary statistics.',
+    tag: 'Demand',
+    query: AuctionsQuerySchema,
+    response: AuctionsResponseSchema,
+    exportable: true,
+  },
+  '/api/yield-curve': {
+    summary: 'Yield curves',
+    description: 'Daily nominal (par) and TIPS real yield curves at every published tenor.',
+    tag: 'Rates',
+    query: YieldCurveQuerySchema,
+    response: YieldCurveResponseSchema,
+  },
+  '/api/yield-curve/fitted': {
+    summary: 'Fitted yield curve',
+    description: 'Zero rates, par yields, discount factors and implied forwards from a fitted curve.',
+    tag: 'Rates',
+    query: FittedCurveQuerySchema,
+    response: FittedCurveResponseSchema,
+  },
+  '/api/inflation/breakevens': {
+    summary: 'Breakeven inflation term structure',
+    description: 'Nominal minus real yield at 5Y-30Y and the 5y5y forward breakeven, per day.',
+    tag: 'Rates',
+    query: BreakevensQuerySchema,
+    response: BreakevensResponseSchema,
+  },
+  '/api/v1/projections/interest': {
+    summary: 'Interest expense projection',
+    description: 'Annual interest cost and weighted average rate 1-10 years forward, reissuing maturing debt at the yield curve or a given rate path, with the assumptions used.',
+    tag: 'Projections',
+    query: InterestProjectionQuerySchema,
+    response: InterestProjectionResponseSchema,
+  },
+  '/api/v1/scenarios': {
+    summary: 'Saved refinancing scenarios',
+    description: 'Refinancing scenarios saved by name, most recently updated first. DELETE ?name= (admin) removes one.',
+    tag: 'Projections',
+    query: ScenariosQuerySchema,
+    response: ScenariosResponseSchema,
+    post: {
+      summary: 'Save a refinancing scenario',
+      description: 'Saves a scenario under a new name; 409 if the name exists, unless the caller is admin, who replaces it.',
+      body: ScenarioSaveSchema,
+      response: ScenarioSaveResponseSchema,
+    },
+  },
+  '/api/v1/scenarios/run': {
+    summary: 'Refinancing scenario',
+    description: 'Interest cost, WAM and maturity wall paths under yield curve shocks, a bill share target steering new issuance and a deficit, next to a baseline, from the latest snapshot and curve.',
+    tag: 'Projections',
+    query: ScenarioRunQuerySchema,
+    response: ScenarioRunResponseSchema,
+  },
+  '/api/series': {
+    summary: 'Stored time series',
+    description: 'Any stored metric resampled to one frequency and aligned on a shared date axis.',
+    tag: 'Series',
+    query: SeriesQuerySchema,
+    response: SeriesResponseSchema,
+  },
+  '/api/revisions': {
+    summary: 'Revision audit trail',
+    description: 'Stored Treasury figures that changed after they were first ingested, with old and new values and the detecting ingest job. Requires the database.',
+    tag: 'Quality',
+    query: RevisionsQuerySchema,
+    response: RevisionsResponseSchema,
+  },
+  '/api/data-quality': {
+    summary: 'Data quality report',
+    description: 'Rule violations found in cleaned records at ingest, with per-rule counts and the rule catalogue; no violations without a database.',
+    tag: 'Quality',
+    query: DataQualityQuerySchema,
+    response: DataQualityResponseSchema,
+  },
+} as const satisfies Record<string, ApiContract>;
+
+export type ApiPath = keyof typeof API_CONTRACTS;
+
+// Query as the client sends it (before defaults and transforms)
+export type ApiQuery<P extends ApiPath> = z.input<typeof API_CONTRACTS[P]['query']>;
+
+// Query as the route sees it (after defaults and transforms)
+export type ApiParams<P extends ApiPath> = z.output<typeof API_CONTRACTS[P]['query']>;
+
+export type ApiResponse<P extends ApiPath> = z.output<typeof API_CONTRACTS[P]['response']>;
+
+// Routes that accept a POST body
+export type ApiPostPath = {
+  [P in ApiPath]: typeof API_CONTRACTS[P] extends { post: object } ? P : never;
+}[ApiPath];
+
+// POST body as the client sends it (before defaults)
+export type ApiBody<P extends ApiPostPath> = z.input<typeof API_CONTRACTS[P]['post']['body']>;
+
+export type ApiPostResponse<P extends ApiPostPath> = z.output<typeof API_CONTRACTS[P]['post']['response']>;
+
+/**
+ * Parse a route's query string against its contract
+ *
+ * Empty values are treated as absent. On failure, returns the first issue's
+ * message in the same wording as src/lib/validation.ts.
+ */
+export function parseQuery<P extends ApiPath>(
+  path: P,
+  searchParams: URLSearchParams
+): { success: true; data: ApiParams<P> } | { success: false; error: string } {
+  const raw = Object.fromEntries([...searchParams].filter(([, value]) => value !== ''));
+  const result = API_CONTRACTS[path].query.safeParse(raw);
+
+  if (result.success) {
+    return { success: true, data: result.data as ApiParams<P> };
+  }
+  return { success: false, error: result.error.issues[0]?.message ?? 'Invalid query parameters' };
+}
@@ -0,0 +1,50 @@
+/**
+ * Unversioned API Deprecation
+ *
+ * The unversioned data routes (/api/debt, /api/auctions, ...) are frozen
+ * and superseded by /api/v1. Their existing fields keep their shapes until
+ * the sunset date, after which they are removed; new optional fields and
+ * query parameters may still be added. Responses carry the RFC 9745 Deprecation and RFC 8594
+ * Sunset headers with a successor-version link.
+ *
+ * Kept free of imports so next.config.ts can load it.
+ */
+
+export const DEPRECATED_AT = '2026-10-19';
+export const SUNSET_AT = '2027-04-30';
+
+// Unversioned routes with a /api/v1 successor. Routes added since are
+// served only under /api/v1.
+export const LEGACY_API_PATHS = [
+  '/api/debt',
+  '/api/health',
+  '/api/health/history',
+  '/api/ownership',
+  '/api/maturity-wall',
+  '/api/auctions',
+  '/api/yield-curve',
+  '/api/yield-curve/fitted',
+  '/api/inflation/breakevens',
+  '/api/series',
+  '/api/revisions',
+  '/api/data-quality',
+] as const;
+
+/**
+ * The /api/v1 path for an unversioned route (v1 paths are returned as-is)
+ */
+export function v1Path(path: string): string {
+  return path.replace(/^\/api\/(?!v1\/)/, '/api/v1/');
+}
+
+/**
+ * Deprecation headers for an unversioned route
+ */
+export function deprecationHeaders(path: string): { key: string; value: string }[] {
+  const deprecatedAt = Math.floor(Date.parse(`${DEPRECATED_AT}T00:00:00Z`) / 1000);
+  return [
+    { key: 'Deprecation', value: `@${deprecatedAt}` },
+    { key: 'Sunset', value: new Date(`${SUNSET_AT}T00:00:00Z`).toUTCString() },
+    { key: 'Link', value: `<${v1Path(path)}>; rel="successor-version"` },
+  ];
+}
@@ -0,0 +1,135 @@
+/**
+ * API v1 Envelope
+ *
+ * Every /api/v1 JSON response is `{ data, meta, errors }`. `meta.source`
+ * says where the data came from; `errors` carries structured codes, either
+ * alongside data (a fallback was served) or with `data: null` on failure.
+ *
+ * The envelope is derived from each route's unversioned response: `meta`
+ * stays meta, `data` stays data, and any other top-level fields (e.g. the
+ * auction `stats`) move into meta. A response without `meta` is all data.
+ */
+
+import { z } from 'zod';
+import { DATA_SOURCES } from './schemas';
+
+export const RESPONSE_SOURCES = [...DATA_SOURCES, 'fallback-default'] as const;
+
+export type ResponseSource = typeof RESPONSE_SOURCES[number];
+
+// Error codes with their default messages
+export const API_ERROR_CODES = {
+  INVALID_PARAMETER: 'Invalid query parameters',
+  UNAUTHORIZED: 'Missing or invalid credentials',
+  FORBIDDEN: 'API key lacks the required scope',
+  NOT_FOUND: 'No data available',
+  CONFLICT: 'Resource already exists',
+  RATE_LIMITED: 'Rate limit exceeded',
+  DATABASE_UNAVAILABLE: 'Database not configured',
+  DATABASE_ERROR: 'Database query failed',
+  NO_DATA: 'No stored data for the request',
+  UPSTREAM_ERROR: 'Treasury API request failed',
+  INTERNAL_ERROR: 'Internal server error',
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_CODES;
+
+// Error code for each status an unversioned route returns
+export const STATUS_ERROR_CODES: Record<number, ApiErrorCode> = {
+  400: 'INVALID_PARAMETER',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  429: 'RATE_LIMITED',
+  502: 'UPSTREAM_ERROR',
+  503: 'DATABASE_UNAVAILABLE',
+};
+
+// Set by unversioned routes whose body has no meta.source
+export const SOURCE_HEADER = 'X-Data-Source';
+
+// Set with SOURCE_HEADER when a fallback was served: the error code explaining why
+export const FALLBACK_HEADER = 'X-Data-Fallback';
+
+/**
+ * Source (and fallback reason) headers for an unversioned response
+ */
+export function sourceHeaders(source: ResponseSource, fallback?: ApiErrorCode): Record<string, string> {
+  return fallback ? { [SOURCE_HEADER]: source, [FALLBACK_HEADER]: fallback } : { [SOURCE_HEADER]: source };
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const errorCodes = Object.keys(API_ERROR_CODES) as [ApiErrorCode, ...ApiErrorCode[]];
+
+export const ApiErrorSchema = z.object({
+  code: z.enum(errorCodes),
+  message: z.string(),
+});
+
+export const ErrorEnvelopeSchema = z.object({
+  data: z.null(),
+  meta: z.object({}),
+  errors: z.array(ApiErrorSchema).min(1),
+});
+
+export type ApiErrorEntry = z.infer<typeof ApiErrorSchema>;
+
+type AnyObject = z.ZodObject<z.core.$ZodLooseShape>;
+
+/**
+ * Envelope schema for an unversioned response schema
+ */
+export function envelopeSchema(response: z.ZodType) {
+  let data: z.ZodType = response;
+  let meta: AnyObject = z.object({});
+
+  if (response instanceof z.ZodObject && response.shape.meta instanceof z.ZodObject) {
+    const { meta: routeMeta, data: routeData, ...rest } = response.shape as Record<string, z.ZodType>;
+    if (routeData) {
+      data = routeData;
+      meta = (routeMeta as AnyObject).extend(rest);
+    } else {
+      data = z.object(rest);
+      meta = routeMeta as AnyObject;
+    }
+  }
+
+  return z.object({
+    data,
+    meta: meta.extend({ source: z.enum(RESPONSE_SOURCES) }),
+    errors: z.array(ApiErrorSchema),
+  });
+}
+
+// Type-level counterpart of envelopeSchema
+type EnvelopeParts<T> = T extends { meta: infer M }
+  ? T extends { data: infer D }
+    ? { data: D; meta: Omit<M, 'source'> & Omit<T, 'data' | 'meta'> }
+    : { data: Omit<T, 'meta'>; meta: Omit<M, 'source'> }
+  : { data: T; meta: object };
+
+export type Envelope<T> = {
+  data: EnvelopeParts<T>['data'];
+  meta: EnvelopeParts<T>['meta'] & { source: ResponseSource };
+  errors: ApiErrorEntry[];
+};
+
+/**
+ * Split an unversioned response body into envelope data and meta
+ */
+export function splitBody(body: unknown): { data: unknown; meta: Record<string, unknown> } {
+  if (body && typeof body === 'object' && !Array.isArray(body) && 'meta' in body) {
+    const { meta, ...rest } = body as Record<string, unknown>;
+    const routeMeta = (meta ?? {}) as Record<string, unknown>;
+    if ('data' in rest) {
+      const { data, ...extra } = rest;
+      return { data, meta: { ...routeMeta, ...extra } };
+    }
+    return { data: rest, meta: routeMeta };
+  }
+  return { data: body, meta: {} };
+}
@@ -0,0 +1,176 @@
+/**
+ * OpenAPI Document
+ *
+ * Builds an OpenAPI 3.1 document from the route contracts. Schemas are
+ * emitted as JSON Schema 2020-12 by zod, which OpenAPI 3.1 uses as-is.
+ * Each route appears under /api/v1 with its envelope; legacy routes also
+ * appear at their unversioned path, marked deprecated.
+ */
+
+import { z } from 'zod';
+import { API_CONTRACTS, type ApiContract } from './contracts';
+import { LEGACY_API_PATHS, SUNSET_AT, v1Path } from './deprecation';
+import { envelopeSchema, ErrorEnvelopeSchema } from './envelope';
+import { ErrorResponseSchema } from './schemas';
+
+const API_VERSION = '0.1.0';
+
+// Download content types for exportable routes (see src/lib/export.ts)
+const EXPORT_CONTENT_TYPES = [
+  'text/csv',
+  'application/x-ndjson',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+interface JsonSchemaObject {
+  properties?: Record<string, Record<string, unknown>>;
+  required?: string[];
+}
+
+/**
+ * JSON Schema for a zod schema, without the $schema marker
+ */
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output'): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...z.toJSONSchema(schema, { io, unrepresentable: 'any' }) };
+  delete result.$schema;
+  return result;
+}
+
+/**
+ * Query parameters from a contract's query schema
+ */
+function queryParameters(contract: ApiContract) {
+  const schema = jsonSchema(contract.query, 'input') as JsonSchemaObject;
+  const required = new Set(schema.required ?? []);
+
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: 'query',
+      required: required.has(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+/**
+ * Responses for one route: the JSON contract, downloads and errors
+ */
+function responses(contract: ApiContract, versioned: boolean) {
+  const response = versioned ? envelopeSchema(contract.response) : contract.response;
+  const content: Record<string, unknown> = {
+    'application/json': { schema: jsonSchema(response, 'output') },
+  };
+  if (contract.exportable) {
+    for (const type of EXPORT_CONTENT_TYPES) {
+      content[type] = { schema: { type: 'string', format: 'binary' } };
+    }
+  }
+
+  const errorSchema = versioned ? 'ErrorEnvelope' : 'Error';
+  const error = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: `#/components/schemas/${errorSchema}` } } },
+  });
+
+  return {
+    '200': { description: contract.summary, content },
+    '400': error('Invalid query parameters'),
+    '401': error('Invalid or revoked API key'),
+    '403': error('API key lacks the read scope'),
+    '404': error('No data available'),
+    '429': error('Rate limit exceeded'),
+    '500': error('Server error'),
+  };
+}
+
+/**
+ * POST operation for a route that accepts a body (served under /api/v1 only)
+ */
+function postOperation(operationId: string, contract: ApiContract) {
+  const post = contract.post!;
+  const error = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorEnvelope' } } },
+  });
+
+  return {
+    operationId: `${operationId}PostV1`,
+    summary: post.summary,
+    description: post.description,
+    tags: [contract.tag],
+    requestBody: {
+      required: true,
+      content: { 'application/json': { schema: jsonSchema(post.body, 'input') } },
+    },
+    responses: {
+      '201': {
+        description: post.summary,
+        content: { 'application/json': { schema: jsonSchema(envelopeSchema(post.response), 'output') } },
+      },
+      '400': error('Invalid request body'),
+      '401': error('Invalid or revoked API key'),
+      '403': error('API key lacks the read scope'),
+      '409': error('Resource already exists'),
+      '429': error('Rate limit exceeded'),
+      '500': error('Server error'),
+    },
+  };
+}
+
+/**
+ * Operations for a route, under /api/v1 or at its deprecated unversioned path
+ */
+function operation(path: string, contract: ApiContract, versioned: boolean) {
+  const operationId = path.replace(/^\/api\/(v1\/)?/, '').replace(/[/-](\w)/g, (_, c: string) => c.toUpperCase());
+  return {
+    get: {
+      operationId: versioned ? `${operationId}V1` : operationId,
+      summary: contract.summary,
+      description: versioned
+        ? contract.description
+        : `${contract.description} Deprecated: use ${v1Path(path)}; removed after ${SUNSET_AT}.`,
+      tags: [contract.tag],
+      ...(versioned ? {} : { deprecated: true }),
+      parameters: queryParameters(contract),
+      responses: responses(contract, versioned),
+    },
+    ...(versioned && contract.post ? { post: postOperation(operationId, contract) } : {}),
+  };
+}
+
+/**
+ * The full OpenAPI 3.1 document for the public data routes
+ */
+export function buildOpenApiDocument() {
+  const contracts: [string, ApiContract][] = Object.entries(API_CONTRACTS);
+  const legacy = contracts.filter(([path]) => (LEGACY_API_PATHS as readonly string[]).includes(path));
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Sovereign Watch API',
+      version: API_VERSION,
+      description: 'US Treasury debt, auction, yield curve and fiscal health data.',
+    },
+    tags: [...new Set(contracts.map(([, c]) => c.tag))].map(name => ({ name })),
+    paths: Object.fromEntries([
+      ...contracts.map(([path, contract]) => [v1Path(path), operation(path, contract, true)]),
+      ...legacy.map(([path, contract]) => [path, operation(path, contract, false)]),
+    ]),
+    // Anonymous access is allowed; an API key raises the rate limit
+    security: [{}, { apiKeyHeader: [] }, { apiKeyBearer: [] }],
+    components: {
+      securitySchemes: {
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        apiKeyBearer: { type: 'http', scheme: 'bearer', description: 'API key (sw_...) as a bearer token' },
+      },
+      schemas: {
+        ErrorEnvelope: jsonSchema(ErrorEnvelopeSchema, 'output'),
+        Error: jsonSchema(ErrorResponseSchema, 'output'),
+      },
+    },
+  };
+}
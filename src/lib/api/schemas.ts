@@ -0,0 +1,746 @@
+/**
+ * API Schemas
+ *
+ * Zod schemas for the query parameters and JSON responses of the public
+ * data routes. Routes parse their params with these, the response types
+ * below are inferred from them, and the OpenAPI document and typed client
+ * (contracts.ts, openapi.ts, client.ts) are generated from them.
+ */
+
+import { z } from 'zod';
+import { CURVE_FIT_METHODS } from '../analytics/yield-curve';
+import { SERIES_AGGREGATIONS, SERIES_FREQUENCIES } from '../analytics/resample';
+import { AUCTION_TERMS } from '../analytics/auction-terms';
+import { QUALITY_RULES, QUALITY_SEVERITIES, type QualityDataset } from '../etl/quality-rules';
+
+// ---------------------------------------------------------------------------
+// Shared parameters
+// ---------------------------------------------------------------------------
+
+export const TIMEFRAMES = ['1y', '3y', '5y', '10y'] as const;
+export const SECURITY_TYPES = ['BILL', 'NOTE', 'BOND', 'TIPS', 'FRN', 'CMB'] as const;
+export const EXPORT_FORMATS = ['json', 'csv', 'jsonl', 'xlsx'] as const;
+export const CURVE_TYPES = ['nominal', 'real'] as const;
+export const DATA_SOURCES = ['database', 'api'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type Timeframe = typeof TIMEFRAMES[number];
+
+/**
+ * Optional YYYY-MM-DD parameter
+ */
+function dateParam(name: string, description: string) {
+  return z.iso.date({ error: `Invalid ${name}. Must be a date in YYYY-MM-DD format` })
+    .optional()
+    .describe(description);
+}
+
+const timeframeParam = z.enum(TIMEFRAMES, {
+  error: `Invalid timeframe. Must be one of: ${TIMEFRAMES.join(', ')}`,
+}).default('1y').describe('Lookback window');
+
+const asOfParam = dateParam('asOf', 'Serve the latest record on or before this date (default: latest)');
+
+const asOfWindowParam = dateParam('asOf', 'End the timeframe window on this date (default: today)');
+
+const formatParam = z.enum(EXPORT_FORMATS, {
+  error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`,
+}).optional().describe('Download the data as a file instead of the JSON response');
+
+const curveTypeParam = z.enum(CURVE_TYPES, {
+  error: `Invalid type. Must be one of: ${CURVE_TYPES.join(', ')}`,
+});
+
+const sourceField = z.enum(DATA_SOURCES);
+
+// Datasets as named by ingest jobs (QUALITY_RULES and REVISION_DATASETS keys)
+const DATASETS = Object.keys(QUALITY_RULES) as [QualityDataset, ...QualityDataset[]];
+
+const datasetParam = z.enum(DATASETS, {
+  error: `Invalid dataset. Must be one of: ${DATASETS.join(', ')}`,
+});
+
+// ---------------------------------------------------------------------------
+// Query schemas
+// ---------------------------------------------------------------------------
+
+export const DebtQuerySchema = z.object({
+  asOf: asOfParam,
+  format: formatParam,
+});
+
+export const HealthQuerySchema = z.object({
+  asOf: asOfParam,
+});
+
+export const HealthHistoryQuerySchema = z.object({
+  timeframe: timeframeParam,
+  asOf: asOfWindowParam,
+  format: formatParam,
+});
+
+export const OwnershipQuerySchema = z.object({
+  asOf: dateParam('asOf', 'Scale by the total debt on or before this date (default: latest)'),
+  format: formatParam,
+});
+
+const YEARS_ERROR = 'Years must be a number between 1 and 30';
+
+export const MaturityWallQuerySchema = z.object({
+  years: z.coerce.number({ error: YEARS_ERROR })
+    .int({ error: YEARS_ERROR })
+    .min(1, { error: YEARS_ERROR })
+    .max(30, { error: YEARS_ERROR })
+    .default(10)
+    .describe('Number of maturity years to include'),
+  asOf: dateParam('asOf', 'Serve the latest MSPD snapshot on or before this date (default: latest)'),
+  recordDate: dateParam('recordDate', 'Alias of asOf'),
+  format: formatParam,
+});
+
+export const AuctionsQuerySchema = z.object({
+  timeframe: timeframeParam,
+  types: z.string()
+    .transform(types => types.split(',').map(t => t.trim().toUpperCase()))
+    .pipe(z.array(z.enum(SECURITY_TYPES, {
+      error: `Invalid security types. Valid types: ${SECURITY_TYPES.join(', ')}`,
+    })))
+    .prefault('NOTE,BOND')
+    .describe(`Comma-separated security types: ${SECURITY_TYPES.join(', ')}`),
+  terms: z.string()
+    .transform(terms => terms.split(',').map(t => t.trim().toUpperCase()))
+    .pipe(z.array(z.enum(AUCTION_TERMS, {
+      error: `Invalid terms. Valid terms: ${AUCTION_TERMS.join(', ')}`,
+    })))
+    .optional()
+    .describe(`Comma-separated benchmark terms, reopenings included: ${AUCTION_TERMS.join(', ')} (default: all)`),
+  asOf: asOfWindowParam,
+  format: formatParam,
+});
+
+export const YieldCurveQuerySchema = z.object({
+  date: dateParam('date', 'Serve the latest curve on or before this date (default: latest)'),
+  start: dateParam('start', 'Serve every curve from this date instead of one'),
+  end: dateParam('end', 'End of the range (default: today)'),
+  type: curveTypeParam.optional().describe('Curve to return (default: both)'),
+}).refine(q => !q.start || !q.end || q.start <= q.end, {
+  error: 'start must be on or before end',
+});
+
+export const FittedCurveQuerySchema = z.object({
+  date: dateParam('date', 'Fit the latest curve on or before this date (default: latest)'),
+  type: curveTypeParam.default('nominal').describe('Curve to fit'),
+  method: z.enum(CURVE_FIT_METHODS, {
+    error: `Invalid method. Must be one of: ${CURVE_FIT_METHODS.join(', ')}`,
+  }).default('cubic').describe('Interpolation method'),
+  maturities: z.string().optional()
+    .describe('Comma-separated maturities in years, e.g. 0.5,1,2.5,10 (default: 3M-30Y grid)'),
+  forwards: z.string().optional()
+    .describe('Comma-separated forwards, e.g. 1y1y,5y5y (default: 1y1y,2y1y,5y5y,10y10y)'),
+});
+
+export const BreakevensQuerySchema = z.object({
+  timeframe: timeframeParam,
+  asOf: asOfWindowParam,
+});
+
+export const SupplyMetricsQuerySchema = z.object({
+  timeframe: timeframeParam,
+  asOf: asOfWindowParam,
+  format: formatParam,
+});
+
+const PROJECTION_YEARS_ERROR = 'Years must be a number between 1 and 10';
+
+export const InterestProjectionQuerySchema = z.object({
+  years: z.coerce.number({ error: PROJECTION_YEARS_ERROR })
+    .int({ error: PROJECTION_YEARS_ERROR })
+    .min(1, { error: PROJECTION_YEARS_ERROR })
+    .max(10, { error: PROJECTION_YEARS_ERROR })
+    .default(5)
+    .describe('Years to project'),
+  asOf: dateParam('asOf', 'Project from the latest MSPD snapshot and yield curve on or before this date (default: latest)'),
+  ratePath: z.string().optional()
+    .describe('Comma-separated refinancing rates in percent per projection year, e.g. 4.5,4.2,4; the last rate holds for later years (default: the yield curve)'),
+});
+
+// Scenario limits
+const MAX_PARALLEL_BPS = 500;
+const MAX_SLOPE_BPS = 300;
+const MAX_DEFICIT = 5000; // $B per year
+
+/**
+ * Scenario parameters shared by saved scenarios and the run query
+ * (numbers are coerced so the same fields parse query strings)
+ */
+const scenarioFields = {
+  years: z.coerce.number({ error: PROJECTION_YEARS_ERROR })
+    .int({ error: PROJECTION_YEARS_ERROR })
+    .min(1, { error: PROJECTION_YEARS_ERROR })
+    .max(10, { error: PROJECTION_YEARS_ERROR })
+    .default(5)
+    .describe('Years to project'),
+  parallelBps: z.coerce.number({ error: `parallelBps must be a number between -${MAX_PARALLEL_BPS} and ${MAX_PARALLEL_BPS}` })
+    .min(-MAX_PARALLEL_BPS, { error: `parallelBps must be a number between -${MAX_PARALLEL_BPS} and ${MAX_PARALLEL_BPS}` })
+    .max(MAX_PARALLEL_BPS, { error: `parallelBps must be a number between -${MAX_PARALLEL_BPS} and ${MAX_PARALLEL_BPS}` })
+    .default(0)
+    .describe('Parallel shift of the yield curve, basis points'),
+  slopeBps: z.coerce.number({ error: `slopeBps must be a number between -${MAX_SLOPE_BPS} and ${MAX_SLOPE_BPS}` })
+    .min(-MAX_SLOPE_BPS, { error: `slopeBps must be a number between -${MAX_SLOPE_BPS} and ${MAX_SLOPE_BPS}` })
+    .max(MAX_SLOPE_BPS, { error: `slopeBps must be a number between -${MAX_SLOPE_BPS} and ${MAX_SLOPE_BPS}` })
+    .default(0)
+    .describe('Change in the 2s10s slope, basis points: positive steepens, negative flattens (the 2Y is the pivot)'),
+  deficit: z.coerce.number({ error: `deficit must be a number between 0 and ${MAX_DEFICIT}` })
+    .min(0, { error: `deficit must be a number between 0 and ${MAX_DEFICIT}` })
+    .max(MAX_DEFICIT, { error: `deficit must be a number between 0 and ${MAX_DEFICIT}` })
+    .default(0)
+    .describe('New borrowing per year, $B, issued evenly across months'),
+};
+
+const BILL_SHARE_ERROR = 'billShare must be a number between 0 and 100';
+
+export const ScenarioParametersSchema = z.object({
+  ...scenarioFields,
+  billShare: z.number({ error: BILL_SHARE_ERROR })
+    .min(0, { error: BILL_SHARE_ERROR })
+    .max(100, { error: BILL_SHARE_ERROR })
+    .nullable()
+    .default(null)
+    .describe('Target bill share of debt outstanding, percent, reached through new issuance (null: reissue maturing debt at its original term)'),
+});
+
+export const ScenariosQuerySchema = z.object({});
+
+export const ScenarioSaveSchema = z.object({
+  name: z.string({ error: 'name is required' })
+    .trim()
+    .min(1, { error: 'name is required' })
+    .max(100, { error: 'name must be at most 100 characters' }),
+  description: z.string({ error: 'description must be a string' })
+    .trim()
+    .max(500, { error: 'description must be at most 500 characters' })
+    .nullable()
+    .default(null),
+  parameters: ScenarioParametersSchema,
+});
+
+export const ScenarioRunQuerySchema = z.object({
+  scenario: z.string().trim().min(1).max(100).optional()
+    .describe('Run a saved scenario by name (the parameters below are then ignored)'),
+  asOf: dateParam('asOf', 'Run against the latest MSPD snapshot and yield curve on or before this date (default: latest)'),
+  ...scenarioFields,
+  billShare: z.coerce.number({ error: BILL_SHARE_ERROR })
+    .min(0, { error: BILL_SHARE_ERROR })
+    .max(100, { error: BILL_SHARE_ERROR })
+    .optional()
+    .describe('Target bill share of debt outstanding, percent, reached through new issuance (default: reissue maturing debt at its original term)'),
+});
+
+export const SeriesQuerySchema = z.object({
+  metrics: z.string({ error: 'metrics is required' })
+    .describe('Comma-separated metric ids (up to 10), e.g. debt.total,yield.10y'),
+  start: dateParam('start', 'Start date (default: 1 year ago)'),
+  end: dateParam('end', 'End date (default: today)'),
+  frequency: z.enum(SERIES_FREQUENCIES, {
+    error: `Invalid frequency. Must be one of: ${SERIES_FREQUENCIES.join(', ')}`,
+  }).default('daily'),
+  aggregation: z.enum(SERIES_AGGREGATIONS, {
+    error: `Invalid aggregation. Must be one of: ${SERIES_AGGREGATIONS.join(', ')}`,
+  }).default('last'),
+}).refine(q => !q.start || !q.end || q.start <= q.end, {
+  error: 'start must be on or before end',
+});
+
+const QUALITY_LIMIT_ERROR = 'Limit must be a number between 1 and 1000';
+
+export const DataQualityQuerySchema = z.object({
+  dataset: datasetParam.optional().describe('Only violations in this dataset (default: all)'),
+  severity: z.enum(QUALITY_SEVERITIES, {
+    error: `Invalid severity. Must be one of: ${QUALITY_SEVERITIES.join(', ')}`,
+  }).optional().describe('Only violations of this severity (default: all)'),
+  start: dateParam('start', 'Start record date (default: 1 year ago)'),
+  end: dateParam('end', 'End record date (default: today)'),
+  limit: z.coerce.number({ error: QUALITY_LIMIT_ERROR })
+    .int({ error: QUALITY_LIMIT_ERROR })
+    .min(1, { error: QUALITY_LIMIT_ERROR })
+    .max(1000, { error: QUALITY_LIMIT_ERROR })
+    .default(100)
+    .describe('Maximum violations listed'),
+}).refine(q => !q.start || !q.end || q.start <= q.end, {
+  error: 'start must be on or before end',
+});
+
+const REVISIONS_LIMIT_ERROR = 'Limit must be a number between 1 and 5000';
+
+export const RevisionsQuerySchema = z.object({
+  dataset: datasetParam.describe('Dataset whose revisions to list'),
+  start: dateParam('start', 'Start record date (default: 90 days ago)'),
+  end: dateParam('end', 'End record date (default: today)'),
+  field: z.string()
+    .regex(/^[a-z0-9_]{1,100}$/, { error: 'Invalid field. Use a column name such as bid_to_cover_ratio' })
+    .optional()
+    .describe('Only revisions of this column, e.g. bid_to_cover_ratio'),
+  limit: z.coerce.number({ error: REVISIONS_LIMIT_ERROR })
+    .int({ error: REVISIONS_LIMIT_ERROR })
+    .min(1, { error: REVISIONS_LIMIT_ERROR })
+    .max(5000, { error: REVISIONS_LIMIT_ERROR })
+    .default(500)
+    .describe('Maximum rows'),
+}).refine(q => !q.start || !q.end || q.start <= q.end, {
+  error: 'start must be on or before end',
+});
+
+// ---------------------------------------------------------------------------
+// Response schemas
+// ---------------------------------------------------------------------------
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+});
+
+export const DebtSummarySchema = z.object({
+  totalDebt: z.number().describe('USD'),
+  totalDebtFormatted: z.string(),
+  debtHeldByPublic: z.number().nullable(),
+  intragovernmental: z.number().nullable(),
+  lastUpdated: z.string().describe('Record date'),
+});
+
+export const HealthMetricsSchema = z.object({
+  debtToGdp: z.number().nullable(),
+  interestExpense: z.number().nullable(),
+  averageInterestRate: z.number().nullable(),
+  yieldCurveSpread: z.number().nullable().describe('10Y minus 2Y'),
+  realYield10y: z.number().nullable(),
+  breakeven10y: z.number().nullable(),
+  lastUpdated: z.string(),
+});
+
+export const HealthHistoryPointSchema = z.object({
+  date: z.string(),
+  yield10y: z.number().nullable(),
+  realYield10y: z.number().nullable(),
+  breakeven10y: z.number().nullable(),
+});
+
+export const HealthHistoryResponseSchema = z.array(HealthHistoryPointSchema);
+
+export const HistoricalDataPointSchema = z.object({
+  year: z.number(),
+  intragovernmental: z.number(),
+  foreign: z.number(),
+  federalReserve: z.number(),
+  domesticPrivate: z.number(),
+  total: z.number(),
+});
+
+export const OwnershipResponseSchema = z.object({
+  sankey: z.object({
+    nodes: z.array(z.string()),
+    nodeColors: z.array(z.string()),
+    nodeValues: z.array(z.number()).describe('USD trillions'),
+    links: z.array(z.object({ source: z.number(), target: z.number(), value: z.number() })),
+  }),
+  historical: z.array(HistoricalDataPointSchema),
+  supplementary: z.object({
+    stablecoins: z.object({
+      totalMarketCap: z.number(),
+      estimatedTBillHoldings: z.number(),
+      majorIssuers: z.array(z.object({ name: z.string(), marketCap: z.number(), estimatedTBills: z.number() })),
+      lastUpdated: z.string(),
+      source: z.string(),
+    }),
+    fedHoldings: z.object({
+      totalSOMA: z.number(),
+      treasurySecurities: z.number(),
+      peakHoldings: z.number(),
+      qtStartDate: z.string(),
+      lastUpdated: z.string(),
+      source: z.string(),
+    }),
+    foreignHolders: z.array(z.object({ country: z.string(), holdings: z.number(), change: z.number() })),
+  }),
+  meta: z.object({
+    totalDebt: z.number(),
+    totalDebtFormatted: z.string(),
+    ownershipDataDate: z.string(),
+    liveDebtDate: z.string().nullable(),
+    isScaled: z.boolean(),
+  }),
+});
+
+export const MaturityWallDataSchema = z.object({
+  year: z.number(),
+  bills: z.number(),
+  notes: z.number(),
+  bonds: z.number(),
+  tips: z.number(),
+  frn: z.number(),
+  total: z.number(),
+});
+
+export const MaturityWallResponseSchema = z.object({
+  data: z.array(MaturityWallDataSchema),
+  meta: z.object({
+    computedAt: z.string(),
+    recordDate: z.string(),
+    yearsIncluded: z.number(),
+    totalSecuritiesProcessed: z.number(),
+    source: sourceField,
+    precomputed: z.boolean(),
+  }),
+});
+
+export const AuctionDemandDataSchema = z.object({
+  date: z.string(),
+  ratio: z.number(),
+  type: z.string(),
+  term: z.string().nullable(),
+  benchmarkTerm: z.string().nullable().describe('Benchmark term the security belongs to, e.g. 10Y for a 9-Year 10-Month reopening'),
+  reopening: z.boolean().describe('The CUSIP was auctioned on an earlier date'),
+  direct: z.number().optional(),
+  indirect: z.number().optional(),
+  dealers: z.number().optional(),
+  accepted: z.number().optional(),
+  highYield: z.number().optional(),
+  marketYield: z.number().optional().describe('Auction-day secondary-market yield interpolated at the tenor (coupon auctions), percent'),
+  tailBps: z.number().optional().describe('High yield minus marketYield, bps: positive tailed, negative stopped through'),
+  rollingRatio: z.number().optional().describe('Average bid-to-cover of the previous six auctions of the same type and benchmark term'),
+  rollingTailBps: z.number().optional().describe('Average tail of the previous six auctions of the same type and benchmark term, bps'),
+});
+
+export const AuctionTailStatsSchema = z.object({
+  type: z.string(),
+  term: z.string().describe('Benchmark term'),
+  count: z.number(),
+  avgTailBps: z.number(),
+  medianTailBps: z.number(),
+  minTailBps: z.number(),
+  maxTailBps: z.number(),
+  tails: z.number().describe('Auctions that cleared above the market yield'),
+  throughs: z.number().describe('Auctions that stopped through the market yield'),
+});
+
+export const AuctionsResponseSchema = z.object({
+  data: z.array(AuctionDemandDataSchema),
+  stats: z.object({
+    count: z.number(),
+    avgRatio: z.number(),
+    minRatio: z.number(),
+    maxRatio: z.number(),
+    medianRatio: z.number(),
+    belowThreshold: z.number(),
+  }),
+  tailStats: z.array(AuctionTailStatsSchema).describe('Tail statistics per security type and benchmark term'),
+  meta: z.object({
+    computedAt: z.string(),
+    timeframe: z.string(),
+    asOf: z.string().nullable(),
+    securityTypes: z.array(z.string()),
+    terms: z.array(z.string()).nullable(),
+    source: sourceField,
+  }),
+});
+
+export const YieldCurveTenorPointSchema = z.object({
+  tenor: z.string(),
+  months: z.number(),
+  yield: z.number(),
+});
+
+export const YieldCurveSchema = z.object({
+  date: z.string(),
+  nominal: z.array(YieldCurveTenorPointSchema),
+  real: z.array(YieldCurveTenorPointSchema),
+});
+
+export const YieldCurveResponseSchema = z.object({
+  data: z.array(YieldCurveSchema),
+  meta: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+    curveType: z.enum([...CURVE_TYPES, 'all']),
+    count: z.number(),
+    source: sourceField,
+  }),
+});
+
+export const FittedCurveResponseSchema = z.object({
+  data: z.object({
+    date: z.string(),
+    curveType: z.enum(CURVE_TYPES),
+    method: z.enum(CURVE_FIT_METHODS),
+    observed: z.array(YieldCurveTenorPointSchema),
+    points: z.array(z.object({
+      years: z.number(),
+      zeroRate: z.number(),
+      parYield: z.number(),
+      discountFactor: z.number(),
+    })),
+    forwards: z.array(z.object({
+      label: z.string(),
+      start: z.number(),
+      tenor: z.number(),
+      rate: z.number(),
+    })),
+    parameters: z.object({
+      beta0: z.number(),
+      beta1: z.number(),
+      beta2: z.number(),
+      beta3: z.number(),
+      tau1: z.number(),
+      tau2: z.number().nullable(),
+    }).nullable(),
+    rmseBps: z.number(),
+  }),
+  meta: z.object({
+    computedAt: z.string(),
+    compounding: z.literal('semi-annual'),
+    units: z.literal('percent'),
+    source: sourceField,
+  }),
+});
+
+export const BreakevenTermStructureSchema = z.object({
+  date: z.string(),
+  points: z.array(z.object({
+    tenor: z.string(),
+    months: z.number(),
+    breakeven: z.number(),
+  })),
+  forward5y5y: z.number().nullable(),
+});
+
+export const BreakevensResponseSchema = z.object({
+  data: z.array(BreakevenTermStructureSchema),
+  meta: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+    timeframe: z.string(),
+    count: z.number(),
+    source: sourceField,
+    precomputed: z.boolean(),
+  }),
+});
+
+export const RolloverMonthSchema = z.object({
+  month: z.string().describe('YYYY-MM'),
+  bills: z.number(),
+  notes: z.number(),
+  bonds: z.number(),
+  tips: z.number(),
+  frn: z.number(),
+  total: z.number(),
+});
+
+export const SupplyMetricsSchema = z.object({
+  date: z.string().describe('MSPD record date'),
+  totalOutstanding: z.number().describe('Marketable debt outstanding, USD'),
+  wamMonths: z.number().describe('Weighted average maturity in months'),
+  maturing3m: z.number().describe('Percent of marketable debt maturing within 3 months'),
+  maturing6m: z.number().describe('Percent maturing within 6 months'),
+  maturing12m: z.number().describe('Percent maturing within 12 months'),
+  maturing24m: z.number().describe('Percent maturing within 24 months'),
+  billShare: z.number().describe('Percent of marketable debt in bills'),
+  rollover: z.array(RolloverMonthSchema).describe('USD maturing per calendar month, next 60 months'),
+});
+
+export const SupplyMetricsResponseSchema = z.object({
+  data: z.array(SupplyMetricsSchema),
+  meta: z.object({
+    computedAt: z.string(),
+    startDate: z.string(),
+    endDate: z.string(),
+    timeframe: z.string(),
+    count: z.number(),
+    source: sourceField,
+    precomputed: z.boolean(),
+  }),
+});
+
+export const InterestProjectionYearSchema = z.object({
+  year: z.number().describe('Years after the snapshot'),
+  endDate: z.string(),
+  interestExpense: z.number().describe('Interest cost over the year, USD'),
+  averageRate: z.number().describe('Weighted average interest rate at year end, percent'),
+  outstanding: z.number().describe('Marketable debt outstanding at year end, USD'),
+  wamMonths: z.number().describe('Weighted average maturity at year end, months'),
+  billShare: z.number().describe('Bill share of debt outstanding at year end, percent'),
+  rolledOver: z.number().describe('Maturing debt refinanced during the year, USD'),
+  rolledAverageRate: z.number().nullable().describe('Weighted average rate on debt issued during the year (refinancing and new borrowing), percent'),
+});
+
+export const ProjectionCurrentSchema = z.object({
+  annualInterest: z.number().describe('Annualized interest cost at the snapshot, USD'),
+  averageRate: z.number(),
+  outstanding: z.number(),
+  wamMonths: z.number(),
+  billShare: z.number(),
+});
+
+export const InterestProjectionResponseSchema = z.object({
+  data: z.object({
+    assumptions: z.object({
+      recordDate: z.string().describe('MSPD snapshot projected from'),
+      years: z.number(),
+      rateSource: z.enum(['yield-curve', 'rate-path']),
+      curveDate: z.string().nullable().describe('Yield curve date (yield-curve source)'),
+      curve: z.array(YieldCurveTenorPointSchema).nullable().describe('Nominal par yields held constant over the projection'),
+      ratePath: z.array(z.number()).nullable().describe('Refinancing rate per projection year (rate-path source)'),
+      reissueTerm: z.literal('original').describe('Maturing securities are reissued at their original term'),
+      newBorrowing: z.literal(0).describe('Debt outstanding is held constant'),
+    }),
+    current: ProjectionCurrentSchema,
+    projection: z.array(InterestProjectionYearSchema),
+  }),
+  meta: z.object({
+    computedAt: z.string(),
+    source: sourceField.describe('api when the snapshot or the curve came from the Live API'),
+  }),
+});
+
+export const ScenarioSchema = z.object({
+  name: z.string(),
+  description: z.string().nullable(),
+  parameters: ScenarioParametersSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const ScenariosResponseSchema = z.object({
+  data: z.array(ScenarioSchema),
+  meta: z.object({
+    count: z.number(),
+    source: z.literal('database'),
+  }),
+});
+
+export const ScenarioSaveResponseSchema = z.object({
+  data: ScenarioSchema,
+  meta: z.object({
+    source: z.literal('database'),
+  }),
+});
+
+export const ScenarioRunSchema = z.object({
+  current: ProjectionCurrentSchema,
+  projection: z.array(InterestProjectionYearSchema),
+  maturityWall: z.array(MaturityWallDataSchema).describe('Debt maturing per year at the end of the projection'),
+});
+
+export const ScenarioRunResponseSchema = z.object({
+  data: z.object({
+    name: z.string().nullable().describe('Saved scenario name (null for inline parameters)'),
+    parameters: ScenarioParametersSchema,
+    assumptions: z.object({
+      recordDate: z.string().describe('MSPD snapshot projected from'),
+      curveDate: z.string(),
+      curve: z.array(YieldCurveTenorPointSchema).describe('Baseline nominal par yields held constant over the projection'),
+    }),
+    baseline: ScenarioRunSchema.describe('Unshocked curve, maturing debt reissued at its original term, no new borrowing'),
+    scenario: ScenarioRunSchema,
+  }),
+  meta: z.object({
+    computedAt: z.string(),
+    source: sourceField.describe('api when the snapshot or the curve came from the Live API'),
+  }),
+});
+
+export const SeriesResponseSchema = z.object({
+  data: z.object({
+    dates: z.array(z.string()),
+    series: z.array(z.object({
+      id: z.string(),
+      label: z.string(),
+      units: z.enum(['usd', 'percent', 'ratio', 'months']),
+      source: z.string(),
+      observations: z.number(),
+      values: z.array(z.number().nullable()),
+    })),
+  }),
+  meta: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+    frequency: z.enum(SERIES_FREQUENCIES),
+    aggregation: z.enum(SERIES_AGGREGATIONS),
+    periodLabel: z.literal('start'),
+    count: z.number(),
+    source: z.literal('database'),
+  }),
+});
+
+export const QualityRuleSchema = z.object({
+  id: z.string(),
+  dataset: z.enum(DATASETS),
+  severity: z.enum(QUALITY_SEVERITIES),
+  description: z.string(),
+});
+
+export const DataQualityResponseSchema = z.object({
+  rules: z.array(QualityRuleSchema).describe('Every rule, whether or not it has violations'),
+  summary: z.array(z.object({
+    ruleId: z.string(),
+    dataset: z.string(),
+    severity: z.string(),
+    count: z.number(),
+    latestRecordDate: z.string().nullable(),
+  })).describe('Violation counts per rule, most violated first'),
+  violations: z.array(z.object({
+    ruleId: z.string(),
+    dataset: z.string(),
+    severity: z.string(),
+    recordKey: z.string(),
+    recordDate: z.string(),
+    message: z.string(),
+    etlJobId: z.number().nullable(),
+    detectedAt: z.string(),
+  })).describe('Violations, newest record date first'),
+  meta: z.object({
+    dataset: z.enum(DATASETS).nullable(),
+    severity: z.enum(QUALITY_SEVERITIES).nullable(),
+    startDate: z.string(),
+    endDate: z.string(),
+    count: z.number(),
+    source: z.enum(['database', 'none']).describe('none without a database'),
+  }),
+});
+
+export const RevisionsResponseSchema = z.object({
+  data: z.array(z.object({
+    recordDate: z.string(),
+    naturalKey: z.string(),
+    field: z.string(),
+    oldValue: z.string().nullable(),
+    newValue: z.string().nullable(),
+    etlJobId: z.number().nullable(),
+    detectedAt: z.string(),
+  })),
+  meta: z.object({
+    dataset: z.enum(DATASETS),
+    table: z.string(),
+    startDate: z.string(),
+    endDate: z.string(),
+    field: z.string().nullable(),
+    count: z.number(),
+    limit: z.number(),
+  }),
+});
+
+// ---------------------------------------------------------------------------
+// Inferred types
+// ---------------------------------------------------------------------------
+
+export type HealthHistoryPoint = z.infer<typeof HealthHistoryPointSchema>;
+export type OwnershipResponse = z.infer<typeof OwnershipResponseSchema>;
+export type MaturityWallResponse = z.infer<typeof MaturityWallResponseSchema>;
+export type AuctionsResponse = z.infer<typeof AuctionsResponseSchema>;
+export type YieldCurveResponse = z.infer<typeof YieldCurveResponseSchema>;
+export type FittedCurveResponse = z.infer<typeof FittedCurveResponseSchema>;
+export type BreakevensResponse = z.infer<typeof BreakevensResponseSchema>;
+export type SupplyMetricsResponse = z.infer<typeof SupplyMetricsResponseSchema>;
+export type InterestProjectionResponse = z.infer<typeof InterestProjectionResponseSchema>;
+export type ScenariosResponse = z.infer<typeof ScenariosResponseSchema>;
+export type ScenarioRunResponse = z.infer<typeof ScenarioRunResponseSchema>;
+export type SeriesResponse = z.infer<typeof SeriesResponseSchema>;
+export type DataQualityResponse = z.infer<typeof DataQualityResponseSchema>;
+export type RevisionsResponse = z.infer<typeof RevisionsResponseSchema>;
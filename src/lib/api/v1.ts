@@ -0,0 +1,82 @@
+/**
+ * API v1 Routes
+ *
+ * Wraps an unversioned route handler so it answers in the v1 envelope
+ * (envelope.ts). Query parsing, rate limiting and data access stay in the
+ * unversioned handler; downloads (`format=csv|...`) pass through unchanged.
+ * Routes served only under /api/v1 wrap their own handler the same way.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  API_ERROR_CODES,
+  FALLBACK_HEADER,
+  SOURCE_HEADER,
+  STATUS_ERROR_CODES,
+  splitBody,
+  type ApiErrorCode,
+  type ApiErrorEntry,
+} from './envelope';
+
+type RouteHandler = (request: Request) => Promise<Response>;
+
+// Headers carried over from the unversioned response
+const FORWARDED_HEADERS = [
+  'Cache-Control',
+  'Retry-After',
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'X-RateLimit-Reset',
+];
+
+/**
+ * A v1 error response: `{ data: null, meta: {}, errors: [{ code, message }] }`
+ */
+export function errorEnvelope(
+  code: ApiErrorCode,
+  message: string = API_ERROR_CODES[code],
+  status = 500,
+  headers?: HeadersInit
+) {
+  return NextResponse.json(
+    { data: null, meta: {}, errors: [{ code, message }] },
+    { status, headers }
+  );
+}
+
+/**
+ * Serve an unversioned route handler under /api/v1
+ */
+export function v1Route(handler: RouteHandler): RouteHandler {
+  return async (request: Request) => {
+    const res = await handler(request);
+
+    // Downloads are served as-is
+    if (res.headers.has('Content-Disposition')) return res;
+
+    const headers = new Headers();
+    for (const name of FORWARDED_HEADERS) {
+      const value = res.headers.get(name);
+      if (value) headers.set(name, value);
+    }
+
+    const body: unknown = await res.json().catch(() => null);
+
+    if (!res.ok) {
+      const code = STATUS_ERROR_CODES[res.status] ?? 'INTERNAL_ERROR';
+      const message = body && typeof body === 'object' && 'error' in body && typeof body.error === 'string'
+        ? body.error
+        : API_ERROR_CODES[code];
+      return errorEnvelope(code, message, res.status, headers);
+    }
+
+    const { data, meta } = splitBody(body);
+    const source = res.headers.get(SOURCE_HEADER) ?? meta.source;
+    const fallback = res.headers.get(FALLBACK_HEADER) as ApiErrorCode | null;
+    const errors: ApiErrorEntry[] = fallback
+      ? [{ code: fallback, message: API_ERROR_CODES[fallback] }]
+      : [];
+
+    return NextResponse.json({ data, meta: { ...meta, source }, errors }, { status: res.status, headers });
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Cron Authentication
+ *
+ * Shared bearer-secret check for cron and admin ETL endpoints. Admin
+ * endpoints also accept an API key with the admin scope.
+ */
+
+import { authenticateApiKey, recordApiKeyUsage } from './api-keys';
+
+/**
+ * Verify the request is from a valid cron job
+ */
+export function verifyCronSecret(request: Request): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In development, allow without secret
+  if (process.env.NODE_ENV === 'development') {
+    return true;
+  }
+
+  if (!cronSecret) {
+    console.warn('[Cron] CRON_SECRET not set');
+    return false;
+  }
+
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+/**
+ * Verify the request is from a valid cron job or carries an admin-scoped API key
+ */
+export async function verifyAdminRequest(request: Request): Promise<boolean> {
+  if (verifyCronSecret(request)) return true;
+
+  const apiKey = await authenticateApiKey(request).catch(() => null);
+  if (!apiKey || !apiKey.scopes.includes('admin')) return false;
+
+  await recordApiKeyUsage(apiKey.id);
+  return true;
+}
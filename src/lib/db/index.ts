@@ -11,7 +11,7 @@ import type { VercelPgDatabase } from 'drizzle-orm/vercel-postgres';
 import * as schema from './schema';
 
 // Type for our database instance
-type Database = VercelPgDatabase<typeof schema>;
+export type Database = VercelPgDatabase<typeof schema>;
 
 // Check if database is configured
 const isDatabaseConfigured = !!(
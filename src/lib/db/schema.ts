@@ -17,7 +17,17 @@ import {
   pgEnum,
   uniqueIndex,
   index,
+  jsonb,
+  customType,
 } from 'drizzle-orm/pg-core';
+import type { ApiKeyScope, RolloverMonth, ScenarioParameters, SchemaDriftReport } from '../types/treasury';
+
+// Binary column (gzip-compressed payloads)
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return 'bytea';
+  },
+});
 
 // Enums for consistent categorization
 export const securityTypeEnum = pgEnum('security_type', [
@@ -98,6 +108,10 @@ export const treasuryAuctions = pgTable(
     highYield: decimal('high_yield', { precision: 8, scale: 5 }),
     highDiscountRate: decimal('high_discount_rate', { precision: 8, scale: 5 }),
     
+    // Tail vs the auction-day secondary market (coupon auctions; see src/lib/analytics/auction-tails.ts)
+    marketYield: decimal('market_yield', { precision: 8, scale: 5 }),
+    tailBps: decimal('tail_bps', { precision: 8, scale: 2 }), // High yield minus market yield
+    
     // Amounts
     offeringAmount: decimal('offering_amount', { precision: 20, scale: 2 }),
     acceptedAmount: decimal('accepted_amount', { precision: 20, scale: 2 }),
@@ -135,6 +149,7 @@ export const dailyDebtSnapshots = pgTable(
     
     // Metadata
     createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
   (table) => [
     index('debt_snapshots_record_date_idx').on(table.recordDate),
@@ -203,6 +218,88 @@ export const economicIndicators = pgTable(
   ]
 );
 
+// Yield Curve Points (every published tenor, nominal and real, per day)
+export const yieldCurvePoints = pgTable(
+  'yield_curve_points',
+  {
+    id: serial('id').primaryKey(),
+    
+    recordDate: date('record_date').notNull(),
+    curveType: varchar('curve_type', { length: 10 }).notNull(), // 'nominal' or 'real'
+    tenor: varchar('tenor', { length: 5 }).notNull(), // e.g. '1M', '10Y'
+    tenorMonths: integer('tenor_months').notNull(),
+    yield: decimal('yield', { precision: 6, scale: 4 }).notNull(),
+    
+    // Metadata
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('yield_curve_date_type_tenor_idx').on(table.recordDate, table.curveType, table.tenor),
+    index('yield_curve_record_date_idx').on(table.recordDate),
+  ]
+);
+
+// Breakeven Inflation Term Structure (derived from yield_curve_points)
+export const breakevenRates = pgTable(
+  'breakeven_rates',
+  {
+    id: serial('id').primaryKey(),
+    
+    recordDate: date('record_date').notNull().unique(),
+    
+    // Nominal minus real yield at each TIPS tenor (percent)
+    breakeven5y: decimal('breakeven_5y', { precision: 6, scale: 4 }),
+    breakeven7y: decimal('breakeven_7y', { precision: 6, scale: 4 }),
+    breakeven10y: decimal('breakeven_10y', { precision: 6, scale: 4 }),
+    breakeven20y: decimal('breakeven_20y', { precision: 6, scale: 4 }),
+    breakeven30y: decimal('breakeven_30y', { precision: 6, scale: 4 }),
+    
+    // 5-year breakeven starting in 5 years, from the fitted curves
+    forward5y5y: decimal('forward_5y5y', { precision: 6, scale: 4 }),
+    
+    // Metadata
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('breakeven_record_date_idx').on(table.recordDate),
+  ]
+);
+
+// Supply Metrics (rollover profile per MSPD record date, derived from treasury_securities)
+export const supplyMetrics = pgTable(
+  'supply_metrics',
+  {
+    id: serial('id').primaryKey(),
+    
+    recordDate: date('record_date').notNull().unique(),
+    
+    // Marketable debt maturing after the record date (dollars)
+    totalOutstanding: decimal('total_outstanding', { precision: 20, scale: 2 }).notNull(),
+    
+    // Weighted average maturity (months)
+    wamMonths: decimal('wam_months', { precision: 8, scale: 4 }).notNull(),
+    
+    // Percent of marketable debt maturing within each horizon, and in bills
+    maturing3m: decimal('maturing_3m', { precision: 8, scale: 4 }).notNull(),
+    maturing6m: decimal('maturing_6m', { precision: 8, scale: 4 }).notNull(),
+    maturing12m: decimal('maturing_12m', { precision: 8, scale: 4 }).notNull(),
+    maturing24m: decimal('maturing_24m', { precision: 8, scale: 4 }).notNull(),
+    billShare: decimal('bill_share', { precision: 8, scale: 4 }).notNull(),
+    
+    // Dollars maturing per calendar month by security type
+    rolloverSchedule: jsonb('rollover_schedule').$type<RolloverMonth[]>().notNull(),
+    
+    // Metadata
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('supply_metrics_record_date_idx').on(table.recordDate),
+  ]
+);
+
 // ETL Job Log (for tracking ingestion runs)
 export const etlJobLog = pgTable(
   'etl_job_log',
@@ -214,15 +311,171 @@ export const etlJobLog = pgTable(
     recordsProcessed: integer('records_processed').default(0),
     errorMessage: text('error_message'),
     
+    // Latest record date successfully ingested (jobs resume from here)
+    watermark: date('watermark'),
+    
+    // Treasury API responses that did not match the expected record schemas
+    schemaDrift: jsonb('schema_drift').$type<SchemaDriftReport[]>(),
+    
     startedAt: timestamp('started_at').defaultNow().notNull(),
     completedAt: timestamp('completed_at'),
+    durationMs: integer('duration_ms'),
   },
   (table) => [
     index('etl_job_name_idx').on(table.jobName),
     index('etl_started_at_idx').on(table.startedAt),
+    index('etl_job_name_status_idx').on(table.jobName, table.status),
+  ]
+);
+
+// Data Revisions (audit trail of restated Treasury figures)
+export const dataRevisions = pgTable(
+  'data_revisions',
+  {
+    id: serial('id').primaryKey(),
+    
+    // Which record changed
+    tableName: varchar('table_name', { length: 100 }).notNull(),
+    naturalKey: varchar('natural_key', { length: 100 }).notNull(), // e.g. "2025-01-02|91282CLW9"
+    recordDate: date('record_date').notNull(),
+    
+    // What changed
+    field: varchar('field', { length: 100 }).notNull(),
+    oldValue: text('old_value'),
+    newValue: text('new_value'),
+    
+    // Ingest run that detected the change
+    etlJobId: integer('etl_job_id').references(() => etlJobLog.id),
+    detectedAt: timestamp('detected_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('revisions_table_record_date_idx').on(table.tableName, table.recordDate),
+    index('revisions_detected_at_idx').on(table.detectedAt),
+  ]
+);
+
+// Raw API Payloads (archive of every Treasury API page fetched)
+export const rawApiPayloads = pgTable(
+  'raw_api_payloads',
+  {
+    id: serial('id').primaryKey(),
+    
+    // Request
+    endpoint: varchar('endpoint', { length: 200 }).notNull(),
+    url: text('url').notNull(),
+    params: jsonb('params').$type<Record<string, string>>().notNull(),
+    pageNumber: integer('page_number'),
+    
+    // Response meta
+    recordCount: integer('record_count').notNull(),
+    totalCount: integer('total_count'),
+    totalPages: integer('total_pages'),
+    
+    // Response body, gzip-compressed JSON
+    payload: bytea('payload').notNull(),
+    payloadBytes: integer('payload_bytes').notNull(), // Uncompressed size
+    
+    fetchedAt: timestamp('fetched_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('raw_payloads_endpoint_fetched_idx').on(table.endpoint, table.fetchedAt),
+  ]
+);
+
+// API Schema Baselines (last observed field set per Treasury endpoint)
+export const apiSchemaBaselines = pgTable('api_schema_baselines', {
+  endpoint: varchar('endpoint', { length: 200 }).primaryKey(),
+  fields: jsonb('fields').$type<Record<string, string>>().notNull(), // Field name -> meta.dataTypes value
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Data Quality Violations (rule failures found in cleaned records at ingest)
+export const dataQualityViolations = pgTable(
+  'data_quality_violations',
+  {
+    id: serial('id').primaryKey(),
+    
+    ruleId: varchar('rule_id', { length: 100 }).notNull(),
+    dataset: varchar('dataset', { length: 50 }).notNull(), // debt, securities, auctions, indicators
+    severity: varchar('severity', { length: 20 }).notNull(), // 'error', 'warning', 'info'
+    recordKey: varchar('record_key', { length: 100 }).notNull(),
+    recordDate: date('record_date').notNull(),
+    message: text('message').notNull(),
+    
+    // Last ingest run that found the violation
+    etlJobId: integer('etl_job_id').references(() => etlJobLog.id),
+    detectedAt: timestamp('detected_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('quality_rule_record_idx').on(table.ruleId, table.recordKey),
+    index('quality_dataset_date_idx').on(table.dataset, table.recordDate),
+  ]
+);
+
+// API Keys (partner access; only the SHA-256 hash of each key is stored)
+export const apiKeys = pgTable(
+  'api_keys',
+  {
+    id: serial('id').primaryKey(),
+    
+    name: varchar('name', { length: 100 }).notNull(),
+    prefix: varchar('prefix', { length: 16 }).notNull(), // First characters of the key, for identification
+    keyHash: varchar('key_hash', { length: 64 }).notNull(),
+    scopes: jsonb('scopes').$type<ApiKeyScope[]>().notNull(), // read, chat, admin
+    tier: varchar('tier', { length: 20 }).notNull().default('standard'), // Rate limit tier
+    
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    lastUsedAt: timestamp('last_used_at'),
+    revokedAt: timestamp('revoked_at'),
+  },
+  (table) => [
+    uniqueIndex('api_keys_hash_idx').on(table.keyHash),
+  ]
+);
+
+// API Key Usage (request counters per key per day)
+export const apiKeyUsage = pgTable(
+  'api_key_usage',
+  {
+    id: serial('id').primaryKey(),
+    
+    keyId: integer('key_id').references(() => apiKeys.id).notNull(),
+    usageDate: date('usage_date').notNull(),
+    requests: integer('requests').notNull().default(0),
+    rateLimited: integer('rate_limited').notNull().default(0), // Requests rejected with 429
+  },
+  (table) => [
+    uniqueIndex('api_key_usage_key_date_idx').on(table.keyId, table.usageDate),
+  ]
+);
+
+// Rate Limit Buckets (shared rate limiter state; see src/lib/rate-limit)
+export const rateLimitBuckets = pgTable(
+  'rate_limit_buckets',
+  {
+    key: varchar('key', { length: 200 }).primaryKey(), // e.g. debt:203.0.113.7
+    state: jsonb('state').$type<Record<string, number>>().notNull(), // Algorithm state
+    version: integer('version').notNull(), // Bumped on every write (compare-and-set)
+    expiresAt: timestamp('expires_at').notNull(),
+  },
+  (table) => [
+    index('rate_limit_buckets_expires_idx').on(table.expiresAt),
   ]
 );
 
+// Refinancing Scenarios (saved by name; see src/lib/analytics/refinancing-scenario.ts)
+export const refinancingScenarios = pgTable('refinancing_scenarios', {
+  id: serial('id').primaryKey(),
+  
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  description: text('description'),
+  parameters: jsonb('parameters').$type<ScenarioParameters>().notNull(), // Shocks, bill share target, deficit
+  
+  // Metadata
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Type exports for use in application code
 export type TreasurySecurity = typeof treasurySecurities.$inferSelect;
 export type NewTreasurySecurity = typeof treasurySecurities.$inferInsert;
@@ -239,5 +492,33 @@ export type NewMaturityWallAggregate = typeof maturityWallAggregates.$inferInser
 export type EconomicIndicator = typeof economicIndicators.$inferSelect;
 export type NewEconomicIndicator = typeof economicIndicators.$inferInsert;
 
+export type YieldCurvePoint = typeof yieldCurvePoints.$inferSelect;
+export type NewYieldCurvePoint = typeof yieldCurvePoints.$inferInsert;
+
+export type BreakevenRate = typeof breakevenRates.$inferSelect;
+export type NewBreakevenRate = typeof breakevenRates.$inferInsert;
+
+export type SupplyMetric = typeof supplyMetrics.$inferSelect;
+export type NewSupplyMetric = typeof supplyMetrics.$inferInsert;
+
 export type EtlJobLog = typeof etlJobLog.$inferSelect;
 export type NewEtlJobLog = typeof etlJobLog.$inferInsert;
+
+export type DataRevision = typeof dataRevisions.$inferSelect;
+export type NewDataRevision = typeof dataRevisions.$inferInsert;
+
+export type RawApiPayload = typeof rawApiPayloads.$inferSelect;
+export type NewRawApiPayload = typeof rawApiPayloads.$inferInsert;
+
+export type ApiSchemaBaseline = typeof apiSchemaBaselines.$inferSelect;
+
+export type DataQualityViolation = typeof dataQualityViolations.$inferSelect;
+export type NewDataQualityViolation = typeof dataQualityViolations.$inferInsert;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+
+export type RefinancingScenario = typeof refinancingScenarios.$inferSelect;
+export type NewRefinancingScenario = typeof refinancingScenarios.$inferInsert;
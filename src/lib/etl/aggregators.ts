@@ -10,7 +10,11 @@ import type {
   CleanedAuction,
   MaturityWallData,
   AuctionDemandData,
+  AuctionTailStats,
+  YieldCurve,
 } from '../types/treasury';
+import { computeAuctionTail } from '../analytics/auction-tails';
+import { auctionTermHistory } from '../analytics/auction-terms';
 
 /**
  * Aggregate securities by maturity year for the Maturity Wall chart
@@ -81,37 +85,60 @@ export function aggregateMaturityWall(
 /**
  * Filter and format auction data for the demand chart
  * 
+ * Auctions before startDate are only used for the reopening flags and
+ * rolling averages, so pass a few years of extra history to fill them.
+ * 
  * @param auctions - Cleaned auction records
  * @param securityTypes - Filter to specific security types
  * @param startDate - Filter to auctions after this date
+ * @param endDate - Filter to auctions on or before this date
+ * @param curves - Yield curves by date, to compute coupon auction tails
  */
 export function aggregateAuctionDemand(
   auctions: CleanedAuction[],
   securityTypes: string[] = ['NOTE', 'BOND'],
-  startDate?: string
+  startDate?: string,
+  endDate?: string,
+  curves?: Map<string, YieldCurve>
 ): AuctionDemandData[] {
   let filtered = auctions.filter(a => 
     a.bidToCoverRatio !== null &&
     securityTypes.includes(a.securityType)
   );
-  
-  if (startDate) {
-    filtered = filtered.filter(a => a.auctionDate >= startDate);
+
+  if (endDate) {
+    filtered = filtered.filter(a => a.auctionDate <= endDate);
   }
   
   // Sort by date ascending for charting
   filtered.sort((a, b) => a.auctionDate.localeCompare(b.auctionDate));
-  
-  return filtered.map(a => ({
-    date: a.auctionDate,
+
+  const tails = filtered.map(a => curves ? computeAuctionTail(a, curves.get(a.auctionDate)) : null);
+  const history = auctionTermHistory(filtered.map((a, i) => ({
+    ...a,
     ratio: a.bidToCoverRatio!,
-    type: a.securityTypeRaw,
-    term: a.securityTerm,
-    direct: a.directBidderAccepted ?? undefined,
-    indirect: a.indirectBidderAccepted ?? undefined,
-    dealers: a.primaryDealerAccepted ?? undefined,
-    accepted: a.acceptedAmount ?? undefined,
-  }));
+    tailBps: tails[i]?.tailBps,
+  })));
+  
+  return filtered
+    .map((a, i) => ({
+      date: a.auctionDate,
+      ratio: a.bidToCoverRatio!,
+      type: a.securityTypeRaw,
+      term: a.securityTerm,
+      benchmarkTerm: history[i].benchmarkTerm,
+      reopening: history[i].reopening,
+      direct: a.directBidderAccepted ?? undefined,
+      indirect: a.indirectBidderAccepted ?? undefined,
+      dealers: a.primaryDealerAccepted ?? undefined,
+      accepted: a.acceptedAmount ?? undefined,
+      highYield: a.highYield ?? undefined,
+      marketYield: tails[i]?.marketYield,
+      tailBps: tails[i]?.tailBps,
+      rollingRatio: history[i].rollingRatio,
+      rollingTailBps: history[i].rollingTailBps,
+    }))
+    .filter(a => !startDate || a.date >= startDate);
 }
 
 /**
@@ -142,6 +169,38 @@ export function calculateAuctionStats(auctions: AuctionDemandData[]) {
   };
 }
 
+/**
+ * Tail statistics per security type and benchmark term, for auctions with
+ * a tail
+ */
+export function calculateTailStats(auctions: AuctionDemandData[]): AuctionTailStats[] {
+  const byTerm = new Map<string, { type: string; term: string; tails: number[] }>();
+  for (const auction of auctions) {
+    if (auction.tailBps === undefined || !auction.benchmarkTerm) continue;
+    const key = `${auction.type}:${auction.benchmarkTerm}`;
+    const group = byTerm.get(key) ?? { type: auction.type, term: auction.benchmarkTerm, tails: [] };
+    group.tails.push(auction.tailBps);
+    byTerm.set(key, group);
+  }
+
+  return [...byTerm.values()]
+    .map(({ type, term, tails }) => {
+      const sorted = [...tails].sort((a, b) => a - b);
+      return {
+        type,
+        term,
+        count: sorted.length,
+        avgTailBps: sorted.reduce((acc, t) => acc + t, 0) / sorted.length,
+        medianTailBps: sorted[Math.floor(sorted.length / 2)],
+        minTailBps: sorted[0],
+        maxTailBps: sorted[sorted.length - 1],
+        tails: sorted.filter(t => t > 0).length,
+        throughs: sorted.filter(t => t < 0).length,
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type) || a.term.localeCompare(b.term));
+}
+
 /**
  * Group auctions by month for trend analysis
  */
@@ -0,0 +1,64 @@
+/**
+ * Auction Tail Snapshots
+ *
+ * Computes the tail of each stored coupon auction against the stored
+ * auction-day yield curve and writes it to treasury_auctions. Run after
+ * auctions or yield curves are ingested, since either may arrive first.
+ */
+
+import { and, eq, gte, inArray, isNotNull, lte } from 'drizzle-orm';
+import type { Database } from '../db';
+import { treasuryAuctions } from '../db/schema';
+import type { YieldCurve } from '../types/treasury';
+import { computeAuctionTail, TAIL_SECURITY_TYPES } from '../analytics/auction-tails';
+import { loadYieldCurves } from './yield-curves';
+
+/**
+ * Parse a stored decimal
+ */
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+/**
+ * Recompute and store tails for coupon auctions held between the earliest
+ * and latest of the given dates (auction or curve record dates)
+ *
+ * @returns Number of auctions whose tail changed
+ */
+export async function storeAuctionTails(db: Database, recordDates: string[]): Promise<number> {
+  const dates = [...new Set(recordDates)].sort();
+  if (dates.length === 0) return 0;
+  const startDate = dates[0];
+  const endDate = dates[dates.length - 1];
+
+  const auctions = await db.select()
+    .from(treasuryAuctions)
+    .where(and(
+      gte(treasuryAuctions.auctionDate, startDate),
+      lte(treasuryAuctions.auctionDate, endDate),
+      inArray(treasuryAuctions.securityType, [...TAIL_SECURITY_TYPES]),
+      isNotNull(treasuryAuctions.highYield)
+    ));
+  if (auctions.length === 0) return 0;
+
+  const curves = new Map<string, YieldCurve>(
+    (await loadYieldCurves(db, startDate, endDate)).map(c => [c.date, c])
+  );
+
+  let written = 0;
+  for (const auction of auctions) {
+    const tail = computeAuctionTail({ ...auction, highYield: toNumber(auction.highYield) }, curves.get(auction.auctionDate));
+    const marketYield = tail?.marketYield ?? null;
+    const tailBps = tail?.tailBps ?? null;
+    if (toNumber(auction.marketYield) === marketYield && toNumber(auction.tailBps) === tailBps) continue;
+
+    await db.update(treasuryAuctions)
+      .set({ marketYield: marketYield?.toString() ?? null, tailBps: tailBps?.toString() ?? null })
+      .where(eq(treasuryAuctions.id, auction.id));
+    written++;
+  }
+
+  console.log(`[Auction Tails] ${startDate} to ${endDate}: ${written} of ${auctions.length} auction(s) updated`);
+  return written;
+}
@@ -0,0 +1,151 @@
+/**
+ * Historical Backfill
+ *
+ * Pages through date-filtered Treasury API queries and upserts the cleaned
+ * records, so history tables are populated beyond what the daily cron sees.
+ */
+
+import type { Database } from '../db';
+import {
+  fetchDebtHistory,
+  fetchSecuritiesHistory,
+  fetchAuctionHistory,
+  fetchInterestExpenseHistory,
+  fetchAvgInterestRateHistory,
+  fetchYieldCurveHistory,
+  fetchRealYieldCurveHistory,
+} from './treasury-client';
+import {
+  cleanDebtRecords,
+  cleanSecurityRecords,
+  cleanAuctionRecords,
+  cleanEconomicIndicatorHistory,
+  cleanYieldCurvePoints,
+} from './sanitizers';
+import {
+  upsertDebtSnapshots,
+  upsertSecurities,
+  upsertAuctions,
+  upsertEconomicIndicators,
+  upsertYieldCurvePoints,
+  type UpsertCounts,
+  type LoadContext,
+} from './loaders';
+import { storeMaturityWallAggregates } from './maturity-wall';
+import { storeAuctionTails } from './auction-tails';
+import { storeBreakevens } from './breakevens';
+import { storeSupplyMetrics } from './supply';
+
+export const BACKFILL_DATASETS = ['debt', 'securities', 'auctions', 'indicators', 'yield-curve'] as const;
+
+export type BackfillDataset = typeof BACKFILL_DATASETS[number];
+
+export interface BackfillResult {
+  dataset: BackfillDataset;
+  startDate: string;
+  endDate: string;
+  fetched: number;
+  stored: number;
+  counts: UpsertCounts;
+  latestRecordDate: string | null;
+  durationMs: number;
+}
+
+/**
+ * Type guard for dataset names coming from query params or CLI args
+ */
+export function isBackfillDataset(value: string): value is BackfillDataset {
+  return (BACKFILL_DATASETS as readonly string[]).includes(value);
+}
+
+/**
+ * Backfill a single dataset for an inclusive date range (YYYY-MM-DD)
+ */
+export async function runBackfill(
+  db: Database,
+  dataset: BackfillDataset,
+  startDate: string,
+  endDate: string,
+  context: LoadContext = {}
+): Promise<BackfillResult> {
+  const startTime = Date.now();
+  let fetched = 0;
+  let counts: UpsertCounts = { inserted: 0, updated: 0, unchanged: 0 };
+  let dates: string[] = [];
+
+  console.log(`[Backfill] ${dataset}: ${startDate} to ${endDate}`);
+
+  switch (dataset) {
+    case 'debt': {
+      const raw = await fetchDebtHistory(startDate, endDate);
+      const cleaned = cleanDebtRecords(raw);
+      fetched = raw.length;
+      dates = cleaned.map(d => d.recordDate);
+      counts = await upsertDebtSnapshots(db, cleaned, context);
+      break;
+    }
+    case 'securities': {
+      const raw = await fetchSecuritiesHistory(startDate, endDate);
+      const cleaned = cleanSecurityRecords(raw);
+      fetched = raw.length;
+      dates = cleaned.map(s => s.recordDate);
+      counts = await upsertSecurities(db, cleaned, context);
+      await storeMaturityWallAggregates(db, dates);
+      await storeSupplyMetrics(db, dates);
+      break;
+    }
+    case 'auctions': {
+      const raw = await fetchAuctionHistory(startDate, endDate);
+      const cleaned = cleanAuctionRecords(raw);
+      fetched = raw.length;
+      dates = cleaned.map(a => a.auctionDate);
+      counts = await upsertAuctions(db, cleaned, context);
+      await storeAuctionTails(db, dates);
+      break;
+    }
+    case 'indicators': {
+      // Monthly series need one extra month of lookback so the first days
+      // of the range can carry forward a value
+      const lookback = new Date(startDate);
+      lookback.setMonth(lookback.getMonth() - 1);
+      const lookbackDate = lookback.toISOString().split('T')[0];
+
+      const [expenses, rates, yields, realYields] = await Promise.all([
+        fetchInterestExpenseHistory(lookbackDate, endDate),
+        fetchAvgInterestRateHistory(lookbackDate, endDate),
+        fetchYieldCurveHistory(startDate, endDate),
+        fetchRealYieldCurveHistory(startDate, endDate),
+      ]);
+      fetched = expenses.length + rates.length + yields.length + realYields.length;
+
+      const cleaned = cleanEconomicIndicatorHistory(expenses, rates, yields, realYields)
+        .filter(i => i.recordDate >= startDate && i.recordDate <= endDate);
+      dates = cleaned.map(i => i.recordDate);
+      counts = await upsertEconomicIndicators(db, cleaned, context);
+      break;
+    }
+    case 'yield-curve': {
+      const [nominal, real] = await Promise.all([
+        fetchYieldCurveHistory(startDate, endDate),
+        fetchRealYieldCurveHistory(startDate, endDate),
+      ]);
+      const cleaned = cleanYieldCurvePoints(nominal, real);
+      fetched = nominal.length + real.length;
+      dates = cleaned.map(p => p.recordDate);
+      counts = await upsertYieldCurvePoints(db, cleaned, context);
+      await storeBreakevens(db, dates);
+      await storeAuctionTails(db, dates);
+      break;
+    }
+  }
+
+  const durationMs = Date.now() - startTime;
+  const stored = counts.inserted + counts.updated + counts.unchanged;
+  const latestRecordDate = dates.length > 0 ? dates.reduce((a, b) => (a > b ? a : b)) : null;
+  console.log(
+    `[Backfill] ${dataset}: fetched ${fetched}, inserted ${counts.inserted}, ` +
+    `updated ${counts.updated}, unchanged ${counts.unchanged} in ${durationMs}ms`
+  );
+
+  return { dataset, startDate, endDate, fetched, stored, counts, latestRecordDate, durationMs };
+}
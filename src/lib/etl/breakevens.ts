@@ -0,0 +1,112 @@
+/**
+ * Breakeven Snapshots
+ *
+ * Computes the breakeven inflation term structure per record date from the
+ * stored yield curves and persists it to breakeven_rates, so the history
+ * can be served without re-fitting every curve.
+ */
+
+import { asc, gte, lte, and, sql } from 'drizzle-orm';
+import type { Database } from '../db';
+import { breakevenRates, type BreakevenRate } from '../db/schema';
+import type { BreakevenTermStructure } from '../types/treasury';
+import { BREAKEVEN_TENORS, computeBreakevens, type BreakevenTenor } from '../analytics/breakevens';
+import { chunkArray, excluded } from './loaders';
+import { loadYieldCurves } from './yield-curves';
+
+// Stored column per tenor
+const TENOR_COLUMNS = {
+  '5Y': 'breakeven5y',
+  '7Y': 'breakeven7y',
+  '10Y': 'breakeven10y',
+  '20Y': 'breakeven20y',
+  '30Y': 'breakeven30y',
+} as const satisfies Record<BreakevenTenor, keyof BreakevenRate>;
+
+const TENOR_MONTHS: Record<BreakevenTenor, number> = {
+  '5Y': 60,
+  '7Y': 84,
+  '10Y': 120,
+  '20Y': 240,
+  '30Y': 360,
+};
+
+/**
+ * Map a stored row back to a term structure
+ */
+function toTermStructure(row: BreakevenRate): BreakevenTermStructure {
+  return {
+    date: row.recordDate,
+    points: BREAKEVEN_TENORS.flatMap(tenor => {
+      const value = row[TENOR_COLUMNS[tenor]];
+      return value === null ? [] : [{ tenor, months: TENOR_MONTHS[tenor], breakeven: parseFloat(value) }];
+    }),
+    forward5y5y: row.forward5y5y !== null ? parseFloat(row.forward5y5y) : null,
+  };
+}
+
+/**
+ * Recompute and store breakevens for each record date with stored curves
+ *
+ * @returns Number of dates written
+ */
+export async function storeBreakevens(db: Database, recordDates: string[]): Promise<number> {
+  const dates = [...new Set(recordDates)].sort();
+  if (dates.length === 0) return 0;
+
+  const curves = await loadYieldCurves(db, dates[0], dates[dates.length - 1]);
+  const wanted = new Set(dates);
+  const structures = curves
+    .filter(c => wanted.has(c.date) && c.real.length > 0)
+    .map(computeBreakevens);
+
+  for (const chunk of chunkArray(structures, 500)) {
+    await db.insert(breakevenRates).values(
+      chunk.map(s => {
+        const byTenor = new Map(s.points.map(p => [p.tenor, p.breakeven.toString()]));
+        return {
+          recordDate: s.date,
+          breakeven5y: byTenor.get('5Y') ?? null,
+          breakeven7y: byTenor.get('7Y') ?? null,
+          breakeven10y: byTenor.get('10Y') ?? null,
+          breakeven20y: byTenor.get('20Y') ?? null,
+          breakeven30y: byTenor.get('30Y') ?? null,
+          forward5y5y: s.forward5y5y?.toString() ?? null,
+        };
+      })
+    ).onConflictDoUpdate({
+      target: breakevenRates.recordDate,
+      set: {
+        breakeven5y: excluded(breakevenRates.breakeven5y),
+        breakeven7y: excluded(breakevenRates.breakeven7y),
+        breakeven10y: excluded(breakevenRates.breakeven10y),
+        breakeven20y: excluded(breakevenRates.breakeven20y),
+        breakeven30y: excluded(breakevenRates.breakeven30y),
+        forward5y5y: excluded(breakevenRates.forward5y5y),
+        updatedAt: sql`now()`,
+      },
+    });
+  }
+
+  console.log(`[Aggregates] Breakevens for ${structures.length} record date(s)`);
+  return structures.length;
+}
+
+/**
+ * Load stored term structures for an inclusive date range, oldest first
+ */
+export async function loadBreakevens(
+  db: Database,
+  startDate: string,
+  endDate: string
+): Promise<BreakevenTermStructure[]> {
+  const rows = await db.select()
+    .from(breakevenRates)
+    .where(and(
+      gte(breakevenRates.recordDate, startDate),
+      lte(breakevenRates.recordDate, endDate)
+    ))
+    .orderBy(asc(breakevenRates.recordDate));
+
+  return rows.map(toTermStructure);
+}
@@ -0,0 +1,264 @@
+/**
+ * Data Quality Checks
+ *
+ * Runs the rules in ./quality-rules over each batch of cleaned records the
+ * loaders write and keeps `data_quality_violations` in step: violations of
+ * re-checked records are replaced, so a record that is corrected upstream
+ * drops out of the table on the next ingest.
+ */
+
+import { and, count, desc, eq, gte, inArray, lt, lte, max, sql } from 'drizzle-orm';
+import type { Database } from '../db';
+import { dailyDebtSnapshots, dataQualityViolations, type NewDataQualityViolation } from '../db/schema';
+import type {
+  CleanedSecurity,
+  CleanedAuction,
+  CleanedDebtSnapshot,
+  CleanedEconomicIndicator,
+  CleanedYieldCurvePoint,
+} from '../types/treasury';
+import {
+  QUALITY_RULES,
+  cusipKey,
+  curvePointKey,
+  type QualityContext,
+  type QualityDataset,
+  type QualityRule,
+  type QualitySeverity,
+} from './quality-rules';
+
+// Keys / rows per statement
+const BATCH_SIZE = 500;
+
+/**
+ * Load the stored data cross-table rules need for a batch
+ */
+async function loadQualityContext(
+  db: Database,
+  dataset: QualityDataset,
+  dates: string[]
+): Promise<QualityContext> {
+  const context: QualityContext = { debtTotals: new Map(), previousDebt: null };
+  if (dates.length === 0) return context;
+
+  if (dataset === 'securities') {
+    // MSPD month-ends can fall on weekends and holidays, when debt_to_penny
+    // has no row: use the latest snapshot on or before each date
+    for (const date of new Set(dates)) {
+      const [row] = await db.select({
+        recordDate: dailyDebtSnapshots.recordDate,
+        totalPublicDebt: dailyDebtSnapshots.totalPublicDebt,
+      })
+        .from(dailyDebtSnapshots)
+        .where(lte(dailyDebtSnapshots.recordDate, date))
+        .orderBy(desc(dailyDebtSnapshots.recordDate))
+        .limit(1);
+
+      if (row) {
+        context.debtTotals.set(date, { recordDate: row.recordDate, total: parseFloat(row.totalPublicDebt) });
+      }
+    }
+  }
+
+  if (dataset === 'debt') {
+    const earliest = dates.reduce((a, b) => (a < b ? a : b));
+    const [previous] = await db.select()
+      .from(dailyDebtSnapshots)
+      .where(lt(dailyDebtSnapshots.recordDate, earliest))
+      .orderBy(desc(dailyDebtSnapshots.recordDate))
+      .limit(1);
+
+    if (previous) {
+      context.previousDebt = {
+        recordDate: previous.recordDate,
+        totalPublicDebt: parseFloat(previous.totalPublicDebt),
+        debtHeldByPublic: previous.debtHeldByPublic ? parseFloat(previous.debtHeldByPublic) : null,
+        intragovernmentalHoldings: previous.intragovernmentalHoldings
+          ? parseFloat(previous.intragovernmentalHoldings)
+          : null,
+      };
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Evaluate a rule set over a batch, replace the stored violations of the
+ * checked records and return the number of violations found
+ */
+async function applyRules<T>(
+  db: Database,
+  dataset: QualityDataset,
+  rules: QualityRule<T>[],
+  records: T[],
+  keyOf: (record: T) => string,
+  dateOf: (record: T) => string,
+  etlJobId: number | null
+): Promise<number> {
+  if (records.length === 0) return 0;
+
+  const dates = [...new Set(records.map(dateOf))];
+  const context = await loadQualityContext(db, dataset, dates);
+  const violations: NewDataQualityViolation[] = [];
+
+  for (const rule of rules) {
+    const base = { ruleId: rule.id, dataset, severity: rule.severity, etlJobId };
+
+    if (rule.check) {
+      for (const record of records) {
+        const message = rule.check(record, context);
+        if (message) {
+          violations.push({ ...base, recordKey: keyOf(record), recordDate: dateOf(record), message });
+        }
+      }
+    }
+
+    if (rule.checkBatch) {
+      for (const finding of rule.checkBatch(records, context)) {
+        violations.push({ ...base, ...finding });
+      }
+    }
+  }
+
+  // Batch rules key their findings by record date
+  const checkedKeys = [...new Set([...records.map(keyOf), ...dates])];
+  for (let i = 0; i < checkedKeys.length; i += BATCH_SIZE) {
+    await db.delete(dataQualityViolations).where(and(
+      eq(dataQualityViolations.dataset, dataset),
+      inArray(dataQualityViolations.recordKey, checkedKeys.slice(i, i + BATCH_SIZE))
+    ));
+  }
+
+  for (let i = 0; i < violations.length; i += BATCH_SIZE) {
+    await db.insert(dataQualityViolations)
+      .values(violations.slice(i, i + BATCH_SIZE))
+      .onConflictDoNothing();
+  }
+
+  if (violations.length > 0) {
+    console.warn(`[ETL] ${violations.length} data quality violation(s) in ${dataset}`);
+  }
+
+  return violations.length;
+}
+
+/**
+ * Check MSPD securities
+ */
+export function checkSecurities(db: Database, securities: CleanedSecurity[], etlJobId: number | null) {
+  return applyRules(db, 'securities', QUALITY_RULES.securities, securities,
+    s => cusipKey(s.recordDate, s.cusip), s => s.recordDate, etlJobId);
+}
+
+/**
+ * Check auction results
+ */
+export function checkAuctions(db: Database, auctions: CleanedAuction[], etlJobId: number | null) {
+  return applyRules(db, 'auctions', QUALITY_RULES.auctions, auctions,
+    a => cusipKey(a.auctionDate, a.cusip), a => a.auctionDate, etlJobId);
+}
+
+/**
+ * Check daily debt snapshots
+ */
+export function checkDebtSnapshots(db: Database, snapshots: CleanedDebtSnapshot[], etlJobId: number | null) {
+  return applyRules(db, 'debt', QUALITY_RULES.debt, snapshots,
+    d => d.recordDate, d => d.recordDate, etlJobId);
+}
+
+/**
+ * Check economic indicators
+ */
+export function checkEconomicIndicators(
+  db: Database,
+  indicators: CleanedEconomicIndicator[],
+  etlJobId: number | null
+) {
+  return applyRules(db, 'indicators', QUALITY_RULES.indicators, indicators,
+    i => i.recordDate, i => i.recordDate, etlJobId);
+}
+
+/**
+ * Check yield curve points
+ */
+export function checkYieldCurvePoints(
+  db: Database,
+  points: CleanedYieldCurvePoint[],
+  etlJobId: number | null
+) {
+  return applyRules(db, 'yield-curve', QUALITY_RULES['yield-curve'], points,
+    curvePointKey, p => p.recordDate, etlJobId);
+}
+
+/**
+ * Conditions shared by the listing and summary queries
+ */
+function violationFilter(
+  dataset: QualityDataset | null,
+  severity: QualitySeverity | null,
+  startDate: string,
+  endDate: string
+) {
+  return and(
+    dataset ? eq(dataQualityViolations.dataset, dataset) : undefined,
+    severity ? eq(dataQualityViolations.severity, severity) : undefined,
+    gte(dataQualityViolations.recordDate, startDate),
+    lte(dataQualityViolations.recordDate, endDate)
+  );
+}
+
+/**
+ * List stored violations, newest record date first
+ */
+export async function listQualityViolations(
+  db: Database,
+  dataset: QualityDataset | null,
+  severity: QualitySeverity | null,
+  startDate: string,
+  endDate: string,
+  limit: number
+) {
+  return db.select()
+    .from(dataQualityViolations)
+    .where(violationFilter(dataset, severity, startDate, endDate))
+    .orderBy(desc(dataQualityViolations.recordDate), desc(dataQualityViolations.id))
+    .limit(limit);
+}
+
+/**
+ * Violation counts per rule
+ */
+export async function summarizeQualityViolations(
+  db: Database,
+  dataset: QualityDataset | null,
+  severity: QualitySeverity | null,
+  startDate: string,
+  endDate: string
+) {
+  return db.select({
+    ruleId: dataQualityViolations.ruleId,
+    dataset: dataQualityViolations.dataset,
+    severity: dataQualityViolations.severity,
+    count: count(),
+    latestRecordDate: max(dataQualityViolations.recordDate),
+  })
+    .from(dataQualityViolations)
+    .where(violationFilter(dataset, severity, startDate, endDate))
+    .groupBy(dataQualityViolations.ruleId, dataQualityViolations.dataset, dataQualityViolations.severity)
+    .orderBy(desc(sql`count(*)`));
+}
+
+/**
+ * Every rule with its dataset, severity and description
+ */
+export function describeQualityRules() {
+  return (Object.keys(QUALITY_RULES) as QualityDataset[]).flatMap(dataset =>
+    (QUALITY_RULES[dataset] as QualityRule<unknown>[]).map(rule => ({
+      id: rule.id,
+      dataset,
+      severity: rule.severity,
+      description: rule.description,
+    }))
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Treasury API Endpoints
+ *
+ * Fiscal Data endpoint paths, shared by the client, the reprocess job
+ * and the raw record schemas.
+ */
+
+// Fiscal Data endpoints used by the dashboard
+export const TREASURY_ENDPOINTS = {
+  debtToPenny: '/services/api/fiscal_service/v2/accounting/od/debt_to_penny',
+  securities: '/services/api/fiscal_service/v1/debt/mspd/mspd_table_3_market',
+  auctions: '/services/api/fiscal_service/v1/accounting/od/auctions_query',
+  interestExpense: '/services/api/fiscal_service/v2/accounting/od/interest_expense',
+  avgInterestRates: '/services/api/fiscal_service/v2/accounting/od/avg_interest_rates',
+  yieldCurve: '/services/api/fiscal_service/v2/accounting/od/daily_treasury_yield_curve',
+  realYieldCurve: '/services/api/fiscal_service/v2/accounting/od/daily_treasury_real_yield_curve',
+} as const;
@@ -0,0 +1,369 @@
+/**
+ * ETL Jobs
+ *
+ * Each ingest step is a named job with its own schedule, its own
+ * `etl_job_log` row per run and a watermark (latest record date ingested).
+ * A job with a watermark resumes from it, so a failed run is picked up by
+ * the next one without gaps.
+ */
+
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+import type { Database } from '../db';
+import { etlJobLog } from '../db/schema';
+import {
+  fetchDebtToPenny,
+  fetchSecuritiesDetail,
+  fetchAuctions,
+  fetchInterestExpense,
+  fetchAvgInterestRates,
+  fetchYieldCurve,
+  fetchRealYieldCurve,
+} from './treasury-client';
+import {
+  cleanDebtRecord,
+  cleanSecurityRecords,
+  cleanAuctionRecords,
+  cleanEconomicIndicators,
+} from './sanitizers';
+import {
+  upsertDebtSnapshots,
+  upsertSecurities,
+  upsertAuctions,
+  upsertEconomicIndicators,
+  type UpsertCounts,
+  type LoadContext,
+} from './loaders';
+import { runBackfill, type BackfillDataset } from './backfill';
+import { listSecuritiesRecordDates, storeMaturityWallAggregates } from './maturity-wall';
+import { storeSupplyMetrics } from './supply';
+import { storeAuctionTails } from './auction-tails';
+import { captureSchemaDrift, hasDrift, SchemaDriftError } from './schema-drift';
+import type { SchemaDriftReport } from '../types/treasury';
+
+export const ETL_JOB_NAMES = ['debt', 'securities', 'auctions', 'indicators', 'yield-curve', 'aggregates'] as const;
+
+// History ingested by the first yield curve run (no watermark yet)
+const YIELD_CURVE_INITIAL_DAYS = 30;
+
+export type EtlJobName = typeof ETL_JOB_NAMES[number];
+
+export interface EtlJobRunResult {
+  recordsProcessed: number;
+  counts: UpsertCounts | null; // Inserted/updated/unchanged rows (null for derived jobs)
+  watermark: string | null;
+  message: string;
+}
+
+export interface EtlJobResult extends EtlJobRunResult {
+  job: EtlJobName;
+  success: boolean;
+  resumedFrom: string | null;
+  durationMs: number;
+  schemaDrift: SchemaDriftReport[]; // Only endpoints whose responses drifted
+}
+
+interface EtlJobDefinition {
+  name: EtlJobName;
+  description: string;
+  schedule: string; // Cron expression (mirrored in vercel.json)
+  revalidatePaths: string[];
+  run: (db: Database, watermark: string | null, context: LoadContext) => Promise<EtlJobRunResult>;
+}
+
+/**
+ * Resume from a watermark by backfilling from it through today.
+ * The watermark date itself is re-ingested to pick up same-day revisions.
+ */
+async function resumeFromWatermark(
+  db: Database,
+  dataset: BackfillDataset,
+  watermark: string,
+  context: LoadContext
+): Promise<EtlJobRunResult> {
+  const today = new Date().toISOString().split('T')[0];
+  const result = await runBackfill(db, dataset, watermark, today, context);
+
+  return {
+    recordsProcessed: result.stored,
+    counts: result.counts,
+    watermark: result.latestRecordDate ?? watermark,
+    message: `Resumed from ${watermark}: ${describeCounts(result.counts)}`,
+  };
+}
+
+/**
+ * Human-readable summary of upsert counts
+ */
+function describeCounts(counts: UpsertCounts): string {
+  return `${counts.inserted} inserted, ${counts.updated} updated, ${counts.unchanged} unchanged`;
+}
+
+/**
+ * Total rows written or checked by an upsert
+ */
+function totalCount(counts: UpsertCounts): number {
+  return counts.inserted + counts.updated + counts.unchanged;
+}
+
+export const ETL_JOBS: Record<EtlJobName, EtlJobDefinition> = {
+  debt: {
+    name: 'debt',
+    description: 'Daily debt snapshot (debt_to_penny)',
+    schedule: '0 6 * * *',
+    revalidatePaths: ['/api/debt'],
+    async run(db, watermark, context) {
+      if (watermark) return resumeFromWatermark(db, 'debt', watermark, context);
+
+      const rawDebt = await fetchDebtToPenny();
+      const cleaned = rawDebt ? cleanDebtRecord(rawDebt) : null;
+      if (!cleaned) {
+        return { recordsProcessed: 0, counts: null, watermark: null, message: 'No debt data available' };
+      }
+
+      const counts = await upsertDebtSnapshots(db, [cleaned], context);
+      return {
+        recordsProcessed: totalCount(counts),
+        counts,
+        watermark: cleaned.recordDate,
+        message: `Debt snapshot: $${(cleaned.totalPublicDebt / 1e12).toFixed(2)}T as of ${cleaned.recordDate}`,
+      };
+    },
+  },
+
+  securities: {
+    name: 'securities',
+    description: 'CUSIP-level marketable securities (MSPD Table 3)',
+    schedule: '15 6 * * *',
+    revalidatePaths: ['/api/maturity-wall', '/api/v1/supply/metrics'],
+    async run(db, watermark, context) {
+      if (watermark) return resumeFromWatermark(db, 'securities', watermark, context);
+
+      const cleaned = cleanSecurityRecords(await fetchSecuritiesDetail());
+      const counts = await upsertSecurities(db, cleaned, context);
+      await storeMaturityWallAggregates(db, cleaned.map(s => s.recordDate));
+      await storeSupplyMetrics(db, cleaned.map(s => s.recordDate));
+      return {
+        recordsProcessed: totalCount(counts),
+        counts,
+        watermark: cleaned[0]?.recordDate ?? null,
+        message: `Securities: ${describeCounts(counts)}`,
+      };
+    },
+  },
+
+  auctions: {
+    name: 'auctions',
+    description: 'Auction results (auctions_query) and coupon auction tails',
+    schedule: '30 6 * * *',
+    revalidatePaths: ['/api/auctions'],
+    async run(db, watermark, context) {
+      if (watermark) return resumeFromWatermark(db, 'auctions', watermark, context);
+
+      const cleaned = cleanAuctionRecords(await fetchAuctions(1000, 1)); // Recent history (latest page only)
+      const counts = await upsertAuctions(db, cleaned, context);
+      await storeAuctionTails(db, cleaned.map(a => a.auctionDate));
+      const latest = cleaned.reduce<string | null>(
+        (max, a) => (max === null || a.auctionDate > max ? a.auctionDate : max),
+        null
+      );
+      return {
+        recordsProcessed: totalCount(counts),
+        counts,
+        watermark: latest,
+        message: `Auctions: ${describeCounts(counts)}`,
+      };
+    },
+  },
+
+  indicators: {
+    name: 'indicators',
+    description: 'Interest expense, average rates and yield curves',
+    schedule: '45 6 * * *',
+    revalidatePaths: ['/api/health', '/api/health/history'],
+    async run(db, watermark, context) {
+      if (watermark) return resumeFromWatermark(db, 'indicators', watermark, context);
+
+      const [expense, rates, yields, realYields] = await Promise.all([
+        fetchInterestExpense(),
+        fetchAvgInterestRates(),
+        fetchYieldCurve(),
+        fetchRealYieldCurve(),
+      ]);
+
+      const cleaned = cleanEconomicIndicators(expense, rates, yields, realYields);
+      if (!cleaned) {
+        return { recordsProcessed: 0, counts: null, watermark: null, message: 'No indicator data available' };
+      }
+
+      const counts = await upsertEconomicIndicators(db, [cleaned], context);
+      return {
+        recordsProcessed: totalCount(counts),
+        counts,
+        watermark: cleaned.recordDate,
+        message: `Updated indicators for ${cleaned.recordDate}`,
+      };
+    },
+  },
+
+  'yield-curve': {
+    name: 'yield-curve',
+    description: 'Nominal and real yield curves at every published tenor, breakevens and auction tails',
+    schedule: '50 6 * * *',
+    revalidatePaths: ['/api/yield-curve', '/api/inflation/breakevens', '/api/auctions'],
+    async run(db, watermark, context) {
+      if (watermark) return resumeFromWatermark(db, 'yield-curve', watermark, context);
+
+      const start = new Date();
+      start.setDate(start.getDate() - YIELD_CURVE_INITIAL_DAYS);
+      const startDate = start.toISOString().split('T')[0];
+      const today = new Date().toISOString().split('T')[0];
+
+      const result = await runBackfill(db, 'yield-curve', startDate, today, context);
+      return {
+        recordsProcessed: result.stored,
+        counts: result.counts,
+        watermark: result.latestRecordDate,
+        message: `Yield curves since ${startDate}: ${describeCounts(result.counts)}`,
+      };
+    },
+  },
+
+  aggregates: {
+    name: 'aggregates',
+    description: 'Maturity wall aggregates and supply metrics per MSPD record date',
+    schedule: '0 7 * * *',
+    revalidatePaths: ['/api/maturity-wall', '/api/v1/supply/metrics'],
+    async run(db, watermark) {
+      // Recompute every stored record date from the watermark onwards
+      const dates = await listSecuritiesRecordDates(db, watermark);
+      const written = await storeMaturityWallAggregates(db, dates) + await storeSupplyMetrics(db, dates);
+      return {
+        recordsProcessed: written,
+        counts: null,
+        watermark: dates[dates.length - 1] ?? null,
+        message: `Stored maturity wall aggregates and supply metrics for ${dates.length} record date(s)`,
+      };
+    },
+  },
+};
+
+/**
+ * Type guard for job names coming from route params
+ */
+export function isEtlJobName(value: string): value is EtlJobName {
+  return (ETL_JOB_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Name used for the job in etl_job_log
+ */
+function logName(job: EtlJobName): string {
+  return `ingest_${job}`;
+}
+
+/**
+ * Get the watermark of the last successful run of a job
+ */
+export async function getJobWatermark(
+  db: Database,
+  job: EtlJobName
+): Promise<string | null> {
+  const rows = await db.select({ watermark: etlJobLog.watermark })
+    .from(etlJobLog)
+    .where(and(
+      eq(etlJobLog.jobName, logName(job)),
+      eq(etlJobLog.status, 'completed'),
+      isNotNull(etlJobLog.watermark)
+    ))
+    .orderBy(desc(etlJobLog.startedAt))
+    .limit(1);
+
+  return rows[0]?.watermark ?? null;
+}
+
+/**
+ * Run a single job: log start, resume from its watermark, log the outcome.
+ * Never throws; failures are reported in the result and the job log.
+ */
+export async function runEtlJob(db: Database, job: EtlJobName): Promise<EtlJobResult> {
+  const definition = ETL_JOBS[job];
+  const startTime = Date.now();
+  let logId: number | null = null;
+  let resumedFrom: string | null = null;
+  const driftReports: SchemaDriftReport[] = [];
+
+  try {
+    const [row] = await db.insert(etlJobLog)
+      .values({ jobName: logName(job), status: 'started' })
+      .returning({ id: etlJobLog.id });
+    logId = row.id;
+  } catch (e) {
+    console.error(`[ETL] Failed to log start of ${job}`, e);
+  }
+
+  try {
+    resumedFrom = await getJobWatermark(db, job);
+    console.log(`[ETL] Running ${job}${resumedFrom ? ` from watermark ${resumedFrom}` : ''}...`);
+
+    const result = await captureSchemaDrift(
+      driftReports,
+      () => definition.run(db, resumedFrom, { jobId: logId })
+    );
+
+    // Fetchers that swallow errors can hide a SchemaDriftError; fail anyway
+    const blocking = driftReports.filter(r => r.missingRequired.length > 0);
+    if (blocking.length > 0) throw new SchemaDriftError(blocking);
+
+    const durationMs = Date.now() - startTime;
+    const schemaDrift = driftReports.filter(hasDrift);
+    // Keep the previous watermark if the run produced nothing new
+    const watermark = result.watermark ?? resumedFrom;
+
+    if (logId !== null) {
+      await db.update(etlJobLog)
+        .set({
+          status: 'completed',
+          recordsProcessed: result.recordsProcessed,
+          watermark,
+          schemaDrift: schemaDrift.length > 0 ? schemaDrift : null,
+          completedAt: new Date(),
+          durationMs,
+        })
+        .where(eq(etlJobLog.id, logId));
+    }
+
+    return { ...result, watermark, job, success: true, resumedFrom, durationMs, schemaDrift };
+  } catch (error) {
+    const durationMs = Date.now() - startTime;
+    const schemaDrift = driftReports.filter(hasDrift);
+    console.error(`[ETL] ${job} failed:`, error);
+
+    try {
+      if (logId !== null) {
+        await db.update(etlJobLog)
+          .set({
+            status: 'failed',
+            errorMessage: String(error),
+            schemaDrift: schemaDrift.length > 0 ? schemaDrift : null,
+            completedAt: new Date(),
+            durationMs,
+          })
+          .where(eq(etlJobLog.id, logId));
+      }
+    } catch (e) {
+      console.error(`[ETL] Failed to log failure of ${job}`, e);
+    }
+
+    return {
+      job,
+      success: false,
+      recordsProcessed: 0,
+      counts: null,
+      watermark: resumedFrom,
+      message: `Error: ${error}`,
+      resumedFrom,
+      durationMs,
+      schemaDrift,
+    };
+  }
+}
@@ -0,0 +1,419 @@
+/**
+ * Data Loaders
+ *
+ * Functions to write cleaned records into the database.
+ * Shared by the ingest cron and the historical backfill job.
+ *
+ * Writes are conflict-aware upserts keyed on each table's unique index:
+ * new rows are inserted, rows whose values changed (e.g. a revised auction
+ * result or corrected MSPD row) are updated and get a fresh `updatedAt`,
+ * and identical rows are left untouched. Every changed field is also
+ * recorded in `data_revisions` (see ./revisions), and each batch is run
+ * through the data quality rules (see ./data-quality).
+ */
+
+import { and, inArray, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import type { Database } from '../db';
+import {
+  dailyDebtSnapshots,
+  treasurySecurities,
+  treasuryAuctions,
+  economicIndicators,
+  yieldCurvePoints,
+} from '../db/schema';
+import type {
+  CleanedSecurity,
+  CleanedAuction,
+  CleanedDebtSnapshot,
+  CleanedEconomicIndicator,
+  CleanedYieldCurvePoint,
+} from '../types/treasury';
+import { recordRevisions, REVISION_DATASETS } from './revisions';
+import {
+  checkDebtSnapshots,
+  checkSecurities,
+  checkAuctions,
+  checkEconomicIndicators,
+  checkYieldCurvePoints,
+} from './data-quality';
+import { curvePointKey } from './quality-rules';
+
+// Rows per INSERT statement
+const BATCH_SIZE = 500;
+
+export interface UpsertCounts {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface LoadContext {
+  jobId?: number | null; // etl_job_log row of the run doing the write
+}
+
+/**
+ * Sum upsert counts from several writes
+ */
+export function mergeUpsertCounts(...counts: UpsertCounts[]): UpsertCounts {
+  return counts.reduce(
+    (total, c) => ({
+      inserted: total.inserted + c.inserted,
+      updated: total.updated + c.updated,
+      unchanged: total.unchanged + c.unchanged,
+    }),
+    { inserted: 0, updated: 0, unchanged: 0 }
+  );
+}
+
+/**
+ * Split an array into chunks of a given size
+ */
+export function chunkArray<T>(array: T[], size: number): T[][] {
+  const chunked: T[][] = [];
+  for (let i = 0; i < array.length; i += size) {
+    chunked.push(array.slice(i, i + size));
+  }
+  return chunked;
+}
+
+/**
+ * Drop records that share a conflict key, keeping the last occurrence.
+ * Postgres rejects an upsert that touches the same row twice.
+ */
+function dedupeBy<T>(records: T[], key: (record: T) => string): T[] {
+  const map = new Map<string, T>();
+  for (const record of records) {
+    map.set(key(record), record);
+  }
+  return [...map.values()];
+}
+
+/**
+ * Reference the incoming value of a column inside ON CONFLICT DO UPDATE
+ */
+export function excluded(column: AnyColumn) {
+  return sql.raw(`excluded."${column.name}"`);
+}
+
+/**
+ * Build the SET and WHERE clauses of a change-aware ON CONFLICT DO UPDATE.
+ * The row is only updated when at least one value column differs.
+ */
+function conflictUpdate<T extends Record<string, AnyColumn>>(columns: T) {
+  const values = Object.values(columns);
+  const set = Object.fromEntries(
+    Object.entries(columns).map(([key, column]) => [key, excluded(column)])
+  ) as Record<keyof T, SQL>;
+
+  return {
+    set,
+    setWhere: sql`(${sql.join(values, sql`, `)}) IS DISTINCT FROM (${sql.join(values.map(excluded), sql`, `)})`,
+  };
+}
+
+// RETURNING expression: true for inserted rows, false for updated rows.
+// Rows skipped by the conflict WHERE clause are not returned at all.
+const wasInserted = sql<boolean>`(xmax = 0)`;
+
+/**
+ * Distinct values of one field, for narrowing the stored-row lookup
+ */
+function distinct<T, V>(records: T[], value: (record: T) => V): V[] {
+  return [...new Set(records.map(value))];
+}
+
+/**
+ * Tally the RETURNING rows of one upsert batch
+ */
+function countUpserts(returned: { inserted: boolean }[], batchSize: number): UpsertCounts {
+  const inserted = returned.filter(r => r.inserted).length;
+  const updated = returned.length - inserted;
+  return { inserted, updated, unchanged: batchSize - returned.length };
+}
+
+/**
+ * Upsert daily debt snapshots keyed on record date
+ */
+export async function upsertDebtSnapshots(
+  db: Database,
+  snapshots: CleanedDebtSnapshot[],
+  context: LoadContext = {}
+): Promise<UpsertCounts> {
+  const rows = dedupeBy(snapshots, d => d.recordDate);
+  const columns = {
+    totalPublicDebt: dailyDebtSnapshots.totalPublicDebt,
+    debtHeldByPublic: dailyDebtSnapshots.debtHeldByPublic,
+    intragovernmentalHoldings: dailyDebtSnapshots.intragovernmentalHoldings,
+  };
+  const { set, setWhere } = conflictUpdate(columns);
+  const counts: UpsertCounts[] = [];
+
+  for (const chunk of chunkArray(rows, BATCH_SIZE)) {
+    const values = chunk.map(d => ({
+      recordDate: d.recordDate,
+      totalPublicDebt: d.totalPublicDebt.toString(),
+      debtHeldByPublic: d.debtHeldByPublic?.toString(),
+      intragovernmentalHoldings: d.intragovernmentalHoldings?.toString(),
+    }));
+    const stored = await db.select().from(dailyDebtSnapshots)
+      .where(inArray(dailyDebtSnapshots.recordDate, distinct(values, v => v.recordDate)));
+
+    const returned = await db.insert(dailyDebtSnapshots).values(values).onConflictDoUpdate({
+      target: dailyDebtSnapshots.recordDate,
+      set: { ...set, updatedAt: sql`now()` },
+      setWhere,
+    }).returning({ inserted: wasInserted });
+
+    counts.push(countUpserts(returned, chunk.length));
+    await recordRevisions(db, {
+      tableName: REVISION_DATASETS.debt,
+      columns,
+      keyFields: ['recordDate'],
+      dateField: 'recordDate',
+    }, stored, values, context.jobId ?? null);
+  }
+
+  await checkDebtSnapshots(db, rows, context.jobId ?? null);
+
+  return mergeUpsertCounts(...counts);
+}
+
+/**
+ * Upsert MSPD securities keyed on (record date, CUSIP)
+ */
+export async function upsertSecurities(
+  db: Database,
+  securities: CleanedSecurity[],
+  context: LoadContext = {}
+): Promise<UpsertCounts> {
+  const rows = dedupeBy(securities, s => `${s.recordDate}|${s.cusip}`);
+  const columns = {
+    securityType: treasurySecurities.securityType,
+    securityTypeDesc: treasurySecurities.securityTypeDesc,
+    securityClass: treasurySecurities.securityClass,
+    issueDate: treasurySecurities.issueDate,
+    maturityDate: treasurySecurities.maturityDate,
+    maturityYear: treasurySecurities.maturityYear,
+    outstandingAmount: treasurySecurities.outstandingAmount,
+    interestRate: treasurySecurities.interestRate,
+  };
+  const { set, setWhere } = conflictUpdate(columns);
+  const counts: UpsertCounts[] = [];
+
+  for (const chunk of chunkArray(rows, BATCH_SIZE)) {
+    const values = chunk.map(s => ({
+      recordDate: s.recordDate,
+      cusip: s.cusip,
+      securityType: s.securityType,
+      securityTypeDesc: s.securityTypeDesc,
+      securityClass: s.securityClass,
+      issueDate: s.issueDate,
+      maturityDate: s.maturityDate,
+      maturityYear: s.maturityYear,
+      outstandingAmount: s.outstandingAmount.toString(),
+      interestRate: s.interestRate?.toString(),
+    }));
+    const stored = await db.select().from(treasurySecurities).where(and(
+      inArray(treasurySecurities.recordDate, distinct(values, v => v.recordDate)),
+      inArray(treasurySecurities.cusip, distinct(values, v => v.cusip).filter((c): c is string => c !== null))
+    ));
+
+    const returned = await db.insert(treasurySecurities).values(values).onConflictDoUpdate({
+      target: [treasurySecurities.recordDate, treasurySecurities.cusip],
+      set: { ...set, updatedAt: sql`now()` },
+      setWhere,
+    }).returning({ inserted: wasInserted });
+
+    counts.push(countUpserts(returned, chunk.length));
+    await recordRevisions(db, {
+      tableName: REVISION_DATASETS.securities,
+      columns,
+      keyFields: ['recordDate', 'cusip'],
+      dateField: 'recordDate',
+    }, stored, values, context.jobId ?? null);
+  }
+
+  await checkSecurities(db, rows, context.jobId ?? null);
+
+  return mergeUpsertCounts(...counts);
+}
+
+/**
+ * Upsert auction results keyed on (auction date, CUSIP)
+ */
+export async function upsertAuctions(
+  db: Database,
+  auctions: CleanedAuction[],
+  context: LoadContext = {}
+): Promise<UpsertCounts> {
+  const rows = dedupeBy(auctions, a => `${a.auctionDate}|${a.cusip}`);
+  const columns = {
+    issueDate: treasuryAuctions.issueDate,
+    maturityDate: treasuryAuctions.maturityDate,
+    securityType: treasuryAuctions.securityType,
+    securityTypeRaw: treasuryAuctions.securityTypeRaw,
+    securityTerm: treasuryAuctions.securityTerm,
+    bidToCoverRatio: treasuryAuctions.bidToCoverRatio,
+    highYield: treasuryAuctions.highYield,
+    highDiscountRate: treasuryAuctions.highDiscountRate,
+    offeringAmount: treasuryAuctions.offeringAmount,
+    acceptedAmount: treasuryAuctions.acceptedAmount,
+    totalTendersAccepted: treasuryAuctions.totalTendersAccepted,
+    directBidderAccepted: treasuryAuctions.directBidderAccepted,
+    indirectBidderAccepted: treasuryAuctions.indirectBidderAccepted,
+    primaryDealerAccepted: treasuryAuctions.primaryDealerAccepted,
+  };
+  const { set, setWhere } = conflictUpdate(columns);
+  const counts: UpsertCounts[] = [];
+
+  for (const chunk of chunkArray(rows, BATCH_SIZE)) {
+    const values = chunk.map(a => ({
+      auctionDate: a.auctionDate,
+      issueDate: a.issueDate,
+      maturityDate: a.maturityDate,
+      securityType: a.securityType,
+      securityTypeRaw: a.securityTypeRaw,
+      securityTerm: a.securityTerm,
+      cusip: a.cusip,
+      bidToCoverRatio: a.bidToCoverRatio?.toString(),
+      highYield: a.highYield?.toString(),
+      highDiscountRate: a.highDiscountRate?.toString(),
+      offeringAmount: a.offeringAmount?.toString(),
+      acceptedAmount: a.acceptedAmount?.toString(),
+      totalTendersAccepted: a.totalTendersAccepted?.toString(),
+      directBidderAccepted: a.directBidderAccepted?.toString(),
+      indirectBidderAccepted: a.indirectBidderAccepted?.toString(),
+      primaryDealerAccepted: a.primaryDealerAccepted?.toString(),
+    }));
+    const stored = await db.select().from(treasuryAuctions).where(and(
+      inArray(treasuryAuctions.auctionDate, distinct(values, v => v.auctionDate)),
+      inArray(treasuryAuctions.cusip, distinct(values, v => v.cusip).filter((c): c is string => c !== null))
+    ));
+
+    const returned = await db.insert(treasuryAuctions).values(values).onConflictDoUpdate({
+      target: [treasuryAuctions.auctionDate, treasuryAuctions.cusip],
+      set: { ...set, updatedAt: sql`now()` },
+      setWhere,
+    }).returning({ inserted: wasInserted });
+
+    counts.push(countUpserts(returned, chunk.length));
+    await recordRevisions(db, {
+      tableName: REVISION_DATASETS.auctions,
+      columns,
+      keyFields: ['auctionDate', 'cusip'],
+      dateField: 'auctionDate',
+    }, stored, values, context.jobId ?? null);
+  }
+
+  await checkAuctions(db, rows, context.jobId ?? null);
+
+  return mergeUpsertCounts(...counts);
+}
+
+/**
+ * Upsert economic indicators keyed on record date
+ */
+export async function upsertEconomicIndicators(
+  db: Database,
+  indicators: CleanedEconomicIndicator[],
+  context: LoadContext = {}
+): Promise<UpsertCounts> {
+  const rows = dedupeBy(indicators, i => i.recordDate);
+  const columns = {
+    interestExpense: economicIndicators.interestExpense,
+    averageInterestRate: economicIndicators.averageInterestRate,
+    yield10y: economicIndicators.yield10y,
+    yield2y: economicIndicators.yield2y,
+    realYield10y: economicIndicators.realYield10y,
+    breakeven10y: economicIndicators.breakeven10y,
+    yieldCurveSpread: economicIndicators.yieldCurveSpread,
+  };
+  const { set, setWhere } = conflictUpdate(columns);
+  const counts: UpsertCounts[] = [];
+
+  for (const chunk of chunkArray(rows, BATCH_SIZE)) {
+    const values = chunk.map(i => {
+      const spread = (i.yield10y !== null && i.yield2y !== null)
+        ? (i.yield10y - i.yield2y)
+        : null;
+
+      return {
+        recordDate: i.recordDate,
+        interestExpense: i.interestExpense?.toString(),
+        averageInterestRate: i.averageInterestRate?.toString(),
+        yield10y: i.yield10y?.toString(),
+        yield2y: i.yield2y?.toString(),
+        realYield10y: i.realYield10y?.toString(),
+        breakeven10y: i.breakeven10y?.toString(),
+        yieldCurveSpread: spread?.toString(),
+      };
+    });
+    const stored = await db.select().from(economicIndicators)
+      .where(inArray(economicIndicators.recordDate, distinct(values, v => v.recordDate)));
+
+    const returned = await db.insert(economicIndicators).values(values).onConflictDoUpdate({
+      target: economicIndicators.recordDate,
+      set: { ...set, updatedAt: sql`now()` },
+      setWhere,
+    }).returning({ inserted: wasInserted });
+
+    counts.push(countUpserts(returned, chunk.length));
+    await recordRevisions(db, {
+      tableName: REVISION_DATASETS.indicators,
+      columns,
+      keyFields: ['recordDate'],
+      dateField: 'recordDate',
+    }, stored, values, context.jobId ?? null);
+  }
+
+  await checkEconomicIndicators(db, rows, context.jobId ?? null);
+
+  return mergeUpsertCounts(...counts);
+}
+
+/**
+ * Upsert yield curve points keyed on (record date, curve type, tenor)
+ */
+export async function upsertYieldCurvePoints(
+  db: Database,
+  points: CleanedYieldCurvePoint[],
+  context: LoadContext = {}
+): Promise<UpsertCounts> {
+  const rows = dedupeBy(points, curvePointKey);
+  const columns = {
+    tenorMonths: yieldCurvePoints.tenorMonths,
+    yield: yieldCurvePoints.yield,
+  };
+  const { set, setWhere } = conflictUpdate(columns);
+  const counts: UpsertCounts[] = [];
+
+  for (const chunk of chunkArray(rows, BATCH_SIZE)) {
+    const values = chunk.map(p => ({
+      recordDate: p.recordDate,
+      curveType: p.curveType,
+      tenor: p.tenor,
+      tenorMonths: p.tenorMonths,
+      yield: p.yield.toString(),
+    }));
+    const stored = await db.select().from(yieldCurvePoints)
+      .where(inArray(yieldCurvePoints.recordDate, distinct(values, v => v.recordDate)));
+
+    const returned = await db.insert(yieldCurvePoints).values(values).onConflictDoUpdate({
+      target: [yieldCurvePoints.recordDate, yieldCurvePoints.curveType, yieldCurvePoints.tenor],
+      set: { ...set, updatedAt: sql`now()` },
+      setWhere,
+    }).returning({ inserted: wasInserted });
+
+    counts.push(countUpserts(returned, chunk.length));
+    await recordRevisions(db, {
+      tableName: REVISION_DATASETS['yield-curve'],
+      columns,
+      keyFields: ['recordDate', 'curveType', 'tenor'],
+      dateField: 'recordDate',
+    }, stored, values, context.jobId ?? null);
+  }
+
+  await checkYieldCurvePoints(db, rows, context.jobId ?? null);
+
+  return mergeUpsertCounts(...counts);
+}
@@ -0,0 +1,241 @@
+/**
+ * Maturity Wall Snapshots
+ *
+ * Computes maturity wall aggregates per MSPD record date from stored
+ * securities and persists them to maturity_wall_aggregates, so the API
+ * can serve any historical snapshot without re-aggregating CUSIPs.
+ */
+
+import { and, asc, count, desc, eq, gte, lte, notInArray } from 'drizzle-orm';
+import type { Database } from '../db';
+import {
+  maturityWallAggregates,
+  treasurySecurities,
+  type TreasurySecurity,
+} from '../db/schema';
+import type { CleanedSecurity, MaturityWallData } from '../types/treasury';
+import { aggregateMaturityWall } from './aggregators';
+import { fetchLatestSecuritiesRecordDate, fetchSecuritiesDetail } from './treasury-client';
+import { cleanSecurityRecords } from './sanitizers';
+import { chunkArray, excluded } from './loaders';
+
+/**
+ * Map a stored security row back to the cleaned format used by aggregators
+ */
+export function toCleanedSecurity(s: TreasurySecurity): CleanedSecurity {
+  return {
+    recordDate: s.recordDate,
+    cusip: s.cusip,
+    securityType: s.securityType,
+    securityTypeDesc: s.securityTypeDesc || '',
+    securityClass: s.securityClass,
+    issueDate: s.issueDate,
+    maturityDate: s.maturityDate,
+    maturityYear: s.maturityYear,
+    outstandingAmount: parseFloat(s.outstandingAmount),
+    interestRate: s.interestRate ? parseFloat(s.interestRate) : null,
+  };
+}
+
+/**
+ * Latest MSPD record date stored on or before a date (default: latest overall)
+ */
+export async function findSecuritiesRecordDate(
+  db: Database,
+  onOrBefore?: string | null
+): Promise<string | null> {
+  const rows = await db.select({ date: treasurySecurities.recordDate })
+    .from(treasurySecurities)
+    .where(onOrBefore ? lte(treasurySecurities.recordDate, onOrBefore) : undefined)
+    .orderBy(desc(treasurySecurities.recordDate))
+    .limit(1);
+
+  return rows[0]?.date ?? null;
+}
+
+/**
+ * Load every stored security for one MSPD record date
+ */
+export async function loadSecuritiesSnapshot(
+  db: Database,
+  recordDate: string
+): Promise<CleanedSecurity[]> {
+  const rows = await db.select()
+    .from(treasurySecurities)
+    .where(eq(treasurySecurities.recordDate, recordDate));
+
+  return rows.map(toCleanedSecurity);
+}
+
+/**
+ * Latest securities snapshot on or before a date (default: latest overall):
+ * stored securities first, then the Live API. Null when neither has one.
+ */
+export async function resolveSecuritiesSnapshot(
+  db: Database | null,
+  onOrBefore?: string | null
+): Promise<{ recordDate: string; securities: CleanedSecurity[]; source: 'database' | 'api' } | null> {
+  if (db) {
+    try {
+      const recordDate = await findSecuritiesRecordDate(db, onOrBefore);
+      if (recordDate) {
+        const securities = await loadSecuritiesSnapshot(db, recordDate);
+        if (securities.length > 0) return { recordDate, securities, source: 'database' };
+      }
+    } catch (dbError) {
+      console.warn('[Securities] Database query failed, falling back to API:', dbError);
+    }
+  }
+
+  const liveDate = await fetchLatestSecuritiesRecordDate(onOrBefore ?? undefined);
+  const raw = liveDate ? await fetchSecuritiesDetail(liveDate) : [];
+  const securities = cleanSecurityRecords(raw.filter(r => r.record_date === liveDate));
+  return liveDate && securities.length > 0 ? { recordDate: liveDate, securities, source: 'api' } : null;
+}
+
+/**
+ * Count stored securities for one MSPD record date
+ */
+export async function countSecuritiesSnapshot(
+  db: Database,
+  recordDate: string
+): Promise<number> {
+  const [row] = await db.select({ value: count() })
+    .from(treasurySecurities)
+    .where(eq(treasurySecurities.recordDate, recordDate));
+
+  return row?.value ?? 0;
+}
+
+/**
+ * Distinct MSPD record dates stored, optionally from a date onwards
+ */
+export async function listSecuritiesRecordDates(
+  db: Database,
+  since?: string | null
+): Promise<string[]> {
+  const rows = await db.selectDistinct({ date: treasurySecurities.recordDate })
+    .from(treasurySecurities)
+    .where(since ? gte(treasurySecurities.recordDate, since) : undefined)
+    .orderBy(asc(treasurySecurities.recordDate));
+
+  return rows.map(r => r.date);
+}
+
+/**
+ * Aggregate and persist the maturity wall for each record date.
+ * Buckets run from the record date's year to the last maturity year;
+ * stored years outside that range are removed.
+ *
+ * @returns Number of aggregate rows written
+ */
+export async function storeMaturityWallAggregates(
+  db: Database,
+  recordDates: string[]
+): Promise<number> {
+  let written = 0;
+
+  for (const recordDate of [...new Set(recordDates)]) {
+    const securities = await loadSecuritiesSnapshot(db, recordDate);
+    if (securities.length === 0) continue;
+
+    const startYear = parseInt(recordDate.substring(0, 4), 10);
+    const endYear = securities.reduce(
+      (max, s) => (s.maturityYear && s.maturityYear > max ? s.maturityYear : max),
+      startYear
+    );
+    const wall = aggregateMaturityWall(securities, startYear, endYear);
+
+    // Replace the record date's buckets, dropping years no longer present
+    await db.transaction(async (tx) => {
+      await tx.delete(maturityWallAggregates)
+        .where(and(
+          eq(maturityWallAggregates.computedDate, recordDate),
+          notInArray(maturityWallAggregates.maturityYear, wall.map(w => w.year))
+        ));
+
+      for (const chunk of chunkArray(wall, 100)) {
+        await tx.insert(maturityWallAggregates).values(
+          chunk.map(w => ({
+            computedDate: recordDate,
+            maturityYear: w.year,
+            billsAmount: w.bills.toString(),
+            notesAmount: w.notes.toString(),
+            bondsAmount: w.bonds.toString(),
+            tipsAmount: w.tips.toString(),
+            frnAmount: w.frn.toString(),
+            totalAmount: w.total.toString(),
+          }))
+        ).onConflictDoUpdate({
+          target: [maturityWallAggregates.computedDate, maturityWallAggregates.maturityYear],
+          set: {
+            billsAmount: excluded(maturityWallAggregates.billsAmount),
+            notesAmount: excluded(maturityWallAggregates.notesAmount),
+            bondsAmount: excluded(maturityWallAggregates.bondsAmount),
+            tipsAmount: excluded(maturityWallAggregates.tipsAmount),
+            frnAmount: excluded(maturityWallAggregates.frnAmount),
+            totalAmount: excluded(maturityWallAggregates.totalAmount),
+          },
+        });
+      }
+    });
+
+    console.log(`[Aggregates] Maturity wall for ${recordDate}: ${wall.length} years from ${securities.length} securities`);
+    written += wall.length;
+  }
+
+  return written;
+}
+
+/**
+ * Latest aggregate snapshot date on or before a date (default: latest overall)
+ */
+export async function findAggregateDate(
+  db: Database,
+  onOrBefore?: string | null
+): Promise<string | null> {
+  const rows = await db.select({ date: maturityWallAggregates.computedDate })
+    .from(maturityWallAggregates)
+    .where(onOrBefore ? lte(maturityWallAggregates.computedDate, onOrBefore) : undefined)
+    .orderBy(desc(maturityWallAggregates.computedDate))
+    .limit(1);
+
+  return rows[0]?.date ?? null;
+}
+
+/**
+ * Read a stored maturity wall snapshot for a year range.
+ * Years without a stored row are returned as zero buckets.
+ */
+export async function loadMaturityWallAggregates(
+  db: Database,
+  recordDate: string,
+  startYear: number,
+  endYear: number
+): Promise<MaturityWallData[]> {
+  const rows = await db.select()
+    .from(maturityWallAggregates)
+    .where(and(
+      eq(maturityWallAggregates.computedDate, recordDate),
+      gte(maturityWallAggregates.maturityYear, startYear),
+      lte(maturityWallAggregates.maturityYear, endYear)
+    ));
+
+  const byYear = new Map(rows.map(r => [r.maturityYear, r]));
+  const wall: MaturityWallData[] = [];
+
+  for (let year = startYear; year <= endYear; year++) {
+    const row = byYear.get(year);
+    wall.push({
+      year,
+      bills: row?.billsAmount ? parseFloat(row.billsAmount) : 0,
+      notes: row?.notesAmount ? parseFloat(row.notesAmount) : 0,
+      bonds: row?.bondsAmount ? parseFloat(row.bondsAmount) : 0,
+      tips: row?.tipsAmount ? parseFloat(row.tipsAmount) : 0,
+      frn: row?.frnAmount ? parseFloat(row.frnAmount) : 0,
+      total: row?.totalAmount ? parseFloat(row.totalAmount) : 0,
+    });
+  }
+
+  return wall;
+}
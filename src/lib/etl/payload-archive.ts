@@ -0,0 +1,92 @@
+/**
+ * Raw Payload Archive
+ *
+ * Every page returned by the Treasury API is stored gzip-compressed in
+ * `raw_api_payloads` together with its URL, query params and meta counts.
+ * When a sanitizer bug is fixed, the reprocess job re-derives cleaned rows
+ * from these archived pages without hitting the network.
+ *
+ * Archiving is skipped when no database is configured or when
+ * TREASURY_API_ARCHIVE=false. Failures are logged and never break a fetch.
+ */
+
+import { gzipSync, gunzipSync } from 'zlib';
+import { and, asc, eq, gte, lt } from 'drizzle-orm';
+import { getDb, type Database } from '../db';
+import { rawApiPayloads } from '../db/schema';
+import type { TreasuryApiResponse } from '../types/treasury';
+
+const ARCHIVE_ENABLED = process.env.TREASURY_API_ARCHIVE !== 'false';
+
+export interface PayloadArchiveEntry {
+  endpoint: string;
+  url: string;
+  params: Record<string, string>;
+  pageNumber: number | null;
+  body: string; // Raw response text
+  meta: TreasuryApiResponse<unknown>['meta'];
+}
+
+/**
+ * Store one fetched page. Never throws.
+ */
+export async function archivePayload(entry: PayloadArchiveEntry): Promise<void> {
+  if (!ARCHIVE_ENABLED) return;
+
+  const db = getDb();
+  if (!db) return;
+
+  try {
+    await db.insert(rawApiPayloads).values({
+      endpoint: entry.endpoint,
+      url: entry.url,
+      params: entry.params,
+      pageNumber: entry.pageNumber,
+      recordCount: entry.meta.count,
+      totalCount: entry.meta['total-count'],
+      totalPages: entry.meta['total-pages'],
+      payload: gzipSync(Buffer.from(entry.body, 'utf8')),
+      payloadBytes: Buffer.byteLength(entry.body, 'utf8'),
+    });
+  } catch (error) {
+    console.error(`[Treasury API] Failed to archive payload for ${entry.endpoint}:`, error);
+  }
+}
+
+/**
+ * Decompress an archived page back into the API response
+ */
+export function decodePayload<T>(payload: Buffer): TreasuryApiResponse<T> {
+  return JSON.parse(gunzipSync(payload).toString('utf8')) as TreasuryApiResponse<T>;
+}
+
+/**
+ * Load the records of every page archived for an endpoint between two
+ * fetch dates (inclusive, YYYY-MM-DD), oldest fetch first so that later
+ * fetches of the same record win when deduplicated downstream.
+ */
+export async function loadArchivedRecords<T>(
+  db: Database,
+  endpoint: string,
+  startDate: string,
+  endDate: string
+): Promise<{ payloads: number; records: T[] }> {
+  const end = new Date(endDate);
+  end.setDate(end.getDate() + 1);
+
+  const rows = await db.select({ payload: rawApiPayloads.payload })
+    .from(rawApiPayloads)
+    .where(and(
+      eq(rawApiPayloads.endpoint, endpoint),
+      gte(rawApiPayloads.fetchedAt, new Date(startDate)),
+      lt(rawApiPayloads.fetchedAt, end)
+    ))
+    .orderBy(asc(rawApiPayloads.fetchedAt), asc(rawApiPayloads.id));
+
+  const records: T[] = [];
+  for (const row of rows) {
+    records.push(...decodePayload<T>(row.payload).data);
+  }
+
+  return { payloads: rows.length, records };
+}
@@ -0,0 +1,264 @@
+/**
+ * Data Quality Rules
+ *
+ * Declarative checks over cleaned records, run by ./data-quality during
+ * ingest. A rule either checks one record at a time (`check`) or looks
+ * across the whole batch (`checkBatch`, e.g. day-over-day debt moves).
+ * Rules return a message for each violation and nothing when the data passes.
+ */
+
+import type {
+  CleanedSecurity,
+  CleanedAuction,
+  CleanedDebtSnapshot,
+  CleanedEconomicIndicator,
+  CleanedYieldCurvePoint,
+} from '../types/treasury';
+
+export const QUALITY_SEVERITIES = ['error', 'warning', 'info'] as const;
+
+export type QualitySeverity = typeof QUALITY_SEVERITIES[number];
+
+export interface QualityFinding {
+  recordKey: string;
+  recordDate: string;
+  message: string;
+}
+
+// Stored data the cross-table rules compare against
+export interface QualityContext {
+  debtTotals: Map<string, { recordDate: string; total: number }>; // Latest debt_to_penny total on or before each record date
+  previousDebt: CleanedDebtSnapshot | null; // Latest stored snapshot before the batch
+}
+
+export interface QualityRule<T> {
+  id: string;
+  severity: QualitySeverity;
+  description: string;
+  check?: (record: T, context: QualityContext) => string | null;
+  checkBatch?: (records: T[], context: QualityContext) => QualityFinding[];
+}
+
+// Tolerances
+const BIDDER_SUM_TOLERANCE = 0.05; // Noncompetitive and SOMA awards sit outside the bidder split
+const DEBT_COMPONENT_TOLERANCE = 0.001;
+const MAX_DAILY_DEBT_CHANGE = 0.03; // 3% of total debt in one day
+const MARKETABLE_SHARE_RANGE = [0.6, 1.0] as const; // MSPD marketable / total public debt
+const BREAKEVEN_TOLERANCE = 0.02; // Percentage points
+
+/**
+ * Format a ratio as a percentage for messages
+ */
+function pct(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+/**
+ * Natural key of an auction or security row
+ */
+export function cusipKey(date: string, cusip: string | null): string {
+  return `${date}|${cusip ?? ''}`;
+}
+
+/**
+ * Natural key of a yield curve point
+ */
+export function curvePointKey(point: CleanedYieldCurvePoint): string {
+  return `${point.recordDate}|${point.curveType}|${point.tenor}`;
+}
+
+export const SECURITY_RULES: QualityRule<CleanedSecurity>[] = [
+  {
+    id: 'security.maturity-after-issue',
+    severity: 'error',
+    description: 'Maturity date must be after issue date',
+    check: s => (s.issueDate && s.maturityDate && s.maturityDate <= s.issueDate)
+      ? `Matures ${s.maturityDate}, on or before issue date ${s.issueDate}`
+      : null,
+  },
+  {
+    id: 'security.positive-outstanding',
+    severity: 'error',
+    description: 'Outstanding amount must be positive',
+    check: s => s.outstandingAmount <= 0
+      ? `Outstanding amount is ${s.outstandingAmount}`
+      : null,
+  },
+  {
+    id: 'security.interest-rate-range',
+    severity: 'warning',
+    description: 'Interest rate must be between 0% and 20%',
+    check: s => (s.interestRate !== null && (s.interestRate < 0 || s.interestRate > 20))
+      ? `Interest rate is ${s.interestRate}%`
+      : null,
+  },
+  {
+    id: 'security.mspd-reconciles-with-debt',
+    severity: 'warning',
+    description: 'Marketable securities outstanding must be 60-100% of total public debt (the latest debt_to_penny on or before the MSPD record date)',
+    checkBatch: (securities, context) => {
+      const totals = new Map<string, number>();
+      for (const s of securities) {
+        totals.set(s.recordDate, (totals.get(s.recordDate) ?? 0) + s.outstandingAmount);
+      }
+
+      const findings: QualityFinding[] = [];
+      for (const [recordDate, marketable] of totals) {
+        const debt = context.debtTotals.get(recordDate);
+        if (!debt || !debt.total) continue;
+        const totalDebt = debt.total;
+
+        const share = marketable / totalDebt;
+        if (share < MARKETABLE_SHARE_RANGE[0] || share > MARKETABLE_SHARE_RANGE[1]) {
+          findings.push({
+            recordKey: recordDate,
+            recordDate,
+            message: `Marketable total $${(marketable / 1e12).toFixed(2)}T is ${pct(share)} of total public debt $${(totalDebt / 1e12).toFixed(2)}T on ${debt.recordDate}`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+];
+
+export const AUCTION_RULES: QualityRule<CleanedAuction>[] = [
+  {
+    id: 'auction.bidder-sum-matches-accepted',
+    severity: 'warning',
+    description: 'Direct, indirect and primary dealer awards must sum to the accepted amount (within 5%)',
+    check: a => {
+      const parts = [a.directBidderAccepted, a.indirectBidderAccepted, a.primaryDealerAccepted];
+      if (!a.acceptedAmount || parts.some(p => p === null)) return null;
+
+      const sum = parts.reduce<number>((total, p) => total + (p ?? 0), 0);
+      const gap = Math.abs(sum - a.acceptedAmount) / a.acceptedAmount;
+      return gap > BIDDER_SUM_TOLERANCE
+        ? `Bidder awards sum to ${sum.toFixed(0)}, ${pct(gap)} off accepted amount ${a.acceptedAmount.toFixed(0)}`
+        : null;
+    },
+  },
+  {
+    id: 'auction.maturity-after-issue',
+    severity: 'error',
+    description: 'Maturity date must be after issue date',
+    check: a => (a.issueDate && a.maturityDate && a.maturityDate <= a.issueDate)
+      ? `Matures ${a.maturityDate}, on or before issue date ${a.issueDate}`
+      : null,
+  },
+  {
+    id: 'auction.issue-after-auction',
+    severity: 'error',
+    description: 'Issue date must be on or after auction date',
+    check: a => (a.issueDate && a.issueDate < a.auctionDate)
+      ? `Issued ${a.issueDate}, before auction date ${a.auctionDate}`
+      : null,
+  },
+  {
+    id: 'auction.bid-to-cover-range',
+    severity: 'warning',
+    description: 'Bid-to-cover ratio must be between 1 and 10',
+    check: a => (a.bidToCoverRatio !== null && (a.bidToCoverRatio < 1 || a.bidToCoverRatio > 10))
+      ? `Bid-to-cover ratio is ${a.bidToCoverRatio}`
+      : null,
+  },
+];
+
+export const DEBT_RULES: QualityRule<CleanedDebtSnapshot>[] = [
+  {
+    id: 'debt.components-sum-to-total',
+    severity: 'error',
+    description: 'Debt held by the public plus intragovernmental holdings must equal total public debt',
+    check: d => {
+      if (d.debtHeldByPublic === null || d.intragovernmentalHoldings === null) return null;
+
+      const sum = d.debtHeldByPublic + d.intragovernmentalHoldings;
+      const gap = Math.abs(sum - d.totalPublicDebt) / d.totalPublicDebt;
+      return gap > DEBT_COMPONENT_TOLERANCE
+        ? `Components sum to ${sum.toFixed(2)}, ${pct(gap)} off total ${d.totalPublicDebt.toFixed(2)}`
+        : null;
+    },
+  },
+  {
+    id: 'debt.daily-change-limit',
+    severity: 'error',
+    description: 'Total public debt must not move more than 3% from the previous record date',
+    checkBatch: (snapshots, context) => {
+      const sorted = [...snapshots].sort((a, b) => a.recordDate.localeCompare(b.recordDate));
+      const findings: QualityFinding[] = [];
+      let previous = context.previousDebt;
+
+      for (const snapshot of sorted) {
+        if (previous && previous.recordDate < snapshot.recordDate) {
+          const change = (snapshot.totalPublicDebt - previous.totalPublicDebt) / previous.totalPublicDebt;
+          if (Math.abs(change) > MAX_DAILY_DEBT_CHANGE) {
+            findings.push({
+              recordKey: snapshot.recordDate,
+              recordDate: snapshot.recordDate,
+              message: `Total debt moved ${pct(change)} since ${previous.recordDate}`,
+            });
+          }
+        }
+        previous = snapshot;
+      }
+      return findings;
+    },
+  },
+];
+
+export const INDICATOR_RULES: QualityRule<CleanedEconomicIndicator>[] = [
+  {
+    id: 'indicator.yield-range',
+    severity: 'warning',
+    description: 'Nominal and real yields must be between -5% and 25%',
+    check: i => {
+      const out = ([['10Y', i.yield10y], ['2Y', i.yield2y], ['10Y real', i.realYield10y]] as const)
+        .filter(([, value]) => value !== null && (value < -5 || value > 25));
+      return out.length > 0
+        ? out.map(([label, value]) => `${label} yield is ${value}%`).join('; ')
+        : null;
+    },
+  },
+  {
+    id: 'indicator.average-rate-range',
+    severity: 'warning',
+    description: 'Average interest rate on the debt must be between 0% and 20%',
+    check: i => (i.averageInterestRate !== null && (i.averageInterestRate < 0 || i.averageInterestRate > 20))
+      ? `Average interest rate is ${i.averageInterestRate}%`
+      : null,
+  },
+  {
+    id: 'indicator.breakeven-consistency',
+    severity: 'info',
+    description: '10Y breakeven must equal the 10Y nominal minus the 10Y real yield',
+    check: i => {
+      if (i.breakeven10y === null || i.yield10y === null || i.realYield10y === null) return null;
+
+      const expected = i.yield10y - i.realYield10y;
+      return Math.abs(expected - i.breakeven10y) > BREAKEVEN_TOLERANCE
+        ? `Breakeven ${i.breakeven10y}% vs nominal minus real ${expected.toFixed(2)}%`
+        : null;
+    },
+  },
+];
+
+export const YIELD_CURVE_RULES: QualityRule<CleanedYieldCurvePoint>[] = [
+  {
+    id: 'yield-curve.yield-range',
+    severity: 'warning',
+    description: 'Yield curve points must be between -5% and 25%',
+    check: p => (p.yield < -5 || p.yield > 25)
+      ? `${p.tenor} ${p.curveType} yield is ${p.yield}%`
+      : null,
+  },
+];
+
+export const QUALITY_RULES = {
+  debt: DEBT_RULES,
+  securities: SECURITY_RULES,
+  auctions: AUCTION_RULES,
+  indicators: INDICATOR_RULES,
+  'yield-curve': YIELD_CURVE_RULES,
+};
+
+export type QualityDataset = keyof typeof QUALITY_RULES;
@@ -0,0 +1,145 @@
+/**
+ * Raw Record Schemas
+ *
+ * zod schemas for the raw Treasury API record types in ../types/treasury.
+ * Fields the sanitizers depend on are required; the rest are optional.
+ * Every field also declares its kind (date, number, string), which is
+ * checked against the `meta.dataTypes` the API reports for it.
+ */
+
+import { z } from 'zod';
+import { TREASURY_ENDPOINTS } from './endpoints';
+
+export type FieldKind = 'date' | 'number' | 'string';
+
+interface FieldSpec {
+  kind: FieldKind;
+  required?: boolean;
+}
+
+export interface RawRecordSchema {
+  recordType: string;
+  fields: Record<string, FieldSpec>;
+  schema: z.ZodObject;
+}
+
+// The API sends every value as a string and uses "null" for missing values
+const NULL_VALUE = z.literal('null');
+
+const FIELD_SCHEMAS: Record<FieldKind, z.ZodType> = {
+  date: z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/), NULL_VALUE]),
+  number: z.union([z.string().regex(/^-?\$?[\d,]*\.?\d*%?$/), NULL_VALUE]),
+  string: z.string(),
+};
+
+/**
+ * Build a record schema from its field specs
+ */
+function defineRawRecord(recordType: string, fields: Record<string, FieldSpec>): RawRecordSchema {
+  const shape = Object.fromEntries(
+    Object.entries(fields).map(([name, spec]) => [
+      name,
+      spec.required ? FIELD_SCHEMAS[spec.kind] : FIELD_SCHEMAS[spec.kind].optional(),
+    ])
+  );
+
+  return { recordType, fields, schema: z.object(shape) };
+}
+
+export const rawDebtRecordSchema = defineRawRecord('RawDebtRecord', {
+  record_date: { kind: 'date', required: true },
+  tot_pub_debt_out_amt: { kind: 'number', required: true },
+  debt_held_public_amt: { kind: 'number', required: true },
+  intragov_hold_amt: { kind: 'number', required: true },
+});
+
+export const rawMarketSecurityRecordSchema = defineRawRecord('RawMarketSecurityRecord', {
+  record_date: { kind: 'date', required: true },
+  security_type_desc: { kind: 'string', required: true },
+  security_class: { kind: 'string', required: true },
+  cusip: { kind: 'string', required: true },
+  issue_date: { kind: 'date', required: true },
+  maturity_date: { kind: 'date', required: true },
+  outstanding_amt: { kind: 'number', required: true },
+  interest_rate: { kind: 'number', required: true },
+  yield: { kind: 'number' },
+  spread: { kind: 'number' },
+});
+
+export const rawAuctionRecordSchema = defineRawRecord('RawAuctionRecord', {
+  auction_date: { kind: 'date', required: true },
+  issue_date: { kind: 'date', required: true },
+  maturity_date: { kind: 'date', required: true },
+  security_type: { kind: 'string', required: true },
+  security_term: { kind: 'string', required: true },
+  cusip: { kind: 'string', required: true },
+  bid_to_cover_ratio: { kind: 'number', required: true },
+  high_yield: { kind: 'number', required: true },
+  high_discount_rate: { kind: 'number', required: true },
+  offering_amt: { kind: 'number', required: true },
+  accepted_amt: { kind: 'number', required: true },
+  total_tendered: { kind: 'number', required: true },
+  direct_bidder_accepted_amt: { kind: 'number' },
+  indirect_bidder_accepted_amt: { kind: 'number' },
+  primary_dealer_accepted_amt: { kind: 'number' },
+});
+
+export const rawInterestExpenseRecordSchema = defineRawRecord('RawInterestExpenseRecord', {
+  record_date: { kind: 'date', required: true },
+  fy_td_expense_amt: { kind: 'number', required: true },
+  month_expense_amt: { kind: 'number' },
+});
+
+export const rawAvgInterestRateRecordSchema = defineRawRecord('RawAvgInterestRateRecord', {
+  record_date: { kind: 'date', required: true },
+  avg_interest_rate_amt: { kind: 'number', required: true },
+});
+
+export const rawYieldCurveRecordSchema = defineRawRecord('RawYieldCurveRecord', {
+  record_date: { kind: 'date', required: true },
+  new_date: { kind: 'date' },
+  bc_1month: { kind: 'number' },
+  bc_2month: { kind: 'number' },
+  bc_3month: { kind: 'number' },
+  bc_4month: { kind: 'number' },
+  bc_6month: { kind: 'number' },
+  bc_1year: { kind: 'number' },
+  bc_2year: { kind: 'number', required: true },
+  bc_3year: { kind: 'number' },
+  bc_5year: { kind: 'number' },
+  bc_7year: { kind: 'number' },
+  bc_10year: { kind: 'number', required: true },
+  bc_20year: { kind: 'number' },
+  bc_30year: { kind: 'number' },
+});
+
+export const rawRealYieldCurveRecordSchema = defineRawRecord('RawRealYieldCurveRecord', {
+  record_date: { kind: 'date', required: true },
+  new_date: { kind: 'date' },
+  tc_5year: { kind: 'number' },
+  tc_7year: { kind: 'number' },
+  tc_10year: { kind: 'number', required: true },
+  tc_20year: { kind: 'number' },
+  tc_30year: { kind: 'number' },
+});
+
+// Record schema expected from each endpoint
+export const RAW_SCHEMAS_BY_ENDPOINT: Record<string, RawRecordSchema> = {
+  [TREASURY_ENDPOINTS.debtToPenny]: rawDebtRecordSchema,
+  [TREASURY_ENDPOINTS.securities]: rawMarketSecurityRecordSchema,
+  [TREASURY_ENDPOINTS.auctions]: rawAuctionRecordSchema,
+  [TREASURY_ENDPOINTS.interestExpense]: rawInterestExpenseRecordSchema,
+  [TREASURY_ENDPOINTS.avgInterestRates]: rawAvgInterestRateRecordSchema,
+  [TREASURY_ENDPOINTS.yieldCurve]: rawYieldCurveRecordSchema,
+  [TREASURY_ENDPOINTS.realYieldCurve]: rawRealYieldCurveRecordSchema,
+};
+
+/**
+ * Kind of value a Fiscal Data `meta.dataTypes` entry describes
+ */
+export function dataTypeKind(dataType: string): FieldKind {
+  const type = dataType.toUpperCase();
+  if (type === 'DATE') return 'date';
+  if (type === 'STRING') return 'string';
+  return 'number'; // CURRENCY, NUMBER, PERCENTAGE, INTEGER, YEAR, ...
+}
@@ -0,0 +1,145 @@
+/**
+ * Reprocess Archived Payloads
+ *
+ * Re-runs the sanitizers over raw Treasury pages stored in
+ * `raw_api_payloads` and upserts the result into the cleaned tables.
+ * Used after a sanitizer fix; makes no network requests.
+ */
+
+import type { Database } from '../db';
+import type {
+  RawDebtRecord,
+  RawMarketSecurityRecord,
+  RawAuctionRecord,
+  RawInterestExpenseRecord,
+  RawAvgInterestRateRecord,
+  RawYieldCurveRecord,
+  RawRealYieldCurveRecord,
+} from '../types/treasury';
+import { TREASURY_ENDPOINTS } from './endpoints';
+import {
+  cleanDebtRecords,
+  cleanSecurityRecords,
+  cleanAuctionRecords,
+  cleanEconomicIndicatorHistory,
+  cleanYieldCurvePoints,
+} from './sanitizers';
+import {
+  upsertDebtSnapshots,
+  upsertSecurities,
+  upsertAuctions,
+  upsertEconomicIndicators,
+  upsertYieldCurvePoints,
+  type LoadContext,
+  type UpsertCounts,
+} from './loaders';
+import { loadArchivedRecords } from './payload-archive';
+import { storeMaturityWallAggregates } from './maturity-wall';
+import { storeAuctionTails } from './auction-tails';
+import { storeBreakevens } from './breakevens';
+import { storeSupplyMetrics } from './supply';
+import type { BackfillDataset } from './backfill';
+
+export interface ReprocessResult {
+  dataset: BackfillDataset;
+  startDate: string; // Fetch date range of the archived payloads
+  endDate: string;
+  payloads: number;
+  records: number;
+  counts: UpsertCounts;
+  durationMs: number;
+}
+
+/**
+ * Reprocess every payload of a dataset fetched within a date range
+ */
+export async function runReprocess(
+  db: Database,
+  dataset: BackfillDataset,
+  startDate: string,
+  endDate: string,
+  context: LoadContext = {}
+): Promise<ReprocessResult> {
+  const startTime = Date.now();
+  let payloads = 0;
+  let records = 0;
+  let counts: UpsertCounts = { inserted: 0, updated: 0, unchanged: 0 };
+
+  console.log(`[Reprocess] ${dataset}: payloads fetched ${startDate} to ${endDate}`);
+
+  switch (dataset) {
+    case 'debt': {
+      const archived = await loadArchivedRecords<RawDebtRecord>(
+        db, TREASURY_ENDPOINTS.debtToPenny, startDate, endDate
+      );
+      payloads = archived.payloads;
+      records = archived.records.length;
+      counts = await upsertDebtSnapshots(db, cleanDebtRecords(archived.records), context);
+      break;
+    }
+    case 'securities': {
+      const archived = await loadArchivedRecords<RawMarketSecurityRecord>(
+        db, TREASURY_ENDPOINTS.securities, startDate, endDate
+      );
+      const cleaned = cleanSecurityRecords(archived.records);
+      payloads = archived.payloads;
+      records = archived.records.length;
+      counts = await upsertSecurities(db, cleaned, context);
+      await storeMaturityWallAggregates(db, cleaned.map(s => s.recordDate));
+      await storeSupplyMetrics(db, cleaned.map(s => s.recordDate));
+      break;
+    }
+    case 'auctions': {
+      const archived = await loadArchivedRecords<RawAuctionRecord>(
+        db, TREASURY_ENDPOINTS.auctions, startDate, endDate
+      );
+      payloads = archived.payloads;
+      records = archived.records.length;
+      const cleaned = cleanAuctionRecords(archived.records);
+      counts = await upsertAuctions(db, cleaned, context);
+      await storeAuctionTails(db, cleaned.map(a => a.auctionDate));
+      break;
+    }
+    case 'indicators': {
+      const [expenses, rates, yields, realYields] = await Promise.all([
+        loadArchivedRecords<RawInterestExpenseRecord>(db, TREASURY_ENDPOINTS.interestExpense, startDate, endDate),
+        loadArchivedRecords<RawAvgInterestRateRecord>(db, TREASURY_ENDPOINTS.avgInterestRates, startDate, endDate),
+        loadArchivedRecords<RawYieldCurveRecord>(db, TREASURY_ENDPOINTS.yieldCurve, startDate, endDate),
+        loadArchivedRecords<RawRealYieldCurveRecord>(db, TREASURY_ENDPOINTS.realYieldCurve, startDate, endDate),
+      ]);
+      payloads = expenses.payloads + rates.payloads + yields.payloads + realYields.payloads;
+      records = expenses.records.length + rates.records.length +
+        yields.records.length + realYields.records.length;
+
+      const cleaned = cleanEconomicIndicatorHistory(
+        expenses.records,
+        rates.records,
+        yields.records,
+        realYields.records
+      );
+      counts = await upsertEconomicIndicators(db, cleaned, context);
+      break;
+    }
+    case 'yield-curve': {
+      const [yields, realYields] = await Promise.all([
+        loadArchivedRecords<RawYieldCurveRecord>(db, TREASURY_ENDPOINTS.yieldCurve, startDate, endDate),
+        loadArchivedRecords<RawRealYieldCurveRecord>(db, TREASURY_ENDPOINTS.realYieldCurve, startDate, endDate),
+      ]);
+      payloads = yields.payloads + realYields.payloads;
+      records = yields.records.length + realYields.records.length;
+      const cleaned = cleanYieldCurvePoints(yields.records, realYields.records);
+      counts = await upsertYieldCurvePoints(db, cleaned, context);
+      await storeBreakevens(db, cleaned.map(p => p.recordDate));
+      await storeAuctionTails(db, cleaned.map(p => p.recordDate));
+      break;
+    }
+  }
+
+  const durationMs = Date.now() - startTime;
+  console.log(
+    `[Reprocess] ${dataset}: ${payloads} payload(s), ${records} records, inserted ${counts.inserted}, ` +
+    `updated ${counts.updated}, unchanged ${counts.unchanged} in ${durationMs}ms`
+  );
+
+  return { dataset, startDate, endDate, payloads, records, counts, durationMs };
+}
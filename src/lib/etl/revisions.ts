@@ -0,0 +1,154 @@
+/**
+ * Revision Tracking
+ *
+ * Treasury restates published figures (revised auction allotments, corrected
+ * MSPD rows, debt_to_penny adjustments). Before a loader overwrites a stored
+ * row, the incoming values are compared field by field and every change is
+ * written to `data_revisions` with the ingest job that detected it.
+ */
+
+import { and, asc, eq, gte, lte, getTableName, type AnyColumn } from 'drizzle-orm';
+import { PgNumeric } from 'drizzle-orm/pg-core';
+import type { Database } from '../db';
+import {
+  dataRevisions,
+  dailyDebtSnapshots,
+  treasurySecurities,
+  treasuryAuctions,
+  economicIndicators,
+  yieldCurvePoints,
+  type DataRevision,
+  type NewDataRevision,
+} from '../db/schema';
+
+type Row = Record<string, unknown>;
+
+// Revision rows per INSERT statement
+const BATCH_SIZE = 500;
+
+/**
+ * Describes how rows of one table are identified and compared
+ */
+export interface RevisionSource {
+  tableName: string;
+  columns: Record<string, AnyColumn>; // Tracked value columns keyed by property name
+  keyFields: string[]; // Properties forming the natural key, e.g. ['auctionDate', 'cusip']
+  dateField: string; // Property holding the record date
+}
+
+// Dataset names (as used by backfill and ingest jobs) mapped to their tables
+export const REVISION_DATASETS = {
+  debt: getTableName(dailyDebtSnapshots),
+  securities: getTableName(treasurySecurities),
+  auctions: getTableName(treasuryAuctions),
+  indicators: getTableName(economicIndicators),
+  'yield-curve': getTableName(yieldCurvePoints),
+} as const;
+
+export type RevisionDataset = keyof typeof REVISION_DATASETS;
+
+/**
+ * Render a value the way Postgres stores it, so "1.5" and "1.50000"
+ * in a numeric(8, 5) column are not reported as a change
+ */
+function normalizeValue(column: AnyColumn, value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+
+  if (column instanceof PgNumeric && column.scale !== undefined) {
+    const num = Number(value);
+    if (Number.isFinite(num)) return num.toFixed(column.scale);
+  }
+
+  return String(value);
+}
+
+/**
+ * Natural key of a row, e.g. "2025-01-02|91282CLW9"
+ */
+function naturalKey(source: RevisionSource, row: Row): string {
+  return source.keyFields.map(field => String(row[field] ?? '')).join('|');
+}
+
+/**
+ * Compare incoming rows against their stored versions and list every
+ * changed field. Rows with no stored version are new, not revisions.
+ */
+export function diffRevisions(
+  source: RevisionSource,
+  stored: Row[],
+  incoming: Row[],
+  etlJobId: number | null
+): NewDataRevision[] {
+  const storedByKey = new Map(stored.map(row => [naturalKey(source, row), row]));
+  const revisions: NewDataRevision[] = [];
+
+  for (const row of incoming) {
+    const key = naturalKey(source, row);
+    const previous = storedByKey.get(key);
+    if (!previous) continue;
+
+    for (const [field, column] of Object.entries(source.columns)) {
+      const oldValue = normalizeValue(column, previous[field]);
+      const newValue = normalizeValue(column, row[field]);
+      if (oldValue === newValue) continue;
+
+      revisions.push({
+        tableName: source.tableName,
+        naturalKey: key,
+        recordDate: String(row[source.dateField]),
+        field: column.name,
+        oldValue,
+        newValue,
+        etlJobId,
+      });
+    }
+  }
+
+  return revisions;
+}
+
+/**
+ * Diff and persist revisions for one batch. Returns the number recorded.
+ */
+export async function recordRevisions(
+  db: Database,
+  source: RevisionSource,
+  stored: Row[],
+  incoming: Row[],
+  etlJobId: number | null
+): Promise<number> {
+  const revisions = diffRevisions(source, stored, incoming, etlJobId);
+
+  for (let i = 0; i < revisions.length; i += BATCH_SIZE) {
+    await db.insert(dataRevisions).values(revisions.slice(i, i + BATCH_SIZE));
+  }
+
+  if (revisions.length > 0) {
+    console.log(`[ETL] Recorded ${revisions.length} revision(s) in ${source.tableName}`);
+  }
+
+  return revisions.length;
+}
+
+/**
+ * List stored revisions for a dataset, by record date
+ */
+export async function listRevisions(
+  db: Database,
+  dataset: RevisionDataset,
+  startDate: string,
+  endDate: string,
+  field: string | null,
+  limit: number
+): Promise<DataRevision[]> {
+  return db.select()
+    .from(dataRevisions)
+    .where(and(
+      eq(dataRevisions.tableName, REVISION_DATASETS[dataset]),
+      gte(dataRevisions.recordDate, startDate),
+      lte(dataRevisions.recordDate, endDate),
+      field ? eq(dataRevisions.field, field) : undefined
+    ))
+    .orderBy(asc(dataRevisions.recordDate), asc(dataRevisions.id))
+    .limit(limit);
+}
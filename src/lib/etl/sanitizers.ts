@@ -17,8 +17,35 @@ import type {
   RawYieldCurveRecord,
   RawRealYieldCurveRecord,
   CleanedEconomicIndicator,
+  CleanedYieldCurvePoint,
 } from '../types/treasury';
 
+// Tenors published on the nominal par yield curve, shortest first
+export const NOMINAL_TENORS = [
+  { tenor: '1M', months: 1, field: 'bc_1month' },
+  { tenor: '2M', months: 2, field: 'bc_2month' },
+  { tenor: '3M', months: 3, field: 'bc_3month' },
+  { tenor: '4M', months: 4, field: 'bc_4month' },
+  { tenor: '6M', months: 6, field: 'bc_6month' },
+  { tenor: '1Y', months: 12, field: 'bc_1year' },
+  { tenor: '2Y', months: 24, field: 'bc_2year' },
+  { tenor: '3Y', months: 36, field: 'bc_3year' },
+  { tenor: '5Y', months: 60, field: 'bc_5year' },
+  { tenor: '7Y', months: 84, field: 'bc_7year' },
+  { tenor: '10Y', months: 120, field: 'bc_10year' },
+  { tenor: '20Y', months: 240, field: 'bc_20year' },
+  { tenor: '30Y', months: 360, field: 'bc_30year' },
+] as const satisfies ReadonlyArray<{ tenor: string; months: number; field: keyof RawYieldCurveRecord }>;
+
+// Tenors published on the real (TIPS) yield curve
+export const REAL_TENORS = [
+  { tenor: '5Y', months: 60, field: 'tc_5year' },
+  { tenor: '7Y', months: 84, field: 'tc_7year' },
+  { tenor: '10Y', months: 120, field: 'tc_10year' },
+  { tenor: '20Y', months: 240, field: 'tc_20year' },
+  { tenor: '30Y', months: 360, field: 'tc_30year' },
+] as const satisfies ReadonlyArray<{ tenor: string; months: number; field: keyof RawRealYieldCurveRecord }>;
+
 /**
  * Parse a string number with commas to a float
  * Examples: "1,250.50" -> 1250.50, "N/A" -> null
@@ -258,3 +285,102 @@ export function cleanAuctionRecords(
     .map(cleanAuctionRecord)
     .filter((r): r is CleanedAuction => r !== null);
 }
+
+/**
+ * Batch clean debt records
+ */
+export function cleanDebtRecords(
+  records: RawDebtRecord[]
+): CleanedDebtSnapshot[] {
+  return records
+    .map(cleanDebtRecord)
+    .filter((r): r is CleanedDebtSnapshot => r !== null);
+}
+
+/**
+ * Build one indicator row per yield curve date from historical series.
+ * Monthly series (interest expense, average rates) are carried forward
+ * from the latest record on or before each date.
+ */
+export function cleanEconomicIndicatorHistory(
+  expenses: RawInterestExpenseRecord[],
+  rates: RawAvgInterestRateRecord[],
+  yieldCurves: RawYieldCurveRecord[],
+  realYields: RawRealYieldCurveRecord[]
+): CleanedEconomicIndicator[] {
+  const byDate = <T extends { record_date: string }>(records: T[]) => {
+    const map = new Map<string, T>();
+    for (const record of records) {
+      // Keep the first record per date (matches the single-record fetchers)
+      if (record.record_date && !map.has(record.record_date)) {
+        map.set(record.record_date, record);
+      }
+    }
+    return map;
+  };
+
+  const yieldsByDate = byDate(yieldCurves);
+  const realByDate = byDate(realYields);
+  const sortedExpenses = [...byDate(expenses).values()]
+    .sort((a, b) => a.record_date.localeCompare(b.record_date));
+  const sortedRates = [...byDate(rates).values()]
+    .sort((a, b) => a.record_date.localeCompare(b.record_date));
+
+  const latestOnOrBefore = <T extends { record_date: string }>(records: T[], date: string) => {
+    let latest: T | null = null;
+    for (const record of records) {
+      if (record.record_date > date) break;
+      latest = record;
+    }
+    return latest;
+  };
+
+  const dates = [...new Set([...yieldsByDate.keys(), ...realByDate.keys()])].sort();
+
+  return dates
+    .map(date => cleanEconomicIndicators(
+      latestOnOrBefore(sortedExpenses, date),
+      latestOnOrBefore(sortedRates, date),
+      yieldsByDate.get(date) ?? null,
+      realByDate.get(date) ?? null
+    ))
+    .filter((r): r is CleanedEconomicIndicator => r !== null);
+}
+
+/**
+ * Split nominal and real yield curve records into one point per
+ * date, curve and published tenor. Tenors not published on a date
+ * (e.g. 4M before Oct 2022) are skipped.
+ */
+export function cleanYieldCurvePoints(
+  nominal: RawYieldCurveRecord[],
+  real: RawRealYieldCurveRecord[]
+): CleanedYieldCurvePoint[] {
+  const points: CleanedYieldCurvePoint[] = [];
+
+  for (const record of nominal) {
+    const recordDate = normalizeDate(record.record_date);
+    if (!recordDate) continue;
+
+    for (const { tenor, months, field } of NOMINAL_TENORS) {
+      const value = parseNumber(record[field]);
+      if (value !== null) {
+        points.push({ recordDate, curveType: 'nominal', tenor, tenorMonths: months, yield: value });
+      }
+    }
+  }
+
+  for (const record of real) {
+    const recordDate = normalizeDate(record.record_date);
+    if (!recordDate) continue;
+
+    for (const { tenor, months, field } of REAL_TENORS) {
+      const value = parseNumber(record[field]);
+      if (value !== null) {
+        points.push({ recordDate, curveType: 'real', tenor, tenorMonths: months, yield: value });
+      }
+    }
+  }
+
+  return points;
+}
@@ -0,0 +1,243 @@
+/**
+ * Schema Drift Detection
+ *
+ * Each fetched Treasury API page is checked against the zod schema of its
+ * raw record type (./raw-schemas) and against the field set last seen for
+ * the endpoint (`api_schema_baselines`). New, missing and retyped fields are
+ * reported once and then accepted into the baseline; fields the sanitizers
+ * require are checked on every page, and a page missing one raises
+ * `SchemaDriftError` so the job fails instead of storing nulls.
+ *
+ * Reports raised while an ETL job runs are collected via `captureSchemaDrift`
+ * and written to the job's `etl_job_log` row.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { getDb } from '../db';
+import { apiSchemaBaselines } from '../db/schema';
+import type { SchemaDriftReport, TreasuryApiResponse } from '../types/treasury';
+import { RAW_SCHEMAS_BY_ENDPOINT, dataTypeKind } from './raw-schemas';
+
+export class SchemaDriftError extends Error {
+  constructor(public readonly reports: SchemaDriftReport[]) {
+    super(
+      'Treasury API schema drift: required fields missing (' +
+      reports.map(r => `${r.recordType}: ${r.missingRequired.join(', ')}`).join('; ') +
+      ')'
+    );
+    this.name = 'SchemaDriftError';
+  }
+}
+
+// Reports collected for the ETL run in progress
+const driftCapture = new AsyncLocalStorage<SchemaDriftReport[]>();
+
+// Field name -> data type last seen per endpoint (mirrors api_schema_baselines)
+const baselineCache = new Map<string, Record<string, string>>();
+
+/**
+ * True when the report lists any change at all
+ */
+export function hasDrift(report: SchemaDriftReport): boolean {
+  return report.newFields.length > 0 ||
+    report.missingFields.length > 0 ||
+    report.retypedFields.length > 0 ||
+    report.missingRequired.length > 0;
+}
+
+/**
+ * Run `operation` and collect every drift report raised inside it into
+ * `reports` (one merged report per endpoint), even if it throws
+ */
+export function captureSchemaDrift<T>(
+  reports: SchemaDriftReport[],
+  operation: () => Promise<T>
+): Promise<T> {
+  return driftCapture.run(reports, operation);
+}
+
+/**
+ * Merge a report into a list, keeping one entry per endpoint
+ */
+function mergeReport(reports: SchemaDriftReport[], report: SchemaDriftReport): void {
+  const existing = reports.find(r => r.endpoint === report.endpoint);
+  if (!existing) {
+    reports.push(report);
+    return;
+  }
+
+  const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+  existing.checkedAt = report.checkedAt;
+  existing.recordsChecked += report.recordsChecked;
+  existing.newFields = union(existing.newFields, report.newFields);
+  existing.missingFields = union(existing.missingFields, report.missingFields);
+  existing.missingRequired = union(existing.missingRequired, report.missingRequired);
+  for (const retyped of report.retypedFields) {
+    if (!existing.retypedFields.some(r => r.field === retyped.field)) {
+      existing.retypedFields.push(retyped);
+    }
+  }
+}
+
+/**
+ * Load the stored field set of an endpoint (null if never seen)
+ */
+async function loadBaseline(endpoint: string): Promise<Record<string, string> | null> {
+  const cached = baselineCache.get(endpoint);
+  if (cached) return cached;
+
+  const db = getDb();
+  if (!db) return null;
+
+  try {
+    const rows = await db.select().from(apiSchemaBaselines);
+    for (const row of rows) {
+      baselineCache.set(row.endpoint, row.fields);
+    }
+  } catch (error) {
+    console.warn('[Treasury API] Could not load schema baselines:', error);
+  }
+
+  return baselineCache.get(endpoint) ?? null;
+}
+
+/**
+ * Accept the observed field set as the endpoint's new baseline
+ */
+async function saveBaseline(endpoint: string, fields: Record<string, string>): Promise<void> {
+  baselineCache.set(endpoint, fields);
+
+  const db = getDb();
+  if (!db) return;
+
+  try {
+    await db.insert(apiSchemaBaselines)
+      .values({ endpoint, fields })
+      .onConflictDoUpdate({
+        target: apiSchemaBaselines.endpoint,
+        set: { fields, updatedAt: new Date() },
+      });
+  } catch (error) {
+    console.warn(`[Treasury API] Could not save schema baseline for ${endpoint}:`, error);
+  }
+}
+
+/**
+ * Field name -> data type observed in a response. Falls back to the keys of
+ * the first record when the API omits meta.dataTypes.
+ */
+function observedFields(response: TreasuryApiResponse<unknown>): Record<string, string> {
+  if (response.meta?.dataTypes && Object.keys(response.meta.dataTypes).length > 0) {
+    return response.meta.dataTypes;
+  }
+
+  const first = response.data[0];
+  return first && typeof first === 'object'
+    ? Object.fromEntries(Object.keys(first).map(field => [field, 'UNKNOWN']))
+    : {};
+}
+
+/**
+ * Compare one response against its record schema and the endpoint baseline.
+ * Returns null for endpoints without a declared schema and for empty pages.
+ */
+export async function detectSchemaDrift(
+  endpoint: string,
+  response: TreasuryApiResponse<unknown>
+): Promise<SchemaDriftReport | null> {
+  const recordSchema = RAW_SCHEMAS_BY_ENDPOINT[endpoint];
+  if (!recordSchema || response.data.length === 0) return null;
+
+  const observed = observedFields(response);
+  const baseline = await loadBaseline(endpoint);
+  const report: SchemaDriftReport = {
+    endpoint,
+    recordType: recordSchema.recordType,
+    checkedAt: new Date().toISOString(),
+    recordsChecked: response.data.length,
+    newFields: [],
+    missingFields: [],
+    retypedFields: [],
+    missingRequired: [],
+  };
+
+  // Changes relative to the last response seen for this endpoint
+  if (baseline) {
+    report.newFields = Object.keys(observed).filter(field => !(field in baseline));
+    report.missingFields = Object.keys(baseline).filter(field => !(field in observed));
+    for (const [field, type] of Object.entries(observed)) {
+      if (field in baseline && baseline[field] !== type) {
+        report.retypedFields.push({ field, expected: baseline[field], actual: type });
+      }
+    }
+  }
+
+  // Declared kinds against meta.dataTypes
+  for (const [field, spec] of Object.entries(recordSchema.fields)) {
+    const type = observed[field];
+    if (type && type !== 'UNKNOWN' && dataTypeKind(type) !== spec.kind &&
+      !report.retypedFields.some(r => r.field === field)) {
+      report.retypedFields.push({ field, expected: spec.kind, actual: type });
+    }
+  }
+
+  // Record-level validation: missing required fields and unparseable values
+  const missingRequired = new Set<string>();
+  for (const record of response.data) {
+    const result = recordSchema.schema.safeParse(record);
+    if (result.success) continue;
+
+    for (const issue of result.error.issues) {
+      const field = String(issue.path[0]);
+      const value = (record as Record<string, unknown>)[field];
+      if (value === undefined) {
+        missingRequired.add(field);
+      } else if (!report.retypedFields.some(r => r.field === field)) {
+        report.retypedFields.push({
+          field,
+          expected: recordSchema.fields[field]?.kind ?? 'unknown',
+          actual: `invalid value ${JSON.stringify(value)}`,
+        });
+      }
+    }
+  }
+  report.missingRequired = [...missingRequired];
+
+  if (!baseline || report.newFields.length > 0 || report.missingFields.length > 0 ||
+    report.retypedFields.some(r => !r.actual.startsWith('invalid value'))) {
+    await saveBaseline(endpoint, observed);
+  }
+
+  return report;
+}
+
+/**
+ * Check a response, log and collect any drift, and throw when required
+ * fields are missing. Field-restricted queries (`fields=`) are skipped.
+ */
+export async function checkSchemaDrift(
+  endpoint: string,
+  params: URLSearchParams,
+  response: TreasuryApiResponse<unknown>
+): Promise<void> {
+  if (params.has('fields')) return;
+
+  const report = await detectSchemaDrift(endpoint, response);
+  if (!report) return;
+
+  const collected = driftCapture.getStore();
+  if (collected) mergeReport(collected, report);
+
+  if (!hasDrift(report)) return;
+
+  console.warn(
+    `[Treasury API] Schema drift in ${report.recordType}: ` +
+    `new [${report.newFields.join(', ')}], missing [${report.missingFields.join(', ')}], ` +
+    `retyped [${report.retypedFields.map(r => r.field).join(', ')}], ` +
+    `required missing [${report.missingRequired.join(', ')}]`
+  );
+
+  if (report.missingRequired.length > 0) {
+    throw new SchemaDriftError([report]);
+  }
+}
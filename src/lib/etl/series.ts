@@ -0,0 +1,233 @@
+/**
+ * Stored Series Catalog
+ *
+ * Maps metric ids to the stored column they read, with units and source,
+ * so any stored metric can be served as a dated series (/api/series).
+ *
+ * Ids:
+ * - debt.total, debt.public, debt.intragov
+ * - interest.expense, interest.avg-rate, spread.10y2y
+ * - yield.<tenor> (nominal, e.g. yield.10y, yield.3m), real.<tenor> (TIPS)
+ * - breakeven.<tenor> (5y, 7y, 10y, 20y, 30y) and breakeven.5y5y
+ * - supply.outstanding, supply.wam, supply.bill-share,
+ *   supply.maturing.<horizon> (3m, 6m, 12m, 24m)
+ * - auction.<field>.<term>, field one of btc, yield, size, accepted,
+ *   indirect (indirect bidder share), term a security term such as 10-Year
+ */
+
+import { and, asc, eq, getTableName, gte, lte, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import type { Database } from '../db';
+import {
+  dailyDebtSnapshots,
+  economicIndicators,
+  yieldCurvePoints,
+  breakevenRates,
+  supplyMetrics,
+  treasuryAuctions,
+} from '../db/schema';
+import type { SeriesPoint } from '../analytics/resample';
+import { NOMINAL_TENORS, REAL_TENORS } from './sanitizers';
+
+export type SeriesUnits = 'usd' | 'percent' | 'ratio' | 'months';
+
+export interface SeriesDefinition {
+  id: string;
+  label: string;
+  units: SeriesUnits;
+  source: string; // Stored table
+  load: (db: Database, startDate: string, endDate: string) => Promise<SeriesPoint[]>;
+}
+
+type StoredTable =
+  | typeof dailyDebtSnapshots
+  | typeof economicIndicators
+  | typeof yieldCurvePoints
+  | typeof breakevenRates
+  | typeof supplyMetrics
+  | typeof treasuryAuctions;
+
+/**
+ * Read one nullable decimal column as dated points
+ */
+async function selectColumn(
+  db: Database,
+  table: StoredTable,
+  dateColumn: PgColumn,
+  valueColumn: PgColumn,
+  startDate: string,
+  endDate: string,
+  where?: SQL
+): Promise<SeriesPoint[]> {
+  const rows = await db.select({ date: dateColumn, value: valueColumn })
+    .from(table)
+    .where(and(gte(dateColumn, startDate), lte(dateColumn, endDate), where))
+    .orderBy(asc(dateColumn));
+
+  return rows.flatMap(r => r.value === null
+    ? []
+    : [{ date: String(r.date), value: parseFloat(String(r.value)) }]);
+}
+
+/**
+ * Series backed by a single stored column
+ */
+function columnSeries(
+  id: string,
+  label: string,
+  units: SeriesUnits,
+  table: StoredTable,
+  dateColumn: PgColumn,
+  valueColumn: PgColumn,
+  where?: SQL
+): SeriesDefinition {
+  return {
+    id,
+    label,
+    units,
+    source: getTableName(table),
+    load: (db, startDate, endDate) =>
+      selectColumn(db, table, dateColumn, valueColumn, startDate, endDate, where),
+  };
+}
+
+const STATIC_SERIES: SeriesDefinition[] = [
+  columnSeries('debt.total', 'Total public debt outstanding', 'usd',
+    dailyDebtSnapshots, dailyDebtSnapshots.recordDate, dailyDebtSnapshots.totalPublicDebt),
+  columnSeries('debt.public', 'Debt held by the public', 'usd',
+    dailyDebtSnapshots, dailyDebtSnapshots.recordDate, dailyDebtSnapshots.debtHeldByPublic),
+  columnSeries('debt.intragov', 'Intragovernmental holdings', 'usd',
+    dailyDebtSnapshots, dailyDebtSnapshots.recordDate, dailyDebtSnapshots.intragovernmentalHoldings),
+  columnSeries('interest.expense', 'Interest expense, fiscal year to date', 'usd',
+    economicIndicators, economicIndicators.recordDate, economicIndicators.interestExpense),
+  columnSeries('interest.avg-rate', 'Average interest rate on marketable debt', 'percent',
+    economicIndicators, economicIndicators.recordDate, economicIndicators.averageInterestRate),
+  columnSeries('spread.10y2y', '10Y minus 2Y nominal yield', 'percent',
+    economicIndicators, economicIndicators.recordDate, economicIndicators.yieldCurveSpread),
+  columnSeries('supply.outstanding', 'Marketable debt outstanding (MSPD)', 'usd',
+    supplyMetrics, supplyMetrics.recordDate, supplyMetrics.totalOutstanding),
+  columnSeries('supply.wam', 'Weighted average maturity of marketable debt', 'months',
+    supplyMetrics, supplyMetrics.recordDate, supplyMetrics.wamMonths),
+  columnSeries('supply.bill-share', 'Bill share of marketable debt', 'percent',
+    supplyMetrics, supplyMetrics.recordDate, supplyMetrics.billShare),
+  columnSeries('supply.maturing.3m', 'Marketable debt maturing within 3 months', 'percent',
+    supplyMetrics, supplyMetrics.recordDate, supplyMetrics.maturing3m),
+  columnSeries('supply.maturing.6m', 'Marketable debt maturing within 6 months', 'percent',
+    supplyMetrics, supplyMetrics.recordDate, supplyMetrics.maturing6m),
+  columnSeries('supply.maturing.12m', 'Marketable debt maturing within 12 months', 'percent',
+    supplyMetrics, supplyMetrics.recordDate, supplyMetrics.maturing12m),
+  columnSeries('supply.maturing.24m', 'Marketable debt maturing within 24 months', 'percent',
+    supplyMetrics, supplyMetrics.recordDate, supplyMetrics.maturing24m),
+];
+
+const BREAKEVEN_COLUMNS: Record<string, PgColumn> = {
+  '5y': breakevenRates.breakeven5y,
+  '7y': breakevenRates.breakeven7y,
+  '10y': breakevenRates.breakeven10y,
+  '20y': breakevenRates.breakeven20y,
+  '30y': breakevenRates.breakeven30y,
+  '5y5y': breakevenRates.forward5y5y,
+};
+
+// Auction fields read from a single column
+const AUCTION_COLUMNS: Record<string, { label: string; units: SeriesUnits; column: PgColumn }> = {
+  btc: { label: 'bid-to-cover ratio', units: 'ratio', column: treasuryAuctions.bidToCoverRatio },
+  yield: { label: 'high yield', units: 'percent', column: treasuryAuctions.highYield },
+  size: { label: 'offering amount', units: 'usd', column: treasuryAuctions.offeringAmount },
+  accepted: { label: 'accepted amount', units: 'usd', column: treasuryAuctions.acceptedAmount },
+};
+
+/**
+ * Indirect bidder share (percent of bidder awards) per auction of a term
+ */
+function indirectShareSeries(id: string, term: string): SeriesDefinition {
+  const termFilter = sql`lower(${treasuryAuctions.securityTerm}) = ${term.toLowerCase()}`;
+
+  return {
+    id,
+    label: `${term} auction indirect bidder share`,
+    units: 'percent',
+    source: getTableName(treasuryAuctions),
+    async load(db, startDate, endDate) {
+      const rows = await db.select({
+        date: treasuryAuctions.auctionDate,
+        direct: treasuryAuctions.directBidderAccepted,
+        indirect: treasuryAuctions.indirectBidderAccepted,
+        dealer: treasuryAuctions.primaryDealerAccepted,
+      })
+        .from(treasuryAuctions)
+        .where(and(
+          gte(treasuryAuctions.auctionDate, startDate),
+          lte(treasuryAuctions.auctionDate, endDate),
+          termFilter
+        ))
+        .orderBy(asc(treasuryAuctions.auctionDate));
+
+      return rows.flatMap(r => {
+        if (r.direct === null || r.indirect === null || r.dealer === null) return [];
+        const indirect = parseFloat(r.indirect);
+        const total = parseFloat(r.direct) + indirect + parseFloat(r.dealer);
+        return total > 0 ? [{ date: r.date, value: indirect / total * 100 }] : [];
+      });
+    },
+  };
+}
+
+/**
+ * Look up a metric id; null if it names nothing stored
+ */
+export function resolveSeries(id: string): SeriesDefinition | null {
+  const fixed = STATIC_SERIES.find(s => s.id === id);
+  if (fixed) return fixed;
+
+  const curve = /^(yield|real)\.(\d{1,2}[my])$/.exec(id);
+  if (curve) {
+    const curveType = curve[1] === 'yield' ? 'nominal' : 'real';
+    const tenor = curve[2].toUpperCase();
+    const tenors: readonly { tenor: string }[] = curveType === 'nominal' ? NOMINAL_TENORS : REAL_TENORS;
+    if (!tenors.some(t => t.tenor === tenor)) return null;
+
+    return columnSeries(id, `${tenor} ${curveType === 'nominal' ? 'nominal' : 'real (TIPS)'} yield`, 'percent',
+      yieldCurvePoints, yieldCurvePoints.recordDate, yieldCurvePoints.yield,
+      and(eq(yieldCurvePoints.curveType, curveType), eq(yieldCurvePoints.tenor, tenor)));
+  }
+
+  const breakeven = /^breakeven\.(\w+)$/.exec(id);
+  if (breakeven) {
+    const column = BREAKEVEN_COLUMNS[breakeven[1]];
+    if (!column) return null;
+
+    const label = breakeven[1] === '5y5y'
+      ? '5y5y forward breakeven inflation'
+      : `${breakeven[1].toUpperCase()} breakeven inflation`;
+    return columnSeries(id, label, 'percent', breakevenRates, breakevenRates.recordDate, column);
+  }
+
+  const auction = /^auction\.(\w+)\.([\w -]{1,50})$/.exec(id);
+  if (auction) {
+    const [, field, term] = auction;
+    if (field === 'indirect') return indirectShareSeries(id, term);
+
+    const spec = AUCTION_COLUMNS[field];
+    if (!spec) return null;
+
+    return columnSeries(id, `${term} auction ${spec.label}`, spec.units,
+      treasuryAuctions, treasuryAuctions.auctionDate, spec.column,
+      sql`lower(${treasuryAuctions.securityTerm}) = ${term.toLowerCase()}`);
+  }
+
+  return null;
+}
+
+/**
+ * Fixed ids and the patterns of parameterized ones, for error messages and docs
+ */
+export function describeSeriesIds(): string[] {
+  return [
+    ...STATIC_SERIES.map(s => s.id),
+    'yield.<tenor>',
+    'real.<tenor>',
+    `breakeven.<${Object.keys(BREAKEVEN_COLUMNS).join('|')}>`,
+    `auction.<${[...Object.keys(AUCTION_COLUMNS), 'indirect'].join('|')}>.<term>`,
+  ];
+}
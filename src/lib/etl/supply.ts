@@ -0,0 +1,115 @@
+/**
+ * Supply Metrics Snapshots
+ *
+ * Computes WAM, maturing shares, bill share and the monthly rollover
+ * schedule per MSPD record date from stored securities and persists them
+ * to supply_metrics, so the history can be served as a time series.
+ */
+
+import { and, asc, gte, lte, sql } from 'drizzle-orm';
+import type { Database } from '../db';
+import { supplyMetrics, type SupplyMetric } from '../db/schema';
+import type { SupplyMetrics } from '../types/treasury';
+import { computeSupplyMetrics } from '../analytics/supply';
+import { excluded } from './loaders';
+import { listSecuritiesRecordDates, loadSecuritiesSnapshot } from './maturity-wall';
+
+/**
+ * Map a stored row back to supply metrics
+ */
+function toSupplyMetrics(row: SupplyMetric): SupplyMetrics {
+  return {
+    date: row.recordDate,
+    totalOutstanding: parseFloat(row.totalOutstanding),
+    wamMonths: parseFloat(row.wamMonths),
+    maturing3m: parseFloat(row.maturing3m),
+    maturing6m: parseFloat(row.maturing6m),
+    maturing12m: parseFloat(row.maturing12m),
+    maturing24m: parseFloat(row.maturing24m),
+    billShare: parseFloat(row.billShare),
+    rollover: row.rolloverSchedule,
+  };
+}
+
+/**
+ * Compute supply metrics for every stored record date in a range, oldest
+ * first, without storing them
+ */
+export async function computeStoredSupplyMetrics(
+  db: Database,
+  startDate: string,
+  endDate: string
+): Promise<SupplyMetrics[]> {
+  const dates = (await listSecuritiesRecordDates(db, startDate)).filter(d => d <= endDate);
+  const metrics: SupplyMetrics[] = [];
+
+  for (const recordDate of dates) {
+    const computed = computeSupplyMetrics(recordDate, await loadSecuritiesSnapshot(db, recordDate));
+    if (computed) metrics.push(computed);
+  }
+
+  return metrics;
+}
+
+/**
+ * Recompute and store supply metrics for each record date with stored securities
+ *
+ * @returns Number of dates written
+ */
+export async function storeSupplyMetrics(db: Database, recordDates: string[]): Promise<number> {
+  let written = 0;
+
+  for (const recordDate of [...new Set(recordDates)].sort()) {
+    const metrics = computeSupplyMetrics(recordDate, await loadSecuritiesSnapshot(db, recordDate));
+    if (!metrics) continue;
+
+    await db.insert(supplyMetrics).values({
+      recordDate,
+      totalOutstanding: metrics.totalOutstanding.toString(),
+      wamMonths: metrics.wamMonths.toString(),
+      maturing3m: metrics.maturing3m.toString(),
+      maturing6m: metrics.maturing6m.toString(),
+      maturing12m: metrics.maturing12m.toString(),
+      maturing24m: metrics.maturing24m.toString(),
+      billShare: metrics.billShare.toString(),
+      rolloverSchedule: metrics.rollover,
+    }).onConflictDoUpdate({
+      target: supplyMetrics.recordDate,
+      set: {
+        totalOutstanding: excluded(supplyMetrics.totalOutstanding),
+        wamMonths: excluded(supplyMetrics.wamMonths),
+        maturing3m: excluded(supplyMetrics.maturing3m),
+        maturing6m: excluded(supplyMetrics.maturing6m),
+        maturing12m: excluded(supplyMetrics.maturing12m),
+        maturing24m: excluded(supplyMetrics.maturing24m),
+        billShare: excluded(supplyMetrics.billShare),
+        rolloverSchedule: excluded(supplyMetrics.rolloverSchedule),
+        updatedAt: sql`now()`,
+      },
+    });
+
+    console.log(`[Aggregates] Supply metrics for ${recordDate}: WAM ${metrics.wamMonths.toFixed(1)} months`);
+    written++;
+  }
+
+  return written;
+}
+
+/**
+ * Load stored supply metrics for an inclusive date range, oldest first
+ */
+export async function loadSupplyMetrics(
+  db: Database,
+  startDate: string,
+  endDate: string
+): Promise<SupplyMetrics[]> {
+  const rows = await db.select()
+    .from(supplyMetrics)
+    .where(and(
+      gte(supplyMetrics.recordDate, startDate),
+      lte(supplyMetrics.recordDate, endDate)
+    ))
+    .orderBy(asc(supplyMetrics.recordDate));
+
+  return rows.map(toSupplyMetrics);
+}
@@ -0,0 +1,168 @@
+/**
+ * Treasury API Transport
+ *
+ * The HTTP layer under `fetchFromTreasury`, swappable so the app can run
+ * without network access:
+ * - live: requests api.fiscaldata.treasury.gov (default)
+ * - fixtures: serves recorded JSON responses from a directory
+ * - record: requests the live API and writes each response to the directory
+ *
+ * Selected with TREASURY_API_MODE; fixtures live in TREASURY_FIXTURES_DIR
+ * (default: fixtures/treasury). A fixture is keyed by endpoint + query:
+ * `<dir>/<endpoint>/<hash of sorted query>.json`. When no exact match
+ * exists, `<dir>/<endpoint>/default.json` is served if present, so date
+ * filtered queries still resolve on later days.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: string;
+}
+
+export interface TreasuryTransport {
+  name: string;
+  live: boolean; // Responses come from the network (and are archived)
+  fetch: (url: string, endpoint: string, params: URLSearchParams) => Promise<TransportResponse>;
+}
+
+export const TRANSPORT_MODES = ['live', 'fixtures', 'record'] as const;
+
+export type TransportMode = typeof TRANSPORT_MODES[number];
+
+const FIXTURES_DIR = process.env.TREASURY_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'treasury');
+
+/**
+ * Plain HTTP transport
+ */
+export const httpTransport: TreasuryTransport = {
+  name: 'live',
+  live: true,
+  async fetch(url) {
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/json',
+      },
+      next: { revalidate: 3600 }, // Cache for 1 hour in Next.js
+    });
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      body: response.ok ? await response.text() : '',
+    };
+  },
+};
+
+/**
+ * Fixture path for a request: endpoint dataset name plus a hash of the query
+ */
+export function fixturePath(dir: string, endpoint: string, params: URLSearchParams): string {
+  const sorted = new URLSearchParams([...params.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  const hash = createHash('sha1').update(sorted.toString()).digest('hex').slice(0, 16);
+  return path.join(dir, endpointSlug(endpoint), `${hash}.json`);
+}
+
+/**
+ * Directory name for an endpoint, e.g. "v2_accounting_od_debt_to_penny"
+ */
+function endpointSlug(endpoint: string): string {
+  return endpoint
+    .replace(/^\/services\/api\/fiscal_service\//, '')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+/**
+ * Serve recorded responses from a fixtures directory
+ */
+export function createFixtureTransport(dir: string = FIXTURES_DIR): TreasuryTransport {
+  return {
+    name: 'fixtures',
+    live: false,
+    async fetch(url, endpoint, params) {
+      const exact = fixturePath(dir, endpoint, params);
+      const fallback = path.join(path.dirname(exact), 'default.json');
+
+      for (const file of [exact, fallback]) {
+        try {
+          const body = await fs.readFile(file, 'utf8');
+          console.log(`[Treasury API] Serving fixture ${path.relative(dir, file)}`);
+          return { ok: true, status: 200, statusText: 'OK', body };
+        } catch {
+          // Try the next candidate
+        }
+      }
+
+      return { ok: false, status: 404, statusText: `No fixture for ${url} (expected ${exact})`, body: '' };
+    },
+  };
+}
+
+/**
+ * Fetch live and save every successful response as a fixture
+ */
+export function createRecordingTransport(
+  dir: string = FIXTURES_DIR,
+  inner: TreasuryTransport = httpTransport
+): TreasuryTransport {
+  return {
+    name: 'record',
+    live: inner.live,
+    async fetch(url, endpoint, params) {
+      const response = await inner.fetch(url, endpoint, params);
+
+      if (response.ok) {
+        const file = fixturePath(dir, endpoint, params);
+        try {
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          await fs.writeFile(file, response.body, 'utf8');
+          console.log(`[Treasury API] Recorded fixture ${path.relative(dir, file)}`);
+        } catch (error) {
+          console.error(`[Treasury API] Failed to record fixture ${file}:`, error);
+        }
+      }
+
+      return response;
+    },
+  };
+}
+
+/**
+ * Type guard for TREASURY_API_MODE values
+ */
+export function isTransportMode(value: string): value is TransportMode {
+  return (TRANSPORT_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Build the transport for a mode
+ */
+export function createTransport(mode: TransportMode): TreasuryTransport {
+  switch (mode) {
+    case 'fixtures':
+      return createFixtureTransport();
+    case 'record':
+      return createRecordingTransport();
+    default:
+      return httpTransport;
+  }
+}
+
+/**
+ * Transport selected by TREASURY_API_MODE (unknown values fall back to live)
+ */
+export function transportFromEnv(): TreasuryTransport {
+  const mode = process.env.TREASURY_API_MODE || 'live';
+  if (!isTransportMode(mode)) {
+    console.warn(`[Treasury API] Unknown TREASURY_API_MODE "${mode}", using live`);
+    return httpTransport;
+  }
+  return createTransport(mode);
+}
@@ -15,6 +15,11 @@ import type {
   RawYieldCurveRecord,
   RawRealYieldCurveRecord,
 } from '../types/treasury';
+import { TREASURY_ENDPOINTS } from './endpoints';
+import { archivePayload } from './payload-archive';
+import { transportFromEnv, type TreasuryTransport } from './transport';
+import { checkSchemaDrift } from './schema-drift';
+import { validateLimit } from '../validation';
 
 const BASE_URL = process.env.TREASURY_API_BASE_URL || 'https://api.fiscaldata.treasury.gov';
 
@@ -25,8 +30,29 @@ const RATE_LIMIT_DELAY = 100; // ms between requests
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000; // 1 second
 
+// Pagination guard: upper bound on pages fetched per request (an invalid
+// setting falls back to the default rather than disabling the guard)
+const DEFAULT_MAX_PAGES = 50;
+const maxPagesSetting = validateLimit(process.env.TREASURY_API_MAX_PAGES || null, DEFAULT_MAX_PAGES, 1000);
+if (!maxPagesSetting.isValid) {
+  console.warn(`[Treasury API] Ignoring TREASURY_API_MAX_PAGES="${process.env.TREASURY_API_MAX_PAGES}", using ${DEFAULT_MAX_PAGES}`);
+}
+const MAX_PAGES = maxPagesSetting.value;
+
+// HTTP layer (live, fixtures or record; see ./transport)
+let transport: TreasuryTransport = transportFromEnv();
+
+/**
+ * Replace the transport used for all Treasury API requests
+ */
+export function setTreasuryTransport(next: TreasuryTransport): void {
+  transport = next;
+}
+
 interface FetchOptions {
   pageSize?: number;
+  pageNumber?: number;
+  maxPages?: number;
   sort?: string;
   filter?: string;
   fields?: string[];
@@ -39,6 +65,14 @@ function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Wait the spacing kept between Treasury API requests, for callers that
+ * issue several requests in a row
+ */
+export function rateLimitDelay(): Promise<void> {
+  return delay(RATE_LIMIT_DELAY);
+}
+
 /**
  * Retry wrapper with exponential backoff
  */
@@ -84,98 +118,127 @@ async function withRetry<T>(
 }
 
 /**
- * Generic fetch wrapper with error handling and retry logic
+ * Generic fetch wrapper with error handling, retry logic and schema drift checks
  */
 async function fetchFromTreasury<T>(
   endpoint: string,
   options: FetchOptions = {}
 ): Promise<TreasuryApiResponse<T>> {
-  const { pageSize = 1000, sort, filter, fields } = options;
+  const { pageSize = 1000, pageNumber, sort, filter, fields } = options;
 
   const params = new URLSearchParams();
   params.set('page[size]', pageSize.toString());
 
+  if (pageNumber) params.set('page[number]', pageNumber.toString());
   if (sort) params.set('sort', sort);
   if (filter) params.set('filter', filter);
   if (fields?.length) params.set('fields', fields.join(','));
 
   const url = `${BASE_URL}${endpoint}?${params.toString()}`;
 
-  return withRetry(async () => {
-    console.log(`[Treasury API] Fetching: ${url}`);
+  const data = await withRetry(async () => {
+    console.log(`[Treasury API] Fetching (${transport.name}): ${url}`);
 
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-      },
-      next: { revalidate: 3600 }, // Cache for 1 hour in Next.js
-    });
+    const response = await transport.fetch(url, endpoint, params);
 
     if (!response.ok) {
       throw new Error(`Treasury API error: ${response.status} ${response.statusText}`);
     }
 
-    const data = await response.json() as TreasuryApiResponse<T>;
+    const data = JSON.parse(response.body) as TreasuryApiResponse<T>;
 
     console.log(`[Treasury API] Received ${data.data.length} records (total: ${data.meta['total-count']})`);
 
+    // Fixture responses are not archived
+    if (transport.live) {
+      await archivePayload({
+        endpoint,
+        url,
+        params: Object.fromEntries(params),
+        pageNumber: pageNumber ?? null,
+        body: response.body,
+        meta: data.meta,
+      });
+    }
+
     return data;
   }, `fetch ${endpoint}`);
+
+  // Throws SchemaDriftError when fields the sanitizers need are gone
+  await checkSchemaDrift(endpoint, params, data);
+
+  return data;
 }
 
 /**
  * Fetch all pages of data (with pagination)
- * Reserved for future use with large datasets
+ *
+ * Walks `links.next` / `meta['total-pages']` one page at a time. Each page goes
+ * through `fetchFromTreasury`, so it gets the same retry behaviour as single
+ * page requests. Stops at `maxPages` and warns if the dataset has more pages.
  */
-async function _fetchAllPages<T>(
+async function fetchAllPages<T>(
   endpoint: string,
   options: FetchOptions = {}
 ): Promise<T[]> {
+  const { maxPages = MAX_PAGES, ...pageOptions } = options;
   const allData: T[] = [];
   let page = 1;
   let hasMore = true;
-  
+
   while (hasMore) {
-    const params = new URLSearchParams();
-    params.set('page[size]', (options.pageSize || 1000).toString());
-    params.set('page[number]', page.toString());
-    
-    if (options.sort) params.set('sort', options.sort);
-    if (options.filter) params.set('filter', options.filter);
-    if (options.fields?.length) params.set('fields', options.fields.join(','));
-    
-    const url = `${BASE_URL}${endpoint}?${params.toString()}`;
-    
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Treasury API error: ${response.status}`);
-    }
-    
-    const result = await response.json() as TreasuryApiResponse<T>;
+    const result = await fetchFromTreasury<T>(endpoint, {
+      ...pageOptions,
+      pageNumber: page,
+    });
     allData.push(...result.data);
-    
-    hasMore = result.links.next !== null;
+
+    const totalPages = result.meta['total-pages'] ?? page;
+    hasMore = result.links?.next != null && page < totalPages;
+
+    if (hasMore && page >= maxPages) {
+      console.warn(
+        `[Treasury API] ${endpoint}: stopped after ${maxPages} of ${totalPages} pages ` +
+        `(${allData.length} of ${result.meta['total-count']} records). ` +
+        'Raise TREASURY_API_MAX_PAGES to fetch the full dataset.'
+      );
+      break;
+    }
+
     page++;
-    
+
     // Rate limiting
     if (hasMore) {
-      await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY));
+      await delay(RATE_LIMIT_DELAY);
     }
   }
-  
+
   return allData;
 }
 
+/**
+ * Fetch the first page of any endpoint (used to probe for schema drift)
+ */
+export async function fetchSamplePage(
+  endpoint: string,
+  pageSize: number = 100
+): Promise<TreasuryApiResponse<unknown>> {
+  return fetchFromTreasury<unknown>(endpoint, { pageSize });
+}
+
 /**
  * Fetch the latest debt to penny data
+ *
+ * @param onOrBefore - Only consider record dates on or before this date
  */
-export async function fetchDebtToPenny(): Promise<RawDebtRecord | null> {
+export async function fetchDebtToPenny(onOrBefore?: string): Promise<RawDebtRecord | null> {
   try {
     const response = await fetchFromTreasury<RawDebtRecord>(
-      '/services/api/fiscal_service/v2/accounting/od/debt_to_penny',
+      TREASURY_ENDPOINTS.debtToPenny,
       {
         pageSize: 1,
         sort: '-record_date',
+        filter: onOrBefore ? `record_date:lte:${onOrBefore}` : undefined,
       }
     );
     
@@ -186,23 +249,54 @@ export async function fetchDebtToPenny(): Promise<RawDebtRecord | null> {
   }
 }
 
+/**
+ * Fetch the most recent record date published in MSPD Table 3 Market
+ *
+ * @param onOrBefore - Only consider report dates on or before this date
+ */
+export async function fetchLatestSecuritiesRecordDate(
+  onOrBefore?: string
+): Promise<string | null> {
+  try {
+    const response = await fetchFromTreasury<RawMarketSecurityRecord>(
+      TREASURY_ENDPOINTS.securities,
+      {
+        pageSize: 1,
+        sort: '-record_date',
+        fields: ['record_date'],
+        filter: onOrBefore ? `record_date:lte:${onOrBefore}` : undefined,
+      }
+    );
+
+    return response.data[0]?.record_date || null;
+  } catch (error) {
+    console.error('[Treasury API] Error fetching latest securities record date:', error);
+    throw error;
+  }
+}
+
 /**
  * Fetch MSPD Table 3 Market data (CUSIP-level securities)
  * This is the detailed data needed for the maturity wall
+ *
+ * @param recordDate - MSPD report date to fetch (default: latest published)
  */
 export async function fetchSecuritiesDetail(
+  recordDate?: string,
   pageSize: number = 5000
 ): Promise<RawMarketSecurityRecord[]> {
   try {
-    const response = await fetchFromTreasury<RawMarketSecurityRecord>(
-      '/services/api/fiscal_service/v1/debt/mspd/mspd_table_3_market',
+    const date = recordDate || await fetchLatestSecuritiesRecordDate();
+    if (!date) return [];
+
+    return await fetchAllPages<RawMarketSecurityRecord>(
+      TREASURY_ENDPOINTS.securities,
       {
         pageSize,
         sort: '-record_date',
+        filter: `record_date:eq:${date}`,
       }
     );
-    
-    return response.data;
   } catch (error) {
     console.error('[Treasury API] Error fetching securities detail:', error);
     throw error;
@@ -213,18 +307,18 @@ export async function fetchSecuritiesDetail(
  * Fetch auction data
  */
 export async function fetchAuctions(
-  pageSize: number = 10000
+  pageSize: number = 10000,
+  maxPages: number = MAX_PAGES
 ): Promise<RawAuctionRecord[]> {
   try {
-    const response = await fetchFromTreasury<RawAuctionRecord>(
-      '/services/api/fiscal_service/v1/accounting/od/auctions_query',
+    return await fetchAllPages<RawAuctionRecord>(
+      TREASURY_ENDPOINTS.auctions,
       {
         pageSize,
+        maxPages,
         sort: '-auction_date',
       }
     );
-    
-    return response.data;
   } catch (error) {
     console.error('[Treasury API] Error fetching auctions:', error);
     throw error;
@@ -238,22 +332,64 @@ export async function fetchAuctionsSince(
   sinceDate: string
 ): Promise<RawAuctionRecord[]> {
   try {
-    const response = await fetchFromTreasury<RawAuctionRecord>(
-      '/services/api/fiscal_service/v1/accounting/od/auctions_query',
+    return await fetchAllPages<RawAuctionRecord>(
+      TREASURY_ENDPOINTS.auctions,
       {
         pageSize: 1000,
         sort: '-auction_date',
         filter: `auction_date:gte:${sinceDate}`,
       }
     );
-    
-    return response.data;
   } catch (error) {
     console.error('[Treasury API] Error fetching auctions since date:', error);
     throw error;
   }
 }
 
+/**
+ * Fetch auctions held within a date range
+ */
+export async function fetchAuctionHistory(
+  startDate: string,
+  endDate: string
+): Promise<RawAuctionRecord[]> {
+  try {
+    return await fetchAllPages<RawAuctionRecord>(
+      TREASURY_ENDPOINTS.auctions,
+      {
+        pageSize: 1000,
+        sort: '-auction_date',
+        filter: `auction_date:gte:${startDate},auction_date:lte:${endDate}`,
+      }
+    );
+  } catch (error) {
+    console.error('[Treasury API] Error fetching auction history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch MSPD Table 3 Market records for every report date within a date range
+ */
+export async function fetchSecuritiesHistory(
+  startDate: string,
+  endDate: string
+): Promise<RawMarketSecurityRecord[]> {
+  try {
+    return await fetchAllPages<RawMarketSecurityRecord>(
+      TREASURY_ENDPOINTS.securities,
+      {
+        pageSize: 5000,
+        sort: '-record_date',
+        filter: `record_date:gte:${startDate},record_date:lte:${endDate}`,
+      }
+    );
+  } catch (error) {
+    console.error('[Treasury API] Error fetching securities history:', error);
+    throw error;
+  }
+}
+
 /**
  * Fetch debt history for a date range
  */
@@ -262,16 +398,14 @@ export async function fetchDebtHistory(
   endDate: string
 ): Promise<RawDebtRecord[]> {
   try {
-    const response = await fetchFromTreasury<RawDebtRecord>(
-      '/services/api/fiscal_service/v2/accounting/od/debt_to_penny',
+    return await fetchAllPages<RawDebtRecord>(
+      TREASURY_ENDPOINTS.debtToPenny,
       {
         pageSize: 1000,
         sort: '-record_date',
         filter: `record_date:gte:${startDate},record_date:lte:${endDate}`,
       }
     );
-    
-    return response.data;
   } catch (error) {
     console.error('[Treasury API] Error fetching debt history:', error);
     throw error;
@@ -284,7 +418,7 @@ export async function fetchDebtHistory(
 export async function fetchInterestExpense(): Promise<RawInterestExpenseRecord | null> {
   try {
     const response = await fetchFromTreasury<RawInterestExpenseRecord>(
-      '/services/api/fiscal_service/v2/accounting/od/interest_expense',
+      TREASURY_ENDPOINTS.interestExpense,
       {
         pageSize: 1,
         sort: '-record_date',
@@ -304,7 +438,7 @@ export async function fetchInterestExpense(): Promise<RawInterestExpenseRecord |
 export async function fetchAvgInterestRates(): Promise<RawAvgInterestRateRecord | null> {
   try {
     const response = await fetchFromTreasury<RawAvgInterestRateRecord>(
-      '/services/api/fiscal_service/v2/accounting/od/avg_interest_rates',
+      TREASURY_ENDPOINTS.avgInterestRates,
       {
         pageSize: 1,
         sort: '-record_date',
@@ -324,7 +458,7 @@ export async function fetchAvgInterestRates(): Promise<RawAvgInterestRateRecord
 export async function fetchYieldCurve(): Promise<RawYieldCurveRecord | null> {
   try {
     const response = await fetchFromTreasury<RawYieldCurveRecord>(
-      '/services/api/fiscal_service/v2/accounting/od/daily_treasury_yield_curve',
+      TREASURY_ENDPOINTS.yieldCurve,
       {
         pageSize: 1,
         sort: '-record_date',
@@ -343,7 +477,7 @@ export async function fetchYieldCurve(): Promise<RawYieldCurveRecord | null> {
 export async function fetchRealYieldCurve(): Promise<RawRealYieldCurveRecord | null> {
   try {
     const response = await fetchFromTreasury<RawRealYieldCurveRecord>(
-      '/services/api/fiscal_service/v2/accounting/od/daily_treasury_real_yield_curve',
+      TREASURY_ENDPOINTS.realYieldCurve,
       {
         pageSize: 1,
         sort: '-record_date',
@@ -356,3 +490,92 @@ export async function fetchRealYieldCurve(): Promise<RawRealYieldCurveRecord | n
     return null;
   }
 }
+
+/**
+ * Fetch interest expense records for a date range
+ */
+export async function fetchInterestExpenseHistory(
+  startDate: string,
+  endDate: string
+): Promise<RawInterestExpenseRecord[]> {
+  try {
+    return await fetchAllPages<RawInterestExpenseRecord>(
+      TREASURY_ENDPOINTS.interestExpense,
+      {
+        pageSize: 1000,
+        sort: '-record_date',
+        filter: `record_date:gte:${startDate},record_date:lte:${endDate}`,
+      }
+    );
+  } catch (error) {
+    console.error('[Treasury API] Error fetching interest expense history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch average interest rate records for a date range
+ */
+export async function fetchAvgInterestRateHistory(
+  startDate: string,
+  endDate: string
+): Promise<RawAvgInterestRateRecord[]> {
+  try {
+    return await fetchAllPages<RawAvgInterestRateRecord>(
+      TREASURY_ENDPOINTS.avgInterestRates,
+      {
+        pageSize: 1000,
+        sort: '-record_date',
+        filter: `record_date:gte:${startDate},record_date:lte:${endDate}`,
+      }
+    );
+  } catch (error) {
+    console.error('[Treasury API] Error fetching avg interest rate history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch Daily Treasury Yield Curve (Nominal) records for a date range
+ */
+export async function fetchYieldCurveHistory(
+  startDate: string,
+  endDate: string
+): Promise<RawYieldCurveRecord[]> {
+  try {
+    return await fetchAllPages<RawYieldCurveRecord>(
+      TREASURY_ENDPOINTS.yieldCurve,
+      {
+        pageSize: 1000,
+        sort: '-record_date',
+        filter: `record_date:gte:${startDate},record_date:lte:${endDate}`,
+      }
+    );
+  } catch (error) {
+    console.error('[Treasury API] Error fetching yield curve history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch Daily Treasury Real Yield Curve (TIPS) records for a date range
+ */
+export async function fetchRealYieldCurveHistory(
+  startDate: string,
+  endDate: string
+): Promise<RawRealYieldCurveRecord[]> {
+  try {
+    return await fetchAllPages<RawRealYieldCurveRecord>(
+      TREASURY_ENDPOINTS.realYieldCurve,
+      {
+        pageSize: 1000,
+        sort: '-record_date',
+        filter: `record_date:gte:${startDate},record_date:lte:${endDate}`,
+      }
+    );
+  } catch (error) {
+    console.error('[Treasury API] Error fetching real yield curve history:', error);
+    // Real yield curve endpoint might not exist or differ, fail gracefully
+    return [];
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Yield Curve Snapshots
+ *
+ * Reads the daily nominal and real curves stored in yield_curve_points (or
+ * the Live API) and groups points into one curve per record date, ordered
+ * by maturity.
+ */
+
+import { and, asc, desc, eq, gte, lte } from 'drizzle-orm';
+import type { Database } from '../db';
+import { yieldCurvePoints } from '../db/schema';
+import type { CleanedYieldCurvePoint, YieldCurve, YieldCurveType } from '../types/treasury';
+import { fetchYieldCurveHistory, fetchRealYieldCurveHistory } from './treasury-client';
+import { cleanYieldCurvePoints } from './sanitizers';
+
+// Days searched back for the latest curve when reading the Live API
+const LIVE_LOOKBACK_DAYS = 10;
+
+/**
+ * Group points into curves, oldest date first, tenors by maturity
+ */
+export function groupYieldCurves(points: CleanedYieldCurvePoint[]): YieldCurve[] {
+  const byDate = new Map<string, YieldCurve>();
+
+  for (const p of points) {
+    let curve = byDate.get(p.recordDate);
+    if (!curve) {
+      curve = { date: p.recordDate, nominal: [], real: [] };
+      byDate.set(p.recordDate, curve);
+    }
+    curve[p.curveType].push({ tenor: p.tenor, months: p.tenorMonths, yield: p.yield });
+  }
+
+  const curves = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  for (const curve of curves) {
+    curve.nominal.sort((a, b) => a.months - b.months);
+    curve.real.sort((a, b) => a.months - b.months);
+  }
+  return curves;
+}
+
+/**
+ * Latest stored curve date on or before a date (default: latest overall)
+ */
+export async function findYieldCurveDate(
+  db: Database,
+  onOrBefore?: string | null
+): Promise<string | null> {
+  const rows = await db.select({ date: yieldCurvePoints.recordDate })
+    .from(yieldCurvePoints)
+    .where(onOrBefore ? lte(yieldCurvePoints.recordDate, onOrBefore) : undefined)
+    .orderBy(desc(yieldCurvePoints.recordDate))
+    .limit(1);
+
+  return rows[0]?.date ?? null;
+}
+
+/**
+ * Load stored curves for an inclusive date range, optionally one curve type
+ */
+export async function loadYieldCurves(
+  db: Database,
+  startDate: string,
+  endDate: string,
+  curveType?: YieldCurveType | null
+): Promise<YieldCurve[]> {
+  const rows = await db.select()
+    .from(yieldCurvePoints)
+    .where(and(
+      gte(yieldCurvePoints.recordDate, startDate),
+      lte(yieldCurvePoints.recordDate, endDate),
+      curveType ? eq(yieldCurvePoints.curveType, curveType) : undefined
+    ))
+    .orderBy(asc(yieldCurvePoints.recordDate), asc(yieldCurvePoints.tenorMonths));
+
+  return groupYieldCurves(rows.map(r => ({
+    recordDate: r.recordDate,
+    curveType: r.curveType as YieldCurveType,
+    tenor: r.tenor,
+    tenorMonths: r.tenorMonths,
+    yield: parseFloat(r.yield),
+  })));
+}
+
+/**
+ * Fetch curves for an inclusive date range from the Live API
+ */
+export async function fetchLiveYieldCurves(
+  startDate: string,
+  endDate: string,
+  curveType?: YieldCurveType | null
+): Promise<YieldCurve[]> {
+  const [nominal, real] = await Promise.all([
+    curveType === 'real' ? [] : fetchYieldCurveHistory(startDate, endDate),
+    curveType === 'nominal' ? [] : fetchRealYieldCurveHistory(startDate, endDate),
+  ]);
+
+  return groupYieldCurves(cleanYieldCurvePoints(nominal, real));
+}
+
+/**
+ * Latest curve on or before a date (default: latest overall): stored
+ * curves first, then the Live API. Null when neither has one.
+ */
+export async function resolveYieldCurve(
+  db: Database | null,
+  onOrBefore?: string | null,
+  curveType?: YieldCurveType | null
+): Promise<{ curve: YieldCurve; source: 'database' | 'api' } | null> {
+  if (db) {
+    try {
+      const date = await findYieldCurveDate(db, onOrBefore);
+      if (date) {
+        const [curve] = await loadYieldCurves(db, date, date, curveType);
+        if (curve) return { curve, source: 'database' };
+      }
+    } catch (dbError) {
+      console.warn('[Yield Curve] Database query failed, falling back to API:', dbError);
+    }
+  }
+
+  const end = onOrBefore ?? new Date().toISOString().split('T')[0];
+  const lookback = new Date(end);
+  lookback.setDate(lookback.getDate() - LIVE_LOOKBACK_DAYS);
+
+  const curves = await fetchLiveYieldCurves(lookback.toISOString().split('T')[0], end, curveType);
+  const curve = curves[curves.length - 1];
+  return curve ? { curve, source: 'api' } : null;
+}
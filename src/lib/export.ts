@@ -0,0 +1,149 @@
+/**
+ * Data Export
+ *
+ * Turns a route's tabular data into a download: CSV, JSON Lines or Excel
+ * (or the route's own JSON body). Every format leads with a metadata row
+ * (source, record date, computedAt), followed by column headers with units.
+ */
+
+import ExcelJS from 'exceljs';
+import type { ExportFormat } from './api/schemas';
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  units?: string; // e.g. USD, percent, ratio
+}
+
+export interface ExportMetadata {
+  source: string;
+  recordDate: string | null;
+  computedAt: string;
+  [key: string]: ExportValue;
+}
+
+export interface ExportTable {
+  name: string; // File name stem, e.g. auctions
+  columns: ExportColumn[];
+  rows: Record<string, ExportValue>[];
+  metadata: ExportMetadata;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Column header with its units, e.g. "Total (USD)"
+ */
+function headerLabel(column: ExportColumn): string {
+  return column.units ? `${column.header} (${column.units})` : column.header;
+}
+
+/**
+ * Metadata as "key: value" cells, skipping empty entries
+ */
+function metadataCells(metadata: ExportMetadata): string[] {
+  return Object.entries(metadata)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`);
+}
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or newline
+ */
+function csvCell(value: ExportValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Lines of the CSV file, metadata row first
+ */
+function* csvLines(table: ExportTable): Generator<string> {
+  yield metadataCells(table.metadata).map(csvCell).join(',') + '\r\n';
+  yield table.columns.map(c => csvCell(headerLabel(c))).join(',') + '\r\n';
+  for (const row of table.rows) {
+    yield table.columns.map(c => csvCell(row[c.key])).join(',') + '\r\n';
+  }
+}
+
+/**
+ * Lines of the JSON Lines file: a meta record (with columns), then one object per row
+ */
+function* jsonlLines(table: ExportTable): Generator<string> {
+  yield JSON.stringify({ meta: table.metadata, columns: table.columns }) + '\n';
+  for (const row of table.rows) {
+    yield JSON.stringify(Object.fromEntries(table.columns.map(c => [c.key, row[c.key] ?? null]))) + '\n';
+  }
+}
+
+/**
+ * Stream generated lines as UTF-8
+ */
+function streamLines(lines: Generator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    pull(controller) {
+      const next = lines.next();
+      if (next.done) controller.close();
+      else controller.enqueue(encoder.encode(next.value));
+    },
+  });
+}
+
+/**
+ * Single-sheet workbook: metadata row, bold header row, then data
+ */
+async function xlsxBuffer(table: ExportTable): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(table.name);
+
+  sheet.addRow(metadataCells(table.metadata)).font = { italic: true };
+  sheet.addRow(table.columns.map(headerLabel)).font = { bold: true };
+  for (const row of table.rows) {
+    sheet.addRow(table.columns.map(c => row[c.key] ?? null));
+  }
+  table.columns.forEach((column, i) => {
+    sheet.getColumn(i + 1).width = Math.max(12, headerLabel(column).length + 2);
+  });
+
+  return await workbook.xlsx.writeBuffer() as ArrayBuffer;
+}
+
+/**
+ * Build a download response for a table in the requested format
+ *
+ * @param table - Rows, columns and metadata to export
+ * @param format - Output format
+ * @param body - The route's normal JSON response, served as-is for `json`
+ */
+export async function exportResponse(
+  table: ExportTable,
+  format: ExportFormat,
+  body: unknown
+): Promise<Response> {
+  const stamp = table.metadata.recordDate ?? table.metadata.computedAt.split('T')[0];
+  const headers = {
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${table.name}-${stamp}.${format}"`,
+    'Cache-Control': 'no-store',
+  };
+
+  switch (format) {
+    case 'json':
+      return new Response(JSON.stringify(body, null, 2), { headers });
+    case 'csv':
+      return new Response(streamLines(csvLines(table)), { headers });
+    case 'jsonl':
+      return new Response(streamLines(jsonlLines(table)), { headers });
+    case 'xlsx':
+      return new Response(await xlsxBuffer(table), { headers });
+  }
+}
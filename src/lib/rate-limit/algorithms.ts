@@ -0,0 +1,114 @@
+/**
+ * Rate Limit Algorithms
+ *
+ * Pure functions from (stored state, limit, now) to (next state, result),
+ * so every store can run every algorithm. State is a small JSON object
+ * persisted by the store between requests.
+ */
+
+import type { RateLimitConfig, RateLimitResult } from './types';
+
+export type RateLimitState = Record<string, number>;
+
+export interface RateLimitAlgorithm {
+  consume(state: RateLimitState | null, config: RateLimitConfig, now: number): {
+    state: RateLimitState;
+    result: RateLimitResult;
+  };
+  ttl(config: RateLimitConfig): number; // How long state matters, in ms
+}
+
+/**
+ * Sliding window counter
+ *
+ * Counts requests in fixed windows and estimates the rolling count as the
+ * current window plus the previous one weighted by how much of it still
+ * overlaps the last `interval` ms. No burst of 2x the limit at a window
+ * boundary, unlike a fixed window.
+ */
+export const slidingWindow: RateLimitAlgorithm = {
+  consume(state, { interval, limit }, now) {
+    const windowStart = Math.floor(now / interval) * interval;
+    const windowEnd = windowStart + interval;
+
+    let current = 0;
+    let previous = 0;
+    if (state?.windowStart === windowStart) {
+      current = state.current;
+      previous = state.previous;
+    } else if (state?.windowStart === windowStart - interval) {
+      previous = state.current;
+    }
+
+    const weight = 1 - (now - windowStart) / interval;
+    const allowed = previous * weight + current + 1 <= limit;
+    if (allowed) current++;
+
+    const estimated = previous * weight + current;
+
+    // Until the estimate drops enough for one more request
+    let retryIn = 0;
+    if (!allowed) {
+      retryIn = current + 1 <= limit && previous > 0
+        ? ((estimated + 1 - limit) / previous) * interval
+        : windowEnd - now + interval * Math.max(0, 1 - (limit - 1) / current);
+    }
+
+    return {
+      state: { windowStart, current, previous },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimated)),
+        // Requests in this window stop counting one window after it ends
+        resetIn: current > 0 ? windowEnd + interval - now : windowEnd - now,
+        retryIn: Math.ceil(retryIn),
+      },
+    };
+  },
+
+  ttl({ interval }) {
+    return 2 * interval;
+  },
+};
+
+/**
+ * Token bucket
+ *
+ * A bucket of `limit` tokens refilled continuously over `interval` ms;
+ * each request takes one. Allows bursts up to the limit, then a steady
+ * rate of limit/interval.
+ */
+export const tokenBucket: RateLimitAlgorithm = {
+  consume(state, { interval, limit }, now) {
+    const refillRate = limit / interval; // Tokens per ms
+    const tokens = state
+      ? Math.min(limit, state.tokens + (now - state.updatedAt) * refillRate)
+      : limit;
+
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+
+    return {
+      state: { tokens: left, updatedAt: now },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.floor(left),
+        resetIn: Math.ceil((limit - left) / refillRate),
+        retryIn: allowed ? 0 : Math.ceil((1 - left) / refillRate),
+      },
+    };
+  },
+
+  ttl({ interval }) {
+    return interval; // A bucket untouched for one interval is full again
+  },
+};
+
+export const RATE_LIMIT_ALGORITHMS = {
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+} as const;
+
+export type RateLimitAlgorithmName = keyof typeof RATE_LIMIT_ALGORITHMS;
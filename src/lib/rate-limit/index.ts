@@ -0,0 +1,159 @@
+/**
+ * Rate Limiting Utility
+ *
+ * Rate limiter for API endpoints, with a pluggable store and algorithm:
+ * - RATE_LIMIT_STORE: memory (default; per instance) | postgres (shared
+ *   by every instance, in rate_limit_buckets; falls back to memory
+ *   without a database)
+ * - RATE_LIMIT_ALGORITHM: sliding-window (default) | token-bucket
+ */
+
+import { getDb } from '../db';
+import { RATE_LIMIT_ALGORITHMS, type RateLimitAlgorithmName } from './algorithms';
+import { MemoryRateLimitStore, PostgresRateLimitStore } from './stores';
+import type { RateLimitConfig, RateLimitResult, RateLimitStore } from './types';
+
+export type { RateLimitConfig, RateLimitResult, RateLimitStore } from './types';
+
+// Compare-and-set retries before giving up under contention
+const MAX_ATTEMPTS = 5;
+
+const memoryStore = new MemoryRateLimitStore();
+let postgresStore: PostgresRateLimitStore | null = null;
+
+/**
+ * The configured store
+ */
+function getStore(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE !== 'postgres') return memoryStore;
+
+  const db = getDb();
+  if (!db) return memoryStore;
+
+  postgresStore ??= new PostgresRateLimitStore(db);
+  return postgresStore;
+}
+
+/**
+ * The configured algorithm
+ */
+function getAlgorithm() {
+  const name = process.env.RATE_LIMIT_ALGORITHM ?? 'sliding-window';
+  return name in RATE_LIMIT_ALGORITHMS
+    ? RATE_LIMIT_ALGORITHMS[name as RateLimitAlgorithmName]
+    : RATE_LIMIT_ALGORITHMS['sliding-window'];
+}
+
+/**
+ * Consume one request from a store
+ */
+async function consume(store: RateLimitStore, identifier: string, config: RateLimitConfig): Promise<RateLimitResult> {
+  const algorithm = getAlgorithm();
+  let result: RateLimitResult | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const now = Date.now();
+    const entry = await store.get(identifier, now);
+    const next = algorithm.consume(entry?.state ?? null, config, now);
+    result = next.result;
+
+    const expiresAt = now + algorithm.ttl(config);
+    if (await store.compareAndSet(identifier, entry?.version ?? null, next.state, expiresAt, now)) {
+      return result;
+    }
+  }
+
+  // Lost every race: apply the last decision without recording it
+  return result!;
+}
+
+/**
+ * Check if a request should be rate limited
+ * @param identifier - Unique identifier for the client and route (IP, API key, etc.)
+ * @param config - Rate limit configuration
+ * @returns Whether the request is allowed, with remaining requests and reset times
+ */
+export async function checkRateLimit(
+  identifier: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  const store = getStore();
+  try {
+    return await consume(store, identifier, config);
+  } catch (error) {
+    if (store === memoryStore) throw error;
+    console.warn('[Rate Limit] Store unavailable, using in-memory limits:', error);
+    return consume(memoryStore, identifier, config);
+  }
+}
+
+/**
+ * X-RateLimit-* headers for a result, plus Retry-After when denied
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil((Date.now() + result.resetIn) / 1000).toString(),
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = Math.ceil(result.retryIn / 1000).toString();
+  }
+  return headers;
+}
+
+/**
+ * Extract client identifier from request
+ * Uses X-Forwarded-For header (for proxied requests) or falls back to generic key
+ */
+export function getClientIdentifier(request: Request): string {
+  // Try to get IP from headers (common for proxied requests)
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    // Take the first IP in case of multiple proxies
+    return forwardedFor.split(',')[0].trim();
+  }
+
+  const realIp = request.headers.get('x-real-ip');
+  if (realIp) {
+    return realIp;
+  }
+
+  // Fallback for local development
+  return 'anonymous';
+}
+
+// Pre-configured rate limiters
+export const RATE_LIMITS = {
+  // AI Chat - more restrictive due to API costs
+  chat: { interval: 60000, limit: 20 }, // 20 requests per minute
+
+  // Data endpoints - reasonable limits
+  data: { interval: 60000, limit: 60 }, // 60 requests per minute
+
+  // Health check - more permissive
+  health: { interval: 60000, limit: 120 }, // 120 requests per minute
+} as const;
+
+export type RateLimitCategory = keyof typeof RATE_LIMITS;
+
+// Per-key tiers: requests made with an API key use its tier instead of RATE_LIMITS
+export const RATE_LIMIT_TIERS = {
+  standard: RATE_LIMITS,
+
+  // Partners scripting against the data API
+  partner: {
+    chat: { interval: 60000, limit: 60 },
+    data: { interval: 60000, limit: 600 },
+    health: { interval: 60000, limit: 1200 },
+  },
+
+  // Our own services
+  internal: {
+    chat: { interval: 60000, limit: 200 },
+    data: { interval: 60000, limit: 6000 },
+    health: { interval: 60000, limit: 12000 },
+  },
+} as const satisfies Record<string, Record<RateLimitCategory, RateLimitConfig>>;
+
+export type RateLimitTier = keyof typeof RATE_LIMIT_TIERS;
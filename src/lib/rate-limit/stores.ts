@@ -0,0 +1,112 @@
+/**
+ * Rate Limit Stores
+ *
+ * In-memory (per process, lost on cold start) and Postgres (shared by every
+ * instance, via the Drizzle connection) implementations of RateLimitStore.
+ */
+
+import { and, eq, gt, lt, lte, sql } from 'drizzle-orm';
+import { rateLimitBuckets, type Database } from '../db';
+import type { RateLimitState } from './algorithms';
+import type { RateLimitStore, StoredRateLimitState } from './types';
+
+// Expired entries are swept at most this often
+const CLEANUP_INTERVAL = 60000; // 1 minute
+
+interface MemoryEntry extends StoredRateLimitState {
+  expiresAt: number;
+}
+
+/**
+ * Process-local store backed by a Map
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, MemoryEntry>();
+  private lastCleanup = Date.now();
+
+  async get(key: string, now: number): Promise<StoredRateLimitState | null> {
+    this.cleanup(now);
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > now ? entry : null;
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    state: RateLimitState,
+    expiresAt: number,
+    now: number
+  ): Promise<boolean> {
+    const entry = this.entries.get(key);
+    const version = entry && entry.expiresAt > now ? entry.version : null;
+    if (version !== expectedVersion) return false;
+
+    this.entries.set(key, { state, version: (entry?.version ?? 0) + 1, expiresAt });
+    return true;
+  }
+
+  private cleanup(now: number): void {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL) return;
+
+    this.lastCleanup = now;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Store shared between instances, in the rate_limit_buckets table
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastCleanup = 0;
+
+  constructor(private readonly db: Database) {}
+
+  async get(key: string, now: number): Promise<StoredRateLimitState | null> {
+    await this.cleanup(now);
+
+    const rows = await this.db.select({ state: rateLimitBuckets.state, version: rateLimitBuckets.version })
+      .from(rateLimitBuckets)
+      .where(and(eq(rateLimitBuckets.key, key), gt(rateLimitBuckets.expiresAt, new Date(now))))
+      .limit(1);
+
+    return rows[0] ?? null;
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    state: RateLimitState,
+    expiresAt: number,
+    now: number
+  ): Promise<boolean> {
+    const expires = new Date(expiresAt);
+
+    // New entry: insert, or take over a row that has expired
+    if (expectedVersion === null) {
+      const rows = await this.db.insert(rateLimitBuckets)
+        .values({ key, state, version: 1, expiresAt: expires })
+        .onConflictDoUpdate({
+          target: rateLimitBuckets.key,
+          set: { state, version: sql`${rateLimitBuckets.version} + 1`, expiresAt: expires },
+          setWhere: lte(rateLimitBuckets.expiresAt, new Date(now)),
+        })
+        .returning({ key: rateLimitBuckets.key });
+      return rows.length > 0;
+    }
+
+    const rows = await this.db.update(rateLimitBuckets)
+      .set({ state, version: expectedVersion + 1, expiresAt: expires })
+      .where(and(eq(rateLimitBuckets.key, key), eq(rateLimitBuckets.version, expectedVersion)))
+      .returning({ key: rateLimitBuckets.key });
+    return rows.length > 0;
+  }
+
+  private async cleanup(now: number): Promise<void> {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL) return;
+
+    this.lastCleanup = now;
+    await this.db.delete(rateLimitBuckets).where(lt(rateLimitBuckets.expiresAt, new Date(now)));
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Rate Limit Types
+ */
+
+import type { RateLimitState } from './algorithms';
+
+export interface RateLimitConfig {
+  interval: number; // Time window in ms
+  limit: number;    // Max requests per window
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetIn: number; // ms until the full limit is available again
+  retryIn: number; // ms until the next request is allowed (0 when allowed)
+}
+
+export interface StoredRateLimitState {
+  state: RateLimitState;
+  version: number;
+}
+
+/**
+ * Where rate limit state lives between requests
+ *
+ * A versioned key-value store: `compareAndSet` only writes if the entry is
+ * still at `expectedVersion` (null: absent or expired), so concurrent
+ * requests for one key cannot both spend the same allowance.
+ */
+export interface RateLimitStore {
+  get(key: string, now: number): Promise<StoredRateLimitState | null>;
+  compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    state: RateLimitState,
+    expiresAt: number,
+    now: number
+  ): Promise<boolean>;
+}
@@ -2,8 +2,27 @@
  * Treasury Data Types
  * 
  * Type definitions for Treasury API responses and application data structures.
+ * Types served by our own API are inferred from the zod schemas in
+ * src/lib/api/schemas.ts.
  */
 
+import type { z } from 'zod';
+import type {
+  AuctionDemandDataSchema,
+  AuctionTailStatsSchema,
+  BreakevenTermStructureSchema,
+  DebtSummarySchema,
+  HealthMetricsSchema,
+  HistoricalDataPointSchema,
+  InterestProjectionYearSchema,
+  MaturityWallDataSchema,
+  RolloverMonthSchema,
+  ScenarioParametersSchema,
+  SupplyMetricsSchema,
+  YieldCurveSchema,
+  YieldCurveTenorPointSchema,
+} from '../api/schemas';
+
 // Raw API Response Types (what Treasury API returns)
 export interface TreasuryApiResponse<T> {
   data: T[];
@@ -99,17 +118,48 @@ export interface RawAvgInterestRateRecord {
 export interface RawYieldCurveRecord {
   new_date: string; // Note: API field name can vary, usually "new_date" or "record_date"
   record_date: string;
-  bc_10year: string; // 10Y Nominal
+  bc_1month?: string;
+  bc_2month?: string; // Published since Oct 2018
+  bc_3month?: string;
+  bc_4month?: string; // Published since Oct 2022
+  bc_6month?: string;
+  bc_1year?: string;
   bc_2year: string;  // 2Y Nominal
+  bc_3year?: string;
+  bc_5year?: string;
+  bc_7year?: string;
+  bc_10year: string; // 10Y Nominal
+  bc_20year?: string;
+  bc_30year?: string;
 }
 
 // Raw Real Yield Curve (TIPS)
 export interface RawRealYieldCurveRecord {
   new_date: string;
   record_date: string;
+  tc_5year?: string;
+  tc_7year?: string;
   tc_10year: string; // 10Y Real
+  tc_20year?: string;
+  tc_30year?: string;
+}
+
+// Schema drift found in a Treasury API response, relative to the declared
+// raw record schema and to the field set last seen for the endpoint
+export interface SchemaDriftReport {
+  endpoint: string;
+  recordType: string;
+  checkedAt: string;
+  recordsChecked: number;
+  newFields: string[];
+  missingFields: string[];
+  retypedFields: Array<{ field: string; expected: string; actual: string }>;
+  missingRequired: string[]; // Required by the sanitizers; fails the job
 }
 
+// API key scopes: read data routes, use the AI chat, administer keys and ETL
+export type ApiKeyScope = 'read' | 'chat' | 'admin';
+
 // Cleaned/Normalized Application Types
 
 export interface CleanedSecurity {
@@ -161,37 +211,34 @@ export interface CleanedEconomicIndicator {
   breakeven10y: number | null;
 }
 
-// API Response Types (what we serve to frontend)
+export type YieldCurveType = 'nominal' | 'real';
 
-export interface MaturityWallData {
-  year: number;
-  bills: number;
-  notes: number;
-  bonds: number;
-  tips: number;
-  frn: number;
-  total: number;
-}
-
-export interface AuctionDemandData {
-  date: string;
-  ratio: number;
-  type: string;
-  term: string | null;
-  direct?: number;
-  indirect?: number;
-  dealers?: number;
-  accepted?: number;
-}
-
-export interface DebtSummary {
-  totalDebt: number;
-  totalDebtFormatted: string;
-  debtHeldByPublic: number | null;
-  intragovernmental: number | null;
-  lastUpdated: string;
+export interface CleanedYieldCurvePoint {
+  recordDate: string;
+  curveType: YieldCurveType;
+  tenor: string; // e.g. "3M", "10Y"
+  tenorMonths: number;
+  yield: number; // Percent
 }
 
+// API Response Types (what we serve to frontend)
+
+export type MaturityWallData = z.infer<typeof MaturityWallDataSchema>;
+
+export type RolloverMonth = z.infer<typeof RolloverMonthSchema>;
+
+export type SupplyMetrics = z.infer<typeof SupplyMetricsSchema>;
+
+export type InterestProjectionYear = z.infer<typeof InterestProjectionYearSchema>;
+
+export type ScenarioParameters = z.infer<typeof ScenarioParametersSchema>;
+
+export type AuctionDemandData = z.infer<typeof AuctionDemandDataSchema>;
+
+export type AuctionTailStats = z.infer<typeof AuctionTailStatsSchema>;
+
+export type DebtSummary = z.infer<typeof DebtSummarySchema>;
+
 export interface OwnershipNode {
   id: string;
   label: string;
@@ -212,21 +259,14 @@ export interface OwnershipData {
 }
 
 // Historical Data Point
-export interface HistoricalDataPoint {
-  year: number;
-  intragovernmental: number;
-  foreign: number;
-  federalReserve: number;
-  domesticPrivate: number;
-  total: number;
-}
-
-export interface HealthMetrics {
-  debtToGdp: number | null;
-  interestExpense: number | null; // Annualized in Billions
-  averageInterestRate: number | null;
-  yieldCurveSpread: number | null; // 10Y - 2Y
-  realYield10y: number | null;
-  breakeven10y: number | null;
-  lastUpdated: string;
-}
+export type HistoricalDataPoint = z.infer<typeof HistoricalDataPointSchema>;
+
+export type HealthMetrics = z.infer<typeof HealthMetricsSchema>;
+
+export type YieldCurveTenorPoint = z.infer<typeof YieldCurveTenorPointSchema>;
+
+export type YieldCurve = z.infer<typeof YieldCurveSchema>;
+
+export type BreakevenPoint = BreakevenTermStructure['points'][number];
+
+export type BreakevenTermStructure = z.infer<typeof BreakevenTermStructureSchema>;
@@ -2,7 +2,8 @@
  * Input Validation Utilities
  *
  * Provides validation for API inputs to prevent
- * injection attacks and ensure data integrity.
+ * injection attacks and ensure data integrity. Public data routes
+ * validate their query strings with the zod schemas in src/lib/api.
  */
 
 /**
@@ -98,79 +99,89 @@ export function validateChatMessages(messages: unknown): {
   return { isValid: true, messages: validatedMessages };
 }
 
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 /**
- * Validate timeframe parameter
+ * Validate a single YYYY-MM-DD date parameter
  */
-export function validateTimeframe(timeframe: string | null): {
+export function validateDate(date: string | null, name: string = 'date'): {
   isValid: boolean;
-  value: string;
+  value: string | null;
   error?: string;
 } {
-  const validTimeframes = ['1y', '3y', '5y', '10y'];
-  const value = timeframe || '1y';
+  if (!date) {
+    return { isValid: true, value: null };
+  }
 
-  if (!validTimeframes.includes(value)) {
+  if (!ISO_DATE_PATTERN.test(date) || isNaN(new Date(date).getTime())) {
     return {
       isValid: false,
-      value: '1y',
-      error: `Invalid timeframe. Must be one of: ${validTimeframes.join(', ')}`
+      value: null,
+      error: `Invalid ${name}. Must be a date in YYYY-MM-DD format`
     };
   }
 
-  return { isValid: true, value };
+  return { isValid: true, value: date };
 }
 
 /**
- * Validate security types parameter
+ * Validate a required start/end date range (inclusive, YYYY-MM-DD)
  */
-export function validateSecurityTypes(types: string | null): {
+export function validateDateRange(start: string | null, end: string | null): {
   isValid: boolean;
-  value: string[];
+  value: { start: string; end: string };
   error?: string;
 } {
-  const validTypes = ['BILL', 'NOTE', 'BOND', 'TIPS', 'FRN', 'CMB'];
-  const defaultTypes = ['NOTE', 'BOND'];
+  const today = new Date().toISOString().split('T')[0];
+  const startValidation = validateDate(start, 'start');
+  const endValidation = validateDate(end, 'end');
 
-  if (!types) {
-    return { isValid: true, value: defaultTypes };
-  }
-
-  const requestedTypes = types.split(',').map(t => t.trim().toUpperCase());
-
-  // Check all requested types are valid
-  const invalidTypes = requestedTypes.filter(t => !validTypes.includes(t));
-  if (invalidTypes.length > 0) {
+  if (!startValidation.isValid || !endValidation.isValid) {
     return {
       isValid: false,
-      value: defaultTypes,
-      error: `Invalid security types: ${invalidTypes.join(', ')}. Valid types: ${validTypes.join(', ')}`
+      value: { start: today, end: today },
+      error: startValidation.error || endValidation.error
     };
   }
 
-  return { isValid: true, value: requestedTypes };
+  if (!startValidation.value) {
+    return { isValid: false, value: { start: today, end: today }, error: 'start is required' };
+  }
+
+  const value = { start: startValidation.value, end: endValidation.value || today };
+
+  if (value.start > value.end) {
+    return { isValid: false, value, error: 'start must be on or before end' };
+  }
+
+  return { isValid: true, value };
 }
 
 /**
- * Validate years parameter (for maturity wall)
+ * Validate a row limit (or other positive count) parameter; `label` names
+ * it in the error message
  */
-export function validateYears(years: string | null): {
+export function validateLimit(
+  limit: string | null,
+  defaultLimit: number = 500,
+  maxLimit: number = 5000,
+  label: string = 'Limit'
+): {
   isValid: boolean;
   value: number;
   error?: string;
 } {
-  const defaultYears = 10;
-
-  if (!years) {
-    return { isValid: true, value: defaultYears };
+  if (!limit) {
+    return { isValid: true, value: defaultLimit };
   }
 
-  const parsed = parseInt(years, 10);
+  const parsed = parseInt(limit, 10);
 
-  if (isNaN(parsed) || parsed < 1 || parsed > 30) {
+  if (isNaN(parsed) || parsed < 1 || parsed > maxLimit) {
     return {
       isValid: false,
-      value: defaultYears,
-      error: 'Years must be a number between 1 and 30'
+      value: defaultLimit,
+      error: `${label} must be a number between 1 and ${maxLimit}`
     };
   }
 